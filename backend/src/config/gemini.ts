@@ -1,7 +1,10 @@
 // Gemini AI Configuration
 export const GEMINI_CONFIG = {
-  // You can set your Gemini API key here or use environment variables
-  API_KEY: 'your-gemini-api-key-here',
+  // Read from the backend environment (GEMINI_API_KEY), never shipped to the browser.
+  // A getter, since dotenv loads .env after this module is imported.
+  get API_KEY(): string {
+    return process.env.GEMINI_API_KEY ?? '';
+  },
   
   // Model configuration
   MODEL_NAME: 'gemini-1.5-flash',
@@ -26,5 +29,5 @@ export const GEMINI_CONFIG = {
 // Instructions for setting up Gemini API key:
 // 1. Go to https://makersuite.google.com/app/apikey
 // 2. Create a new API key
-// 3. Set the environment variable: VITE_GEMINI_API_KEY=your-actual-api-key
-// 4. Or replace 'your-gemini-api-key-here' in this file with your actual key
+// 3. Set GEMINI_API_KEY=your-actual-api-key in backend/.env
+// Without a key, generation runs the fallback analysis
@@ -0,0 +1,133 @@
+import { Request, Response } from "express";
+import AcademicYear from "../models/AcademicYear";
+import Subject from "../models/Subject";
+import Classroom from "../models/Classroom";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/httpErrors";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { recordAudit } from "../utils/audit";
+import { departmentFilter } from "../utils/departments";
+import { batchListProblem, enrollmentProblem } from "../utils/academicYears";
+import { defaultBatches } from "../seed/academicYears";
+import { workingDaysOf } from "@timetable/shared";
+import { checkDroppedDays, loadBellSchedule, sortWorkingDays, workingDaysProblem } from "../utils/bellSchedules";
+
+const ACADEMIC_YEAR_LIST: ListOptions = {
+  searchFields: ["code", "label", "program", "divisions"],
+  sortFields: ["code", "label", "program", "order"],
+  defaultSort: { order: 1, code: 1 }
+};
+
+// How many records name the year (or one of its divisions) within the department
+const countUsage = async (department: unknown, year: string, division?: string) => {
+  const scope = division ? { department, year, division } : { department, year };
+  const [subjects, classrooms, slots, timetables] = await Promise.all([
+    division ? 0 : Subject.countDocuments({ department, year }),
+    Classroom.countDocuments(division ? { department, assignedYear: year, assignedDivision: division } : { department, assignedYear: year }),
+    TimetableSlot.countDocuments(scope),
+    Timetable.countDocuments(scope)
+  ]);
+  const records = { subjects, classrooms, slots, timetables };
+  return Object.values(records).some(count => count > 0) ? records : null;
+};
+
+// How many slots (live, or in saved versions) one batch attends
+const countBatchUsage = async (department: unknown, year: string, batch: { name: string; division?: string | null }) => {
+  const scope = { department, year, division: batch.division || null };
+  const [slots, timetables] = await Promise.all([
+    TimetableSlot.countDocuments({ ...scope, batch: batch.name }),
+    Timetable.countDocuments({ ...scope, "slots.batch": batch.name })
+  ]);
+  return slots + timetables > 0 ? { slots, timetables } : null;
+};
+
+const checkBatches = (divisions: string[], batches: unknown) => {
+  const problem = batchListProblem(divisions, batches);
+  if (problem) throw new BadRequestError(`batches ${problem}`, [{ field: "batches", message: problem }]);
+};
+
+// Run after checkBatches, so the batches are known to be well formed
+const checkEnrollment = (divisions: string[], enrollment: unknown, batches: { name: string; division?: string | null; students: number }[]) => {
+  const problem = enrollmentProblem(divisions, enrollment, batches);
+  if (problem) throw new BadRequestError(`enrollment ${problem}`, [{ field: "enrollment", message: problem }]);
+};
+
+// A year's own working days, in week order; null (no override) passes through
+const checkedWorkingDays = (workingDays: unknown) => {
+  if (workingDays === undefined || workingDays === null) return workingDays;
+  const problem = workingDaysProblem(workingDays);
+  if (problem) throw new BadRequestError(`workingDays ${problem}`, [{ field: "workingDays", message: problem }]);
+  return sortWorkingDays(workingDays as { days: string[]; alternate?: string[] });
+};
+
+// GET /api/academic-years - the department's years in teaching order; anyone logged in may read them
+export const getAcademicYears = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, ACADEMIC_YEAR_LIST);
+  sendList(res, await findList(AcademicYear, departmentFilter(req), list, ACADEMIC_YEAR_LIST));
+};
+
+// Without batches, each division starts with the default A, B and C
+export const createAcademicYear = async (req: Request, res: Response) => {
+  const batches = req.body.batches ?? defaultBatches(req.body.divisions);
+  checkBatches(req.body.divisions ?? [], batches);
+  checkEnrollment(req.body.divisions ?? [], req.body.enrollment ?? [], batches);
+  const workingDays = checkedWorkingDays(req.body.workingDays) ?? undefined;
+  const year = new AcademicYear({ ...req.body, batches, workingDays, ...departmentFilter(req) });
+  await year.save();
+  await recordAudit(req, { action: "create", resource: "academic-years", resourceId: year._id, summary: `Added year ${year.code}`, after: year });
+  res.status(201).json(year);
+};
+
+// A code, division or batch that records still use can't be renamed or removed
+export const updateAcademicYear = async (req: Request, res: Response) => {
+  const before = await AcademicYear.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (!before) throw new NotFoundError("Academic year");
+
+  if (req.body.code !== undefined && req.body.code !== before.code) {
+    const records = await countUsage(before.department, before.code);
+    if (records) throw new ConflictError(`Year ${before.code} is in use, so its code can't change.`, { records });
+  }
+  if (req.body.divisions !== undefined) {
+    for (const division of before.divisions.filter(name => !req.body.divisions.includes(name))) {
+      const records = await countUsage(before.department, before.code, division);
+      if (records) throw new ConflictError(`Division ${before.code}-${division} is in use, so it can't be removed.`, { records });
+    }
+  }
+  if (req.body.divisions !== undefined || req.body.batches !== undefined || req.body.enrollment !== undefined) {
+    const batches = req.body.batches ?? before.batches;
+    checkBatches(req.body.divisions ?? before.divisions, batches);
+    checkEnrollment(req.body.divisions ?? before.divisions, req.body.enrollment ?? before.enrollment, batches);
+    const kept = (batch: { name: string; division?: string | null }) => batches.some((candidate: typeof batch) =>
+      candidate.name === batch.name && (candidate.division || null) === (batch.division || null));
+    for (const batch of before.batches.filter(batch => !kept(batch))) {
+      const records = await countBatchUsage(before.department, before.code, batch);
+      const name = [before.code, batch.division, batch.name].filter(Boolean).join("-");
+      if (records) throw new ConflictError(`Batch ${name} is in use, so it can't be removed.`, { records });
+    }
+  }
+
+  const changes = { ...req.body };
+  if ("workingDays" in changes) {
+    changes.workingDays = checkedWorkingDays(changes.workingDays);
+    const schedule = await loadBellSchedule(before.department);
+    await checkDroppedDays(before.department, [before.code], workingDaysOf(schedule, before), workingDaysOf(schedule, changes));
+  }
+  const updated = await AcademicYear.findByIdAndUpdate(before._id, changes, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Academic year");
+  await recordAudit(req, { action: "update", resource: "academic-years", resourceId: updated._id, summary: `Updated year ${updated.code}`, before, after: updated });
+  res.json(updated);
+};
+
+// Refused while subjects, classrooms or timetables still name the year
+export const deleteAcademicYear = async (req: Request, res: Response) => {
+  const year = await AcademicYear.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (!year) throw new NotFoundError("Academic year");
+
+  const records = await countUsage(year.department, year.code);
+  if (records) throw new ConflictError(`Year ${year.code} is still in use. Move or delete its records first.`, { records });
+
+  await AcademicYear.findByIdAndDelete(year._id);
+  await recordAudit(req, { action: "delete", resource: "academic-years", resourceId: year._id, summary: `Deleted year ${year.code}`, before: year });
+  res.json({ message: "Academic year deleted" });
+};
@@ -0,0 +1,36 @@
+import { Request, Response } from "express";
+import AuditEntry from "../models/AuditEntry";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+
+const AUDIT_LIST: ListOptions = {
+  searchFields: ["summary", "actor.name", "resource"],
+  sortFields: ["createdAt", "action", "resource", "actor.name"],
+  defaultSort: { createdAt: -1 }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A bare date as `to` means up to the end of that day
+const untilCondition = (to: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(to) ? { $lt: new Date(new Date(to).getTime() + DAY_MS) } : { $lte: new Date(to) };
+
+// GET /api/audit?action=&resource=&resourceId=&actorId=&from=&to=&page=&limit=&sort=&q=
+// Newest first: the department's entries and those not tied to one (accounts, departments).
+// from/to are dates or timestamps, both inclusive.
+export const getAuditEntries = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, AUDIT_LIST);
+  const { action, resource, resourceId, actorId, from, to } = req.query;
+
+  const filter: Record<string, unknown> = { department: { $in: [req.department!.id, null] } };
+  if (typeof action === "string") filter.action = action;
+  if (typeof resource === "string") filter.resource = resource;
+  if (typeof resourceId === "string") filter.resourceId = resourceId;
+  if (typeof actorId === "string") filter["actor.id"] = actorId;
+  if (from || to) {
+    filter.createdAt = {
+      ...(typeof from === "string" && { $gte: new Date(from) }),
+      ...(typeof to === "string" && untilCondition(to))
+    };
+  }
+  sendList(res, await findList(AuditEntry, filter, list, AUDIT_LIST));
+};
@@ -0,0 +1,22 @@
+import { Request, Response } from "express";
+import User from "../models/User";
+import { signToken } from "../utils/authTokens";
+import { verifyPassword } from "../utils/passwords";
+import { UnauthorizedError } from "../utils/httpErrors";
+import { toAuthenticatedUser } from "../middleware/auth";
+
+// POST /api/auth/login - { email, password } to { token, user }
+export const login = async (req: Request, res: Response) => {
+  const { email, password } = req.body;
+  const user = await User.findOne({ email: String(email).toLowerCase().trim() }).select("+passwordHash");
+  // The same answer for an unknown email and a wrong password
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new UnauthorizedError("Incorrect email or password");
+  }
+  res.json({ token: signToken(String(user._id)), user: toAuthenticatedUser(user) });
+};
+
+// GET /api/auth/me - the logged-in account, to restore a session
+export const getCurrentUser = async (req: Request, res: Response) => {
+  res.json(req.user);
+};
@@ -0,0 +1,34 @@
+import { Request, Response } from "express";
+import { workingDaysOf } from "@timetable/shared";
+import BellSchedule from "../models/BellSchedule";
+import AcademicYear from "../models/AcademicYear";
+import { NotFoundError } from "../utils/httpErrors";
+import { recordAudit } from "../utils/audit";
+import { departmentFilter } from "../utils/departments";
+import { checkBellSchedule, checkDroppedDays, loadBellSchedule, sortWorkingDays } from "../utils/bellSchedules";
+
+// GET /api/bell-schedules - the department's bell schedule, as a list of one. Anyone
+// logged in may read it; a department without one gets the default grid.
+export const getBellSchedules = async (req: Request, res: Response) => {
+  res.json([await loadBellSchedule(req.department!.id)]);
+};
+
+// PUT /api/bell-schedules/:id replaces the periods and working days. Saved slots keep
+// their times and days.
+export const updateBellSchedule = async (req: Request, res: Response) => {
+  const before = await BellSchedule.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (!before) throw new NotFoundError("Bell schedule");
+  checkBellSchedule(req.body);
+
+  const changes = { ...req.body, dayVariations: req.body.dayVariations ?? [] };
+  if (req.body.workingDays) {
+    changes.workingDays = sortWorkingDays(req.body.workingDays);
+    // Only years without working days of their own follow the department's
+    const following = await AcademicYear.find({ department: before.department, workingDays: null }).select("code");
+    await checkDroppedDays(before.department, following.map(year => year.code), workingDaysOf(before), changes.workingDays);
+  }
+  const updated = await BellSchedule.findByIdAndUpdate(before._id, changes, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Bell schedule");
+  await recordAudit(req, { action: "update", resource: "bell-schedules", resourceId: updated._id, summary: "Updated the bell schedule", before, after: updated });
+  res.json(updated);
+};
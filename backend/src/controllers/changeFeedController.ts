@@ -0,0 +1,30 @@
+import { Request, Response } from "express";
+import { ChangeEvent, isVisibleTo, onChange } from "../utils/changeFeed";
+import { AUDIT_READERS } from "../middleware/auth";
+
+const HEARTBEAT_MS = 25000; // keeps proxies from closing an idle stream
+
+// GET /api/changes?department= - server-sent events for every insert, update and delete of
+// the department's subjects, faculty, classrooms, labs (its own and those shared with it)
+// and timetable slots, and its new audit entries
+export const streamChanges = (req: Request, res: Response) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+  res.write("retry: 3000\n\n"); // how long browsers wait before reconnecting
+
+  const seesAudit = AUDIT_READERS.includes(req.user!.role);
+  const unsubscribe = onChange((change: ChangeEvent) => {
+    if (!isVisibleTo(change, req.department!.id)) return;
+    if (change.collection === "audit" && !seesAudit) return;
+    res.write(`event: change\ndata: ${JSON.stringify(change)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
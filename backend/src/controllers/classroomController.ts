@@ -1,23 +1,76 @@
 import { Request, Response } from "express";
 import Classroom from "../models/Classroom";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { NotFoundError } from "../utils/httpErrors";
+import { recordAudit } from "../utils/audit";
+import { bookableFilter, checkSharedWith, departmentFilter } from "../utils/departments";
+import { checkAcademicYear } from "../utils/academicYears";
+import { getDependentsHandler, guardedDeleteHandler } from "../utils/masterDataDeletion";
+import { findDaySlots, parseAvailabilityRequest } from "../utils/availability";
+import { rangeContains, timesOverlap } from "@timetable/shared";
+import { parseShiftWindow } from "../utils/timeRange";
 
-export const getClassrooms = async (_req: Request, res: Response) => {
-  const data = await Classroom.find();
-  res.json(data);
+const CLASSROOM_LIST: ListOptions = {
+  searchFields: ["name", "assignedYear", "assignedDivision", "timeSlot", "amenities"],
+  sortFields: ["name", "capacity", "floor", "assignedYear", "assignedDivision", "timeSlot"]
+};
+
+// GET /api/classrooms?page=&limit=&sort=&q= - the department's own and shared classrooms, total count in X-Total-Count
+export const getClassrooms = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, CLASSROOM_LIST);
+  sendList(res, await findList(Classroom, bookableFilter(req), list, CLASSROOM_LIST));
+};
+
+// The assigned year (and division) must be the department's. An update may change either
+// one, so the other is taken from the saved classroom.
+const checkAssignedYear = async (req: Request, saved?: { assignedYear?: string | null; assignedDivision?: string | null }) => {
+  const { assignedYear, assignedDivision } = req.body;
+  if (saved && assignedYear === undefined && assignedDivision === undefined) return;
+  await checkAcademicYear(
+    req.department!.id,
+    assignedYear ?? saved?.assignedYear,
+    "assignedDivision" in req.body ? assignedDivision : saved?.assignedDivision,
+    { yearField: "assignedYear", divisionField: "assignedDivision" }
+  );
 };
 
 export const createClassroom = async (req: Request, res: Response) => {
-  const newClassroom = new Classroom(req.body);
+  await checkSharedWith(req);
+  await checkAssignedYear(req);
+  const newClassroom = new Classroom({ ...req.body, ...departmentFilter(req) });
   await newClassroom.save();
+  await recordAudit(req, { action: "create", resource: "classrooms", resourceId: newClassroom._id, summary: `Added classroom ${newClassroom.name}`, after: newClassroom });
   res.json(newClassroom);
 };
 
 export const updateClassroom = async (req: Request, res: Response) => {
-  const updated = await Classroom.findByIdAndUpdate(req.params.id, req.body, { new: true });
+  // Only the owning department edits it; the ones it's shared with just book it
+  const before = await Classroom.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (before) {
+    await checkSharedWith(req);
+    await checkAssignedYear(req, before);
+  }
+  const updated = before && await Classroom.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Classroom");
+  await recordAudit(req, { action: "update", resource: "classrooms", resourceId: updated._id, summary: `Updated classroom ${updated.name}`, before, after: updated });
   res.json(updated);
 };
 
-export const deleteClassroom = async (req: Request, res: Response) => {
-  await Classroom.findByIdAndDelete(req.params.id);
-  res.json({ success: true });
+// Refuses while slots or versions depend on the classroom, unless ?mode=cascade or ?mode=reassign&to=<id>
+export const deleteClassroom = guardedDeleteHandler("classroom");
+
+export const getClassroomDependents = getDependentsHandler("classroom");
+
+// POST /api/classrooms/available - classrooms open (per their timeSlot window) and unbooked for a day and time range
+export const getAvailableClassrooms = async (req: Request, res: Response) => {
+  const request = parseAvailabilityRequest(req.body);
+  const [classrooms, daySlots] = await Promise.all([Classroom.find(bookableFilter(req)), findDaySlots(request)]);
+
+  const available = classrooms.filter(room => {
+    const window = parseShiftWindow(room.timeSlot ?? "");
+    if (window && !rangeContains(window, request.range)) return false;
+    return !daySlots.some(slot => slot.roomId?.equals(room._id) && timesOverlap(slot.time, request.time));
+  });
+
+  res.json(available);
 };
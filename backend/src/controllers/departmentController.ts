@@ -0,0 +1,71 @@
+import { Request, Response } from "express";
+import Department from "../models/Department";
+import Faculty from "../models/Faculty";
+import Subject from "../models/Subject";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import Timetable from "../models/Timetable";
+import AcademicYear from "../models/AcademicYear";
+import BellSchedule from "../models/BellSchedule";
+import { ConflictError, NotFoundError } from "../utils/httpErrors";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { recordAudit } from "../utils/audit";
+import { ensureAcademicYears } from "../seed/academicYears";
+
+const DEPARTMENT_LIST: ListOptions = {
+  searchFields: ["name", "code"],
+  sortFields: ["name", "code"],
+  defaultSort: { name: 1 }
+};
+
+// GET /api/departments - every department, for the switcher; anyone logged in may read them
+export const getDepartments = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, DEPARTMENT_LIST);
+  sendList(res, await findList(Department, {}, list, DEPARTMENT_LIST));
+};
+
+export const createDepartment = async (req: Request, res: Response) => {
+  const department = new Department(req.body);
+  await department.save();
+  await ensureAcademicYears(department._id);
+  await recordAudit(req, { action: "create", resource: "departments", resourceId: department._id, summary: `Added department ${department.name}`, after: department });
+  res.status(201).json(department);
+};
+
+export const updateDepartment = async (req: Request, res: Response) => {
+  const before = await Department.findById(req.params.id);
+  const updated = before && await Department.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Department");
+  await recordAudit(req, { action: "update", resource: "departments", resourceId: updated._id, summary: `Updated department ${updated.name}`, before, after: updated });
+  res.json(updated);
+};
+
+// Refused while anything still belongs to the department
+export const deleteDepartment = async (req: Request, res: Response) => {
+  const department = await Department.findById(req.params.id);
+  if (!department) throw new NotFoundError("Department");
+
+  const owned = { department: department._id };
+  const [faculty, subjects, classrooms, labs, timetables] = await Promise.all([
+    Faculty.countDocuments(owned),
+    Subject.countDocuments(owned),
+    Classroom.countDocuments(owned),
+    Lab.countDocuments(owned),
+    Timetable.countDocuments(owned)
+  ]);
+  const records = { faculty, subjects, classrooms, labs, timetables };
+  if (Object.values(records).some(count => count > 0)) {
+    throw new ConflictError(`Department '${department.name}' still has records. Move or delete them first.`, { records });
+  }
+
+  await Department.findByIdAndDelete(department._id);
+  await AcademicYear.deleteMany(owned);
+  await BellSchedule.deleteMany(owned);
+  // Nobody can book its rooms any more, so it's dropped from what others share
+  await Promise.all([
+    Classroom.updateMany({ sharedWith: department._id }, { $pull: { sharedWith: department._id } }),
+    Lab.updateMany({ sharedWith: department._id }, { $pull: { sharedWith: department._id } })
+  ]);
+  await recordAudit(req, { action: "delete", resource: "departments", resourceId: department._id, summary: `Deleted department ${department.name}`, before: department });
+  res.json({ message: "Department deleted" });
+};
@@ -1,23 +1,56 @@
 import { Request, Response } from "express";
 import Faculty from "../models/Faculty";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { NotFoundError } from "../utils/httpErrors";
+import { recordAudit } from "../utils/audit";
+import { departmentFilter } from "../utils/departments";
+import { getDependentsHandler, guardedDeleteHandler } from "../utils/masterDataDeletion";
+import { findDaySlots, parseAvailabilityRequest } from "../utils/availability";
+import { timesOverlap } from "@timetable/shared";
 
-export const getFaculty = async (_req: Request, res: Response) => {
-  const data = await Faculty.find();
-  res.json(data);
+const FACULTY_LIST: ListOptions = {
+  searchFields: ["name", "email", "phone", "subjects"],
+  sortFields: ["name", "email", "maxHoursPerDay"]
+};
+
+// GET /api/faculty?page=&limit=&sort=&q= - total count in X-Total-Count
+export const getFaculty = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, FACULTY_LIST);
+  sendList(res, await findList(Faculty, departmentFilter(req), list, FACULTY_LIST));
 };
 
 export const createFaculty = async (req: Request, res: Response) => {
-  const newFaculty = new Faculty(req.body);
+  const newFaculty = new Faculty({ ...req.body, ...departmentFilter(req) });
   await newFaculty.save();
+  await recordAudit(req, { action: "create", resource: "faculty", resourceId: newFaculty._id, summary: `Added faculty member ${newFaculty.name}`, after: newFaculty });
   res.json(newFaculty);
 };
 
 export const updateFaculty = async (req: Request, res: Response) => {
-  const updated = await Faculty.findByIdAndUpdate(req.params.id, req.body, { new: true });
+  const before = await Faculty.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  const updated = before && await Faculty.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Faculty member");
+  await recordAudit(req, { action: "update", resource: "faculty", resourceId: updated._id, summary: `Updated faculty member ${updated.name}`, before, after: updated });
   res.json(updated);
 };
 
-export const deleteFaculty = async (req: Request, res: Response) => {
-  await Faculty.findByIdAndDelete(req.params.id);
-  res.json({ success: true });
+// Refuses while subjects, slots or versions depend on the faculty, unless ?mode=cascade or ?mode=reassign&to=<id>
+export const deleteFaculty = guardedDeleteHandler("faculty");
+
+export const getFacultyDependents = getDependentsHandler("faculty");
+
+// POST /api/faculty/available - faculty free for a day and time range and within their daily hour limit
+export const getAvailableFaculty = async (req: Request, res: Response) => {
+  const request = parseAvailabilityRequest(req.body);
+  // Bookings in every department count: a member can't teach in two at once
+  const [faculty, daySlots] = await Promise.all([Faculty.find(departmentFilter(req)), findDaySlots(request)]);
+
+  const available = faculty.filter(member => {
+    const ownSlots = daySlots.filter(slot => slot.facultyId.equals(member._id));
+    if (ownSlots.some(slot => timesOverlap(slot.time, request.time))) return false;
+    const bookedHours = ownSlots.reduce((sum, slot) => sum + slot.duration, 0);
+    return bookedHours + request.duration <= member.maxHoursPerDay;
+  });
+
+  res.json(available);
 };
@@ -0,0 +1,100 @@
+import { Request, Response } from "express";
+import {
+  cancelGenerationJob,
+  findActiveGenerationJob,
+  getGenerationJob,
+  getGenerationResult,
+  listGenerationJobs,
+  startGenerationJob
+} from "../generation/jobs";
+import ConsistencyTest from "../generation/consistencyTest";
+import ConstraintTest from "../generation/constraintTest";
+import { recordAudit } from "../utils/audit";
+import { checkAcademicYear } from "../utils/academicYears";
+
+const describeClass = (year: string, division?: string) => division ? `${year}-${division}` : year;
+
+// POST /api/timetables/generate - starts generating a year/division/semester on the server.
+// Body: { year, division, semester, constraints }. Responds 202 with the job to poll; the
+// result is saved as a version when the run completes.
+export const startGeneration = async (req: Request, res: Response) => {
+  const { year, semester, constraints } = req.body;
+  const division: string | undefined = req.body.division || undefined;
+  const department = req.department!.id;
+  await checkAcademicYear(department, year, division, { divisionRequired: true });
+
+  // One run per class and semester at a time; the client can follow the running one instead
+  const running = findActiveGenerationJob(department, year, division, semester);
+  if (running) {
+    return res.status(409).json({ error: `${describeClass(year, division)} semester ${semester} is already being generated`, job: running });
+  }
+  const job = startGenerationJob(department, year, division, semester, constraints, version => recordAudit(req, {
+    action: "generate",
+    resource: "timetables",
+    resourceId: version._id,
+    summary: `Saved ${version.name}${version.isActive ? " and made it live" : ", not live as it clashes with other timetables"}`,
+    details: { year, division, semester, version: version.version, slotCount: version.slots.length, activated: version.isActive, job: job.id }
+  }));
+  await recordAudit(req, {
+    action: "generate",
+    resource: "generation-jobs",
+    resourceId: job.id,
+    summary: `Started generating ${describeClass(year, division)} semester ${semester}`,
+    details: { year, division, semester, constraints }
+  });
+  res.status(202).json(job);
+};
+
+// GET /api/timetables/generate?year=&division=&semester= - recent jobs, newest first
+export const getGenerationJobs = async (req: Request, res: Response) => {
+  const year = typeof req.query.year === "string" ? req.query.year : undefined;
+  const division = typeof req.query.division === "string" ? req.query.division : undefined;
+  const semester = typeof req.query.semester === "string" ? Number(req.query.semester) : undefined;
+  res.json(listGenerationJobs(req.department!.id, { year, division, semester }));
+};
+
+// GET /api/timetables/generate/:jobId - status and step-by-step progress
+export const getGenerationJobById = async (req: Request, res: Response) => {
+  const job = getGenerationJob(req.params.jobId, req.department!.id);
+  if (!job) return res.status(404).json({ error: "Generation job not found" });
+  res.json(job);
+};
+
+// GET /api/timetables/generate/:jobId/result - the generated timetable, once completed
+export const getGenerationJobResult = async (req: Request, res: Response) => {
+  const job = getGenerationJob(req.params.jobId, req.department!.id);
+  if (!job) return res.status(404).json({ error: "Generation job not found" });
+  if (job.status !== "completed") {
+    return res.status(409).json({ error: `Generation job is ${job.status}`, job });
+  }
+  res.json(getGenerationResult(job.id));
+};
+
+// POST /api/timetables/generate/:jobId/cancel - stops the run at its next step
+export const cancelGeneration = async (req: Request, res: Response) => {
+  const job = getGenerationJob(req.params.jobId, req.department!.id);
+  if (!job) return res.status(404).json({ error: "Generation job not found" });
+  if (!cancelGenerationJob(job.id)) {
+    return res.status(409).json({ error: `Generation job is already ${job.status}`, job });
+  }
+  await recordAudit(req, {
+    action: "update",
+    resource: "generation-jobs",
+    resourceId: job.id,
+    summary: `Cancelled generating ${describeClass(job.year, job.division)} semester ${job.semester}`,
+    details: { status: "cancelled" }
+  });
+  res.json(job);
+};
+
+// POST /api/timetables/generate/checks/:check - runs the generator self-checks on built-in data
+export const runGenerationCheck = async (req: Request, res: Response) => {
+  switch (req.params.check) {
+    case "consistency":
+      return res.json(await ConsistencyTest.testConsistency());
+    case "constraints":
+      return res.json(await ConstraintTest.testConstraintEnforcement());
+    default:
+      return res.status(404).json({ error: `Unknown check '${req.params.check}'` });
+  }
+};
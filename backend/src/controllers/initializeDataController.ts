@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import Faculty from "../models/Faculty";
+import Subject from "../models/Subject";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import AcademicYear from "../models/AcademicYear";
+import { sampleFaculty, sampleSubjects, sampleClassrooms, sampleLabs } from "../seed/sampleDepartment";
+import { defaultAcademicYears } from "../seed/academicYears";
+import { recordAudit } from "../utils/audit";
+import { departmentFilter } from "../utils/departments";
+import { ConflictError } from "../utils/httpErrors";
+import { withTransaction } from "../utils/slotScope";
+import { removeFacultyAccounts } from "../utils/masterDataDeletion";
+
+const upsertOptions = { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true };
+
+// POST /api/initialize-data?mode=merge|reset - loads the sample into the request's department.
+// merge (default) upserts the sample records by their natural keys and leaves other data alone.
+// reset wipes the department's master data and timetables first, so the result is exactly the
+// sample department; it wipes all or nothing, and removes or unlinks the accounts of the faculty
+// it deletes. Both modes are idempotent. A reset is refused (409) while other departments have
+// slots in its shared rooms or labs, listing those slots.
+export const initializeData = async (req: Request, res: Response) => {
+  const mode = req.query.mode ?? "merge";
+  const owned = departmentFilter(req);
+
+  // Faculty emails are unique across departments, so the sample can only live in one
+  const elsewhere = await Faculty.exists({ email: { $in: sampleFaculty.map(member => member.email) }, department: { $ne: owned.department } });
+  if (elsewhere) throw new ConflictError("The sample department is already loaded in another department");
+
+  if (mode === "reset") {
+    const [rooms, labs] = await Promise.all([Classroom.distinct("_id", owned), Lab.distinct("_id", owned)]);
+    const borrowed = await TimetableSlot.find({
+      department: { $ne: owned.department },
+      $or: [{ roomId: { $in: rooms } }, { labId: { $in: labs } }]
+    })
+      .select("department year division semester day time roomId labId")
+      .populate("department", "name")
+      .populate("roomId", "name")
+      .populate("labId", "name")
+      .lean();
+    if (borrowed.length > 0) {
+      throw new ConflictError(
+        `${borrowed.length} slot(s) of other departments use rooms or labs of ${req.department!.name}, so it can't be reset. Move those slots first, or load the sample with mode=merge.`,
+        { slots: borrowed }
+      );
+    }
+
+    await withTransaction(async session => {
+      const facultyIds = (await Faculty.find(owned).select("_id").session(session ?? null)).map(member => member._id);
+      await removeFacultyAccounts(facultyIds, session);
+      await TimetableSlot.deleteMany(owned, { session });
+      await Timetable.deleteMany(owned, { session });
+      await Subject.deleteMany(owned, { session });
+      await Faculty.deleteMany(owned, { session });
+      await Classroom.deleteMany(owned, { session });
+      await Lab.deleteMany(owned, { session });
+      await AcademicYear.deleteMany(owned, { session });
+    });
+  }
+
+  // The sample is taught in the default years; ones already configured keep their divisions
+  for (const year of defaultAcademicYears) {
+    await AcademicYear.updateOne({ ...owned, code: year.code }, { $setOnInsert: year }, { upsert: true });
+  }
+
+  const facultyIds = new Map<string, unknown>();
+  for (const member of sampleFaculty) {
+    const subjects = sampleSubjects.filter(s => s.facultyEmail === member.email).map(s => s.code);
+    const saved = await Faculty.findOneAndUpdate({ ...owned, email: member.email }, { ...member, subjects }, upsertOptions);
+    if (saved) facultyIds.set(member.email, saved._id);
+  }
+
+  for (const { facultyEmail, ...subject } of sampleSubjects) {
+    await Subject.findOneAndUpdate({ ...owned, code: subject.code }, { ...subject, faculty: facultyIds.get(facultyEmail) }, upsertOptions);
+  }
+
+  for (const classroom of sampleClassrooms) {
+    await Classroom.findOneAndUpdate({ ...owned, name: classroom.name }, classroom, upsertOptions);
+  }
+
+  for (const lab of sampleLabs) {
+    await Lab.findOneAndUpdate({ ...owned, name: lab.name }, lab, upsertOptions);
+  }
+
+  const counts = {
+    faculty: sampleFaculty.length,
+    subjects: sampleSubjects.length,
+    classrooms: sampleClassrooms.length,
+    labs: sampleLabs.length
+  };
+  const message = `Sample department ${mode === "reset" ? "reset" : "loaded"} in ${req.department!.name}: ${counts.subjects} subjects, ${counts.faculty} faculty, ${counts.classrooms} classrooms, ${counts.labs} labs`;
+  await recordAudit(req, { action: "import", resource: "initialize-data", summary: message, details: { mode, counts } });
+  res.json({ message, mode, counts });
+};
@@ -1,23 +1,62 @@
 import { Request, Response } from "express";
 import Lab from "../models/Lab";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { NotFoundError } from "../utils/httpErrors";
+import { recordAudit } from "../utils/audit";
+import { bookableFilter, checkSharedWith, departmentFilter } from "../utils/departments";
+import { getDependentsHandler, guardedDeleteHandler } from "../utils/masterDataDeletion";
+import { findDaySlots, parseAvailabilityRequest } from "../utils/availability";
+import { TimeRange, parseTimeRange, rangesCover, timesOverlap } from "@timetable/shared";
 
-export const getLabs = async (_req: Request, res: Response) => {
-  const data = await Lab.find();
-  res.json(data);
+const LAB_LIST: ListOptions = {
+  searchFields: ["name", "type", "equipment", "compatibleSubjects"],
+  sortFields: ["name", "type", "capacity", "floor"]
+};
+
+// GET /api/labs?page=&limit=&sort=&q= - the department's own and shared labs, total count in X-Total-Count
+export const getLabs = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, LAB_LIST);
+  sendList(res, await findList(Lab, bookableFilter(req), list, LAB_LIST));
 };
 
 export const createLab = async (req: Request, res: Response) => {
-  const newLab = new Lab(req.body);
+  await checkSharedWith(req);
+  const newLab = new Lab({ ...req.body, ...departmentFilter(req) });
   await newLab.save();
+  await recordAudit(req, { action: "create", resource: "labs", resourceId: newLab._id, summary: `Added lab ${newLab.name}`, after: newLab });
   res.json(newLab);
 };
 
 export const updateLab = async (req: Request, res: Response) => {
-  const updated = await Lab.findByIdAndUpdate(req.params.id, req.body, { new: true });
+  // Only the owning department edits it; the ones it's shared with just book it
+  const before = await Lab.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (before) await checkSharedWith(req);
+  const updated = before && await Lab.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Lab");
+  await recordAudit(req, { action: "update", resource: "labs", resourceId: updated._id, summary: `Updated lab ${updated.name}`, before, after: updated });
   res.json(updated);
 };
 
-export const deleteLab = async (req: Request, res: Response) => {
-  await Lab.findByIdAndDelete(req.params.id);
-  res.json({ success: true });
+// Refuses while slots or versions depend on the lab, unless ?mode=cascade or ?mode=reassign&to=<id>
+export const deleteLab = guardedDeleteHandler("lab");
+
+export const getLabDependents = getDependentsHandler("lab");
+
+// POST /api/labs/available - labs whose availableHours cover the range and that are unbooked.
+// A lab with no availableHours listed is treated as open all day.
+export const getAvailableLabs = async (req: Request, res: Response) => {
+  const request = parseAvailabilityRequest(req.body);
+  const [labs, daySlots] = await Promise.all([Lab.find(bookableFilter(req)), findDaySlots(request)]);
+
+  const available = labs.filter(lab => {
+    if (lab.availableHours.length > 0) {
+      const hours = lab.availableHours
+        .map(parseTimeRange)
+        .filter((range): range is TimeRange => range !== null);
+      if (!rangesCover(hours, request.range)) return false;
+    }
+    return !daySlots.some(slot => slot.labId?.equals(lab._id) && timesOverlap(slot.time, request.time));
+  });
+
+  res.json(available);
 };
@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Subject from "../models/Subject";
+import TimetableSlot from "../models/TimetableSlot";
+import AcademicYear from "../models/AcademicYear";
+import { BadRequestError } from "../utils/httpErrors";
+import { ListOptions, pageList, parseListQuery, sendList } from "../utils/listQuery";
+import { batchesOf } from "../utils/academicYears";
+import { loadBellSchedule } from "../utils/bellSchedules";
+import { dayWeight, workingDaysOf } from "@timetable/shared";
+
+class ScheduledHoursQueryError extends BadRequestError {}
+
+type AllocationStatus = "under" | "complete" | "over";
+
+interface ScheduledHourEntry {
+  _id: string;
+  subjectId: string;
+  subjectCode: string;
+  subjectName: string;
+  facultyId: string | null;
+  facultyName: string | null;
+  year: string;
+  division?: string;
+  semester: number;
+  batch?: string; // unset for a class without batches
+  theoryHoursRequired: number;
+  theoryHoursScheduled: number;
+  labHoursRequired: number;
+  labHoursScheduled: number;
+  requiredHours: number;
+  scheduledHours: number;
+  remainingHours: number; // negative when over-allocated
+  status: AllocationStatus;
+}
+
+const queryValue = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+
+const parseObjectId = (value: unknown, name: string): string | undefined => {
+  const id = queryValue(value);
+  if (id && !mongoose.isValidObjectId(id)) throw new ScheduledHoursQueryError(`Invalid ${name} '${id}'`);
+  return id;
+};
+
+// Compares the hours booked in saved slots with each subject's theoryHours/labHours.
+// Every division of the year takes the subject, so each gets its own entries, one per
+// batch the division is configured with (or one for the whole class when it has none).
+// Theory slots are taken by the whole class, so they count towards every batch;
+// lab slots only count towards the batch they were scheduled for.
+const computeScheduledHours = async (
+  department: string,
+  subjectFilter: Record<string, unknown>,
+  batch?: string,
+  division?: string
+): Promise<ScheduledHourEntry[]> => {
+  const [subjects, years, schedule] = await Promise.all([
+    Subject.find({ ...subjectFilter, department }).populate<{ faculty: { _id: mongoose.Types.ObjectId; name: string } | null }>("faculty", "name"),
+    AcademicYear.find({ department }).select("code divisions batches workingDays"),
+    loadBellSchedule(department)
+  ]);
+  if (subjects.length === 0) return [];
+
+  const slots = await TimetableSlot.find({ subjectId: { $in: subjects.map(subject => subject._id) } });
+  // Hours a slot gives in an average week: half on days held on alternate weeks
+  const weeklyHoursOf = (slot: InstanceType<typeof TimetableSlot>) =>
+    slot.duration * dayWeight(workingDaysOf(schedule, years.find(config => config.code === slot.year)), slot.day);
+
+  const divisionsOf = (year: string): (string | undefined)[] => {
+    const divisions = years.find(config => config.code === year)?.divisions ?? [];
+    if (divisions.length === 0) return [undefined];
+    return division ? divisions.filter(name => name === division) : divisions;
+  };
+
+  const batchesFor = (year: string, yearDivision?: string): (string | undefined)[] => {
+    const config = years.find(candidate => candidate.code === year);
+    const names = config ? batchesOf(config, yearDivision).map(candidate => candidate.name) : [];
+    if (batch) return names.filter(name => name === batch);
+    return names.length > 0 ? names : [undefined];
+  };
+
+  return subjects.flatMap(subject => divisionsOf(subject.year).flatMap(subjectDivision => {
+    const subjectSlots = slots.filter(slot =>
+      slot.subjectId.equals(subject._id) && (!subjectDivision || slot.division === subjectDivision)
+    );
+    const theoryHoursScheduled = subjectSlots
+      .filter(slot => slot.type === "theory")
+      .reduce((sum, slot) => sum + weeklyHoursOf(slot), 0);
+
+    return batchesFor(subject.year, subjectDivision).map(subjectBatch => {
+      const labHoursScheduled = subjectSlots
+        .filter(slot => slot.type === "lab" && slot.batch === subjectBatch)
+        .reduce((sum, slot) => sum + weeklyHoursOf(slot), 0);
+      const requiredHours = subject.theoryHours + subject.labHours;
+      const scheduledHours = theoryHoursScheduled + labHoursScheduled;
+      const remainingHours = requiredHours - scheduledHours;
+
+      return {
+        _id: [subject._id, subjectDivision, subjectBatch].filter(Boolean).join("-"),
+        subjectId: String(subject._id),
+        subjectCode: subject.code,
+        subjectName: subject.name,
+        facultyId: subject.faculty ? String(subject.faculty._id) : null,
+        facultyName: subject.faculty ? subject.faculty.name : null,
+        year: subject.year,
+        division: subjectDivision,
+        semester: subject.semester,
+        batch: subjectBatch,
+        theoryHoursRequired: subject.theoryHours,
+        theoryHoursScheduled,
+        labHoursRequired: subject.labHours,
+        labHoursScheduled,
+        requiredHours,
+        scheduledHours,
+        remainingHours,
+        status: remainingHours > 0 ? "under" : remainingHours < 0 ? "over" : "complete"
+      } satisfies ScheduledHourEntry;
+    });
+  }));
+};
+
+const SCHEDULED_HOURS_LIST: ListOptions = {
+  searchFields: ["subjectCode", "subjectName", "facultyName", "division", "batch"],
+  sortFields: ["subjectCode", "subjectName", "facultyName", "year", "division", "semester", "batch", "requiredHours", "scheduledHours", "remainingHours", "status"]
+};
+
+// GET /api/scheduled-hours?subjectId=&facultyId=&batch=&year=&division=&semester=&status=&page=&limit=&sort=&q=
+export const getScheduledHours = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, SCHEDULED_HOURS_LIST);
+  const subjectFilter: Record<string, unknown> = {};
+  const subjectId = parseObjectId(req.query.subjectId, "subjectId");
+  const facultyId = parseObjectId(req.query.facultyId, "facultyId");
+  const batch = queryValue(req.query.batch);
+  const year = queryValue(req.query.year);
+  const division = queryValue(req.query.division);
+  const semester = queryValue(req.query.semester);
+  const status = queryValue(req.query.status);
+
+  if (subjectId) subjectFilter._id = subjectId;
+  if (facultyId) subjectFilter.faculty = facultyId;
+  if (year) subjectFilter.year = year;
+  if (semester) {
+    if (!Number.isInteger(Number(semester))) throw new ScheduledHoursQueryError(`Invalid semester '${semester}'`);
+    subjectFilter.semester = Number(semester);
+  }
+  if (status && !["under", "complete", "over"].includes(status)) {
+    throw new ScheduledHoursQueryError("'status' must be one of under, complete, over");
+  }
+
+  const entries = await computeScheduledHours(req.department!.id, subjectFilter, batch, division);
+  sendList(res, pageList(status ? entries.filter(entry => entry.status === status) : entries, list, SCHEDULED_HOURS_LIST));
+};
+
+// GET /api/scheduled-hours/remaining?subjectId=&batch=&division= (without a division, the year's first one).
+// The batch must be one of the division's.
+export const getRemainingHours = async (req: Request, res: Response) => {
+  const subjectId = parseObjectId(req.query.subjectId, "subjectId");
+  const batch = queryValue(req.query.batch);
+  if (!subjectId || !batch) {
+    return res.status(400).json({ error: "'subjectId' and 'batch' are required" });
+  }
+
+  const [entry] = await computeScheduledHours(req.department!.id, { _id: subjectId }, batch, queryValue(req.query.division));
+  if (!entry) {
+    return res.status(404).json({ error: "Subject or batch not found" });
+  }
+  res.json(entry);
+};
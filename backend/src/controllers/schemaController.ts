@@ -0,0 +1,29 @@
+import { Request, Response } from "express";
+import { ACADEMIC_YEAR_SCHEMA, BELL_SCHEDULE_SCHEMA, CLASSROOM_SCHEMA, DEPARTMENT_SCHEMA, FACULTY_SCHEMA, LAB_SCHEMA, RecordSchema, SUBJECT_SCHEMA, TIMETABLE_SLOT_SCHEMA, USER_SCHEMA } from "@timetable/shared";
+import { NotFoundError } from "../utils/httpErrors";
+
+// The body rules of each writable resource, keyed by its path under /api. These are
+// the same schemas the routes validate against, so forms can't drift from the API.
+const RESOURCE_SCHEMAS: Record<string, RecordSchema> = {
+  faculty: FACULTY_SCHEMA,
+  subjects: SUBJECT_SCHEMA,
+  classrooms: CLASSROOM_SCHEMA,
+  labs: LAB_SCHEMA,
+  "timetable-slots": TIMETABLE_SLOT_SCHEMA,
+  users: USER_SCHEMA,
+  departments: DEPARTMENT_SCHEMA,
+  "academic-years": ACADEMIC_YEAR_SCHEMA,
+  "bell-schedules": BELL_SCHEDULE_SCHEMA
+};
+
+// GET /api/schema
+export const getSchemas = async (_req: Request, res: Response) => {
+  res.json(RESOURCE_SCHEMAS);
+};
+
+// GET /api/schema/:resource, e.g. /api/schema/faculty
+export const getSchema = async (req: Request, res: Response) => {
+  const { resource } = req.params;
+  if (!Object.prototype.hasOwnProperty.call(RESOURCE_SCHEMAS, resource)) throw new NotFoundError(`Schema for '${resource}'`);
+  res.json(RESOURCE_SCHEMAS[resource]);
+};
@@ -1,23 +1,59 @@
 import { Request, Response } from "express";
 import Subject from "../models/Subject";
+import Faculty from "../models/Faculty";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { BadRequestError, NotFoundError } from "../utils/httpErrors";
+import { recordAudit } from "../utils/audit";
+import { departmentFilter } from "../utils/departments";
+import { checkAcademicYear } from "../utils/academicYears";
+import { getDependentsHandler, guardedDeleteHandler } from "../utils/masterDataDeletion";
 
-export const getSubjects = async (_req: Request, res: Response) => {
-  const data = await Subject.find().populate('faculty', 'name email department');
-  res.json(data);
+const SUBJECT_LIST: ListOptions = {
+  searchFields: ["name", "code", "year", "type"],
+  sortFields: ["name", "code", "year", "semester", "type", "theoryHours", "labHours"]
+};
+
+// GET /api/subjects?page=&limit=&sort=&q= - total count in X-Total-Count
+export const getSubjects = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, SUBJECT_LIST);
+  sendList(res, await findList(Subject, departmentFilter(req), list, SUBJECT_LIST, { path: "faculty", select: "name email department" }));
+};
+
+// Subjects are taught by a faculty member of their own department
+const checkFaculty = async (req: Request) => {
+  if (req.body.faculty === undefined) return;
+  if (!await Faculty.exists({ _id: req.body.faculty, ...departmentFilter(req) })) {
+    throw new BadRequestError("faculty is not a member of this department", [{ field: "faculty", message: "is not a member of this department" }]);
+  }
+};
+
+// The year must be one the department has set up
+const checkYear = async (req: Request) => {
+  if (req.body.year !== undefined) await checkAcademicYear(req.department!.id, req.body.year, undefined);
 };
 
 export const createSubject = async (req: Request, res: Response) => {
-  const newSubject = new Subject(req.body);
+  await checkFaculty(req);
+  await checkYear(req);
+  const newSubject = new Subject({ ...req.body, ...departmentFilter(req) });
   await newSubject.save();
+  await recordAudit(req, { action: "create", resource: "subjects", resourceId: newSubject._id, summary: `Added subject ${newSubject.name}`, after: newSubject });
   res.json(newSubject);
 };
 
 export const updateSubject = async (req: Request, res: Response) => {
-  const updated = await Subject.findByIdAndUpdate(req.params.id, req.body, { new: true });
+  const before = await Subject.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (before) {
+    await checkFaculty(req);
+    await checkYear(req);
+  }
+  const updated = before && await Subject.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Subject");
+  await recordAudit(req, { action: "update", resource: "subjects", resourceId: updated._id, summary: `Updated subject ${updated.name}`, before, after: updated });
   res.json(updated);
 };
 
-export const deleteSubject = async (req: Request, res: Response) => {
-  await Subject.findByIdAndDelete(req.params.id);
-  res.json({ success: true });
-};
+// Refuses while slots or versions depend on the subject, unless ?mode=cascade or ?mode=reassign&to=<id>
+export const deleteSubject = guardedDeleteHandler("subject");
+
+export const getSubjectDependents = getDependentsHandler("subject");
@@ -1,23 +1,131 @@
 import { Request, Response } from "express";
+import mongoose from "mongoose";
 import Timetable from "../models/Timetable";
+import { resolveSlotReferences, slotReferencePopulate } from "../utils/slotReferences";
+import { NotFoundError } from "../utils/httpErrors";
+import { conflictErrorBody, findSlotConflicts } from "../utils/slotConflicts";
+import { ListOptions, parseListQuery, sendList } from "../utils/listQuery";
+import { recordAudit } from "../utils/audit";
+import { departmentFilter } from "../utils/departments";
+import { checkAcademicYear } from "../utils/academicYears";
+import { checkSlotFields } from "../utils/slotErrors";
+import { activateVersion, liveSlotsOf, saveVersion, scopeOf } from "../utils/timetableVersions";
 
-export const getTimetables = async (_req: Request, res: Response) => {
-  const data = await Timetable.find();
-  res.json(data);
+const TIMETABLE_LIST: ListOptions = {
+  searchFields: ["name", "year", "division"],
+  sortFields: ["name", "year", "division", "semester", "version", "isActive", "createdAt", "slotCount"],
+  defaultSort: { year: 1, division: 1, semester: 1, version: -1 }
 };
 
+// GET /api/timetables?year=&division=&semester=&page=&limit=&sort=&q= - versions, newest first, without their slots
+export const getTimetables = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, TIMETABLE_LIST);
+  const match: Record<string, unknown> = { department: new mongoose.Types.ObjectId(req.department!.id) }; // aggregate doesn't cast
+  if (typeof req.query.year === "string") match.year = req.query.year;
+  if (typeof req.query.division === "string") match.division = req.query.division;
+  if (typeof req.query.semester === "string") match.semester = Number(req.query.semester);
+  if (list.search) match.$or = TIMETABLE_LIST.searchFields.map(field => ({ [field]: list.search }));
+
+  const page: mongoose.PipelineStage.FacetPipelineStage[] = [{ $skip: list.limit === undefined ? 0 : (list.page - 1) * list.limit }];
+  if (list.limit !== undefined) page.push({ $limit: list.limit });
+  const [{ items, total }] = await Timetable.aggregate([
+    { $match: match },
+    { $addFields: { slotCount: { $size: "$slots" } } },
+    { $project: { slots: 0 } },
+    { $sort: { ...list.sort, _id: 1 } },
+    { $facet: { items: page, total: [{ $count: "count" }] } }
+  ]);
+  sendList(res, { items, total: total[0]?.count ?? 0 });
+};
+
+// GET /api/timetables/:id - one version including its slots
+export const getTimetableById = async (req: Request, res: Response) => {
+  const timetable = await Timetable.findOne({ _id: req.params.id, ...departmentFilter(req) }).populate(slotReferencePopulate("slots."));
+  if (!timetable) return res.status(404).json({ error: "Timetable not found" });
+  res.json(timetable);
+};
+
+// POST /api/timetables - saves a generation run as the next version of its year/division/semester.
+// Body: { year, division?, semester, slots, constraints?, name?, activate? }. The new version is
+// activated (copied into timetable-slots) unless activate is false; activation is refused
+// with 409 if the slots clash with other years' live timetables, unless ?force=true.
 export const createTimetable = async (req: Request, res: Response) => {
-  const newTimetable = new Timetable(req.body);
-  await newTimetable.save();
-  res.json(newTimetable);
+  const { year, division, semester, slots, constraints, name, activate = true } = req.body;
+
+  // Snapshots hold references, so names resolve against this version's year/semester
+  const { department } = departmentFilter(req);
+  await checkAcademicYear(department, year, division, { divisionRequired: true });
+  const scope = { department, year, division: division ?? null, semester };
+  const checkedSlots = checkSlotFields((slots as unknown[]).map(slot => ({ ...(slot as object), year, division, semester })));
+  const resolvedSlots = await resolveSlotReferences(checkedSlots, department);
+  if (activate && req.query.force !== "true") {
+    const conflicts = await findSlotConflicts(resolvedSlots, scope);
+    if (conflicts.length > 0) return res.status(409).json(conflictErrorBody(conflicts));
+  }
+
+  const newTimetable = await saveVersion({ department, year, division, semester, slots: resolvedSlots, constraints, name }, activate);
+  await recordAudit(req, {
+    action: "generate",
+    resource: "timetables",
+    resourceId: newTimetable._id,
+    summary: `Saved ${newTimetable.name}${activate ? " and made it live" : ""}`,
+    details: { year, division, semester, version: newTimetable.version, slotCount: resolvedSlots.length, activated: activate, forced: req.query.force === "true" }
+  });
+  res.status(201).json(await newTimetable.populate(slotReferencePopulate("slots.")));
+};
+
+// POST /api/timetables/:id/activate - rolls the live timetable back (or forward) to this version.
+// Refused with 409 if the version now clashes with other live timetables, unless ?force=true.
+export const activateTimetable = async (req: Request, res: Response) => {
+  const timetable = await Timetable.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (!timetable) return res.status(404).json({ error: "Timetable not found" });
+
+  if (req.query.force !== "true") {
+    const conflicts = await findSlotConflicts(liveSlotsOf(timetable), scopeOf(timetable));
+    if (conflicts.length > 0) return res.status(409).json(conflictErrorBody(conflicts));
+  }
+
+  await activateVersion(timetable);
+  await recordAudit(req, {
+    action: "activate",
+    resource: "timetables",
+    resourceId: timetable._id,
+    summary: `Made ${timetable.name} live`,
+    details: { year: timetable.year, division: timetable.division, semester: timetable.semester, version: timetable.version, forced: req.query.force === "true" }
+  });
+  res.json(await timetable.populate(slotReferencePopulate("slots.")));
 };
 
+// PUT /api/timetables/:id - versions are immutable apart from their name
 export const updateTimetable = async (req: Request, res: Response) => {
-  const updated = await Timetable.findByIdAndUpdate(req.params.id, req.body, { new: true });
+  const before = await Timetable.findOne({ _id: req.params.id, ...departmentFilter(req) }).select("name");
+  const updated = before && await Timetable.findByIdAndUpdate(req.params.id, { name: req.body.name }, { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("Timetable");
+  await recordAudit(req, {
+    action: "update",
+    resource: "timetables",
+    resourceId: updated._id,
+    summary: `Renamed ${before.name} to ${updated.name}`,
+    before: { name: before.name },
+    after: { name: updated.name }
+  });
   res.json(updated);
 };
 
 export const deleteTimetable = async (req: Request, res: Response) => {
+  const timetable = await Timetable.findOne({ _id: req.params.id, ...departmentFilter(req) });
+  if (!timetable) throw new NotFoundError("Timetable");
+  if (timetable.isActive) {
+    return res.status(409).json({ error: "Activate another version before deleting the active one" });
+  }
   await Timetable.findByIdAndDelete(req.params.id);
+  // The slots are left out: the version's metadata is enough to tell what went
+  await recordAudit(req, {
+    action: "delete",
+    resource: "timetables",
+    resourceId: timetable._id,
+    summary: `Deleted ${timetable.name}`,
+    details: { year: timetable.year, division: timetable.division, semester: timetable.semester, version: timetable.version, slotCount: timetable.slots.length }
+  });
   res.json({ success: true });
 };
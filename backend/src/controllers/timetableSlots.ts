@@ -1,92 +1,214 @@
 import { Request, Response } from "express";
+import mongoose from "mongoose";
 import TimetableSlot from "../models/TimetableSlot";
+import Faculty from "../models/Faculty";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import { compareSlots } from "../utils/slotOrder";
+import { insertSlots, replaceScopeSlots } from "../utils/slotScope";
+import { checkSlotFields } from "../utils/slotErrors";
+import { BadRequestError } from "../utils/httpErrors";
+import { resolveSlotReferences, slotReferencePopulate } from "../utils/slotReferences";
+import { conflictErrorBody, findSlotConflicts } from "../utils/slotConflicts";
+import { ListOptions, pageList, parseListQuery, sendList } from "../utils/listQuery";
+import { recordAudit } from "../utils/audit";
+import { bookableBy } from "../utils/departments";
 
-// GET all timetable slots
-export const getAllTimetableSlots = async (req: Request, res: Response) => {
-  try {
-    const slots = await TimetableSlot.find();
-    res.json(slots);
-  } catch (err) {
-    console.error("Error fetching timetable slots:", err);
-    res.status(500).json({ error: "Server error" });
+class FilterError extends BadRequestError {}
+
+const queryValue = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+
+// Builds a Mongo filter on the department's slots from the query parameters sent by the
+// frontend services. The faculty and room name filters are resolved to ids, since slots store references.
+const buildSlotFilter = async (query: Request["query"], department: string): Promise<Record<string, unknown>> => {
+  const filter: Record<string, unknown> = { department };
+
+  for (const field of ["year", "division", "batch", "day", "type"]) {
+    const value = queryValue(query[field]);
+    if (value) filter[field] = value;
+  }
+
+  const semester = queryValue(query.semester);
+  if (semester) {
+    const parsed = Number(semester);
+    if (!Number.isInteger(parsed)) throw new FilterError(`Invalid semester '${semester}'`);
+    filter.semester = parsed;
+  }
+
+  for (const field of ["facultyId", "subjectId", "roomId", "labId"]) {
+    const value = queryValue(query[field]);
+    if (!value) continue;
+    if (!mongoose.isValidObjectId(value)) throw new FilterError(`Invalid ${field} '${value}'`);
+    filter[field] = value;
+  }
+
+  // An unknown name matches nothing rather than everything
+  const facultyName = queryValue(query.faculty);
+  if (facultyName) {
+    const faculty = await Faculty.find({ name: facultyName, department }).select("_id");
+    filter.facultyId = { $in: faculty.map(member => member._id) };
   }
+
+  const roomName = queryValue(query.room);
+  if (roomName) {
+    const [classrooms, labs] = await Promise.all([
+      Classroom.find({ name: roomName, ...bookableBy(department) }).select("_id"),
+      Lab.find({ name: roomName, ...bookableBy(department) }).select("_id")
+    ]);
+    filter.$or = [
+      { roomId: { $in: classrooms.map(room => room._id) } },
+      { labId: { $in: labs.map(lab => lab._id) } }
+    ];
+  }
+
+  return filter;
+};
+
+// Parses ?year=&semester=&division=&batch= into a filter on the department's slots, or null when no
+// scope is given. Year and semester are required together so a typo can't widen the scope.
+const parseScope = (query: Request["query"], department: string): Record<string, unknown> | null => {
+  const year = queryValue(query.year);
+  const semester = queryValue(query.semester);
+  const division = queryValue(query.division);
+  const batch = queryValue(query.batch);
+
+  if (!year && !semester && !division && !batch) return null;
+  if (!year || !semester) throw new FilterError("Scope requires both 'year' and 'semester'");
+
+  const parsedSemester = Number(semester);
+  if (!Number.isInteger(parsedSemester)) throw new FilterError(`Invalid semester '${semester}'`);
+
+  const scope: Record<string, unknown> = { department, year, semester: parsedSemester };
+  if (division) scope.division = division;
+  if (batch) scope.batch = batch;
+  return scope;
 };
 
-// POST a new slot
+// e.g. "TE-B semester 5 batch A", for messages and the audit log
+const describeScope = (scope: { year?: unknown; division?: unknown; semester?: unknown; batch?: unknown }) =>
+  `${scope.year}${scope.division ? `-${scope.division}` : ""} semester ${scope.semester}${scope.batch ? ` batch ${scope.batch}` : ""}`;
+
+// Returns the index of the first slot that falls outside the scope, or -1
+const findSlotOutsideScope = (slots: any[], scope: Record<string, unknown>): number =>
+  slots.findIndex(slot =>
+    slot.year !== scope.year ||
+    Number(slot.semester) !== scope.semester ||
+    (scope.division !== undefined && slot.division !== scope.division) ||
+    (scope.batch !== undefined && slot.batch !== scope.batch)
+  );
+
+// Searched and sorted on the names the responses carry, so paging happens after populating
+const SLOT_LIST: ListOptions = {
+  searchFields: ["subject", "subjectCode", "faculty", "room", "day", "division", "batch"],
+  sortFields: ["subject", "subjectCode", "faculty", "room", "type", "year", "division", "semester", "batch"]
+};
+
+// GET the department's timetable slots, optionally filtered by year, division, semester, batch, day, type,
+// faculty, room, facultyId, subjectId, roomId or labId, and paged with ?page=&limit=&sort=&q=.
+// Results are ordered by day and time, within the requested sort if there is one.
+export const getAllTimetableSlots = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, SLOT_LIST);
+  const filter = await buildSlotFilter(req.query, req.department!.id);
+  const slots = await TimetableSlot.find(filter).populate(slotReferencePopulate());
+  sendList(res, pageList(slots.map(slot => slot.toJSON()), list, SLOT_LIST, compareSlots));
+};
+
+// POST a new slot, given by ids or by subject/faculty/room names.
+// Faculty, room and student clashes are rejected with 409 unless ?force=true.
 export const createTimetableSlot = async (req: Request, res: Response) => {
-  try {
-    const slot = new TimetableSlot(req.body);
-    await slot.save();
-    res.status(201).json(slot);
-  } catch (err: any) {
-    console.error("Error creating timetable slot:", err);
-    res.status(400).json({ error: err.message });
+  const [resolved] = await resolveSlotReferences([req.body], req.department!.id);
+  if (req.query.force !== "true") {
+    const conflicts = await findSlotConflicts([resolved]);
+    if (conflicts.length > 0) return res.status(409).json(conflictErrorBody(conflicts));
   }
+  const slot = new TimetableSlot(resolved);
+  await slot.save();
+  await recordAudit(req, {
+    action: "create",
+    resource: "timetable-slots",
+    resourceId: slot._id,
+    summary: `Added a ${slot.type} slot on ${slot.day} ${slot.time} for ${describeScope(slot)}`,
+    after: slot,
+    details: { forced: req.query.force === "true" }
+  });
+  res.status(201).json(await slot.populate(slotReferencePopulate()));
 };
 
-// DELETE all timetable slots
+// DELETE timetable slots, scoped by ?year=&semester=[&division=][&batch=] or all of the department's when no scope is given
 export const deleteAllTimetableSlots = async (req: Request, res: Response) => {
-  try {
-    await TimetableSlot.deleteMany({});
-    res.json({ message: "All timetable slots cleared" });
-  } catch (err) {
-    console.error("Error clearing timetable slots:", err);
-    res.status(500).json({ error: "Failed to clear timetable slots" });
-  }
+  const scope = parseScope(req.query, req.department!.id);
+  const { deletedCount } = await TimetableSlot.deleteMany(scope ?? { department: req.department!.id });
+  const message = scope ? `Cleared timetable slots for ${describeScope(scope)}` : `All ${req.department!.code} timetable slots cleared`;
+  await recordAudit(req, { action: "delete", resource: "timetable-slots", summary: message, details: { scope, deletedCount } });
+  res.json({ message, deletedCount });
 };
 
 // POST /api/timetable-slots/batch
+// With ?year=&semester=[&division=][&batch=] every slot must belong to that scope, and
+// adding &replace=true swaps out the scope's existing slots for the new ones.
+// Slots that clash with each other or the saved timetable are rejected unless ?force=true.
 export const batchSaveTimetableSlots = async (req: Request, res: Response) => {
-  try {
-    const slots = req.body; // expect an array of slots
-    console.log("Received batch save request with data:", JSON.stringify(slots, null, 2));
-    
-    if (!Array.isArray(slots)) {
-      console.error("Request body is not an array:", typeof slots);
-      return res.status(400).json({ error: "Request body must be an array" });
-    }
+  const slots = req.body; // expect an array of slots
+  const scope = parseScope(req.query, req.department!.id);
+  const replace = req.query.replace === "true";
 
-    if (slots.length === 0) {
-      console.error("Empty slots array received");
-      return res.status(400).json({ error: "Slots array cannot be empty" });
-    }
+  if (replace && !scope) {
+    return res.status(400).json({ error: "replace=true requires a year and semester scope" });
+  }
+  
+  if (!Array.isArray(slots)) {
+    console.error("Request body is not an array:", typeof slots);
+    return res.status(400).json({ error: "Request body must be an array" });
+  }
 
-    // Validate each slot has required fields
-    for (let i = 0; i < slots.length; i++) {
-      const slot = slots[i];
-      const requiredFields = ['day', 'time', 'subject', 'faculty', 'room', 'type', 'year', 'duration', 'semester'];
-      
-      for (const field of requiredFields) {
-        if (!slot[field]) {
-          console.error(`Missing required field '${field}' in slot ${i}:`, slot);
-          return res.status(400).json({ 
-            error: `Missing required field '${field}' in slot ${i}`,
-            slot: slot
-          });
-        }
-      }
+  // An empty replacement is allowed: it clears the scope
+  if (slots.length === 0 && !replace) {
+    console.error("Empty slots array received");
+    return res.status(400).json({ error: "Slots array cannot be empty" });
+  }
+
+  // Validate every slot, reporting all the invalid ones. Subject, faculty and room may be ids or names.
+  const checkedSlots = checkSlotFields(slots);
+
+  if (scope) {
+    const outside = findSlotOutsideScope(slots, scope);
+    if (outside !== -1) {
+      return res.status(400).json({
+        error: `Slot ${outside} is outside the requested scope`,
+        slot: slots[outside]
+      });
     }
+  }
 
-    // Remove any 'id' fields from frontend and let MongoDB generate _id
-    const cleanedSlots = slots.map(slot => {
-      const { id, ...cleanSlot } = slot;
-      return cleanSlot;
-    });
+  // Only the slot fields are kept, so ids sent by the frontend are dropped and MongoDB generates _id
+  const cleanedSlots = await resolveSlotReferences(checkedSlots, req.department!.id);
 
-    console.log("Cleaned slots for insertion:", JSON.stringify(cleanedSlots, null, 2));
-    const savedSlots = await TimetableSlot.insertMany(cleanedSlots);
-    console.log("Successfully saved slots:", savedSlots.length);
-    res.status(201).json(savedSlots);
-  } catch (err: any) {
-    console.error("Error batch saving timetable slots:", err);
-    console.error("Error details:", {
-      message: err.message,
-      stack: err.stack,
-      name: err.name
-    });
-    res.status(500).json({ 
-      error: "Failed to batch save timetable slots",
-      details: err.message 
+  if (req.query.force !== "true") {
+    // Slots being replaced can't conflict with their replacements
+    const conflicts = await findSlotConflicts(cleanedSlots, replace ? scope! : undefined);
+    if (conflicts.length > 0) {
+      console.error(`Rejected batch save with ${conflicts.length} conflicts`);
+      return res.status(409).json(conflictErrorBody(conflicts));
+    }
+  }
+  if (replace) {
+    const { savedSlots, deletedCount } = await replaceScopeSlots(scope!, cleanedSlots);
+    await recordAudit(req, {
+      action: "update",
+      resource: "timetable-slots",
+      summary: `Replaced the ${describeScope(scope!)} timetable with ${savedSlots.length} slots`,
+      details: { scope, deletedCount, savedCount: savedSlots.length, forced: req.query.force === "true" }
     });
+    return res.status(201).json(await TimetableSlot.populate(savedSlots, slotReferencePopulate()));
   }
+
+  const savedSlots = await insertSlots(cleanedSlots);
+  await recordAudit(req, {
+    action: "create",
+    resource: "timetable-slots",
+    summary: `Added ${savedSlots.length} timetable slots${scope ? ` to ${describeScope(scope)}` : ""}`,
+    details: { scope, savedCount: savedSlots.length, forced: req.query.force === "true" }
+  });
+  res.status(201).json(await TimetableSlot.populate(savedSlots, slotReferencePopulate()));
 };
@@ -0,0 +1,56 @@
+import { Request, Response } from "express";
+import User from "../models/User";
+import { hashPassword } from "../utils/passwords";
+import { BadRequestError, NotFoundError } from "../utils/httpErrors";
+import { ListOptions, findList, parseListQuery, sendList } from "../utils/listQuery";
+import { recordAudit } from "../utils/audit";
+
+const USER_LIST: ListOptions = {
+  searchFields: ["name", "email", "role"],
+  sortFields: ["name", "email", "role"]
+};
+
+// The password is replaced by its hash; no other field is stored differently
+const toUserFields = async ({ password, ...fields }: Record<string, unknown>) =>
+  password === undefined ? fields : { ...fields, passwordHash: await hashPassword(String(password)) };
+
+// GET /api/users?page=&limit=&sort=&q= - admins only
+export const getUsers = async (req: Request, res: Response) => {
+  const list = parseListQuery(req.query, USER_LIST);
+  sendList(res, await findList(User, {}, list, USER_LIST));
+};
+
+export const createUser = async (req: Request, res: Response) => {
+  const user = new User(await toUserFields(req.body));
+  await user.save();
+  await recordAudit(req, { action: "create", resource: "users", resourceId: user._id, summary: `Added ${user.role} account ${user.email}`, after: user });
+  res.status(201).json(user);
+};
+
+export const updateUser = async (req: Request, res: Response) => {
+  if (req.params.id === req.user!.id && req.body.role !== undefined && req.body.role !== "admin") {
+    throw new BadRequestError("You can't remove your own admin role");
+  }
+  const before = await User.findById(req.params.id);
+  const updated = before && await User.findByIdAndUpdate(req.params.id, await toUserFields(req.body), { new: true, runValidators: true });
+  if (!updated) throw new NotFoundError("User");
+  // Hashes never reach the log, so a new password is noted instead of diffed
+  await recordAudit(req, {
+    action: "update",
+    resource: "users",
+    resourceId: updated._id,
+    summary: `Updated account ${updated.email}`,
+    before,
+    after: updated,
+    details: req.body.password === undefined ? undefined : { passwordChanged: true }
+  });
+  res.json(updated);
+};
+
+export const deleteUser = async (req: Request, res: Response) => {
+  if (req.params.id === req.user!.id) throw new BadRequestError("You can't delete your own account");
+  const deleted = await User.findByIdAndDelete(req.params.id);
+  if (!deleted) throw new NotFoundError("User");
+  await recordAudit(req, { action: "delete", resource: "users", resourceId: deleted._id, summary: `Deleted account ${deleted.email}`, before: deleted });
+  res.json({ message: "User deleted" });
+};
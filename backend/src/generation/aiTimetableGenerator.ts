@@ -1,10 +1,11 @@
-import { Subject, Faculty, Classroom, Lab, TimetableSlot, TimetableConstraints, Conflict } from '../types/timetable';
-import { geminiAnalyzer, ConstraintAnalysisResult, TimetableContext } from '../services/geminiService';
-import CryptoJS from 'crypto-js';
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, TimetableConstraints, Conflict, AcademicYear, AcademicYearConfig, YearSession, Batch, BatchConfig, BellSchedule, DEFAULT_BELL_SCHEDULE, lectureTimes, labTimes, allLectureTimes, allLabTimes, timesOverlap, schedulingDays, dayWeight, workingDaysOf, classStrength } from '@timetable/shared';
+import { geminiAnalyzer, ConstraintAnalysisResult, TimetableContext } from './geminiService';
+import { withSlotReferences } from './slotReferences';
+import { createHash } from 'crypto';
 
 // Helper types
-type UnscheduledLecture = { subject: Subject; year: 'SE' | 'TE' | 'BE'; }
-type UnscheduledLab = { subject: Subject; year: 'SE' | 'TE' | 'BE'; batch: 'A' | 'B' | 'C'; }
+type UnscheduledLecture = { subject: Subject; year: AcademicYear; }
+type UnscheduledLab = { subject: Subject; year: AcademicYear; batch: Batch; }
 
 // Extend TimetableSlot type (assuming you can modify this in your types/timetable file)
 // If not, you might need to handle this differently or omit the flag.
@@ -27,6 +28,17 @@ export interface AIGenerationResult {
   };
 }
 
+// Called as generation moves from one step to the next; may be async
+export type GenerationProgressListener = (step: string, progress: number) => void | Promise<void>;
+
+export interface GenerationOptions {
+  onProgress?: GenerationProgressListener;
+  signal?: AbortSignal; // aborting stops the run at its next step
+  division?: string; // one of the year's divisions; the generated slots are stamped with it
+  bookedSlots?: TimetableSlot[]; // slots of other classes, whose faculty and rooms are already taken
+  bellSchedule?: Omit<BellSchedule, 'id'>; // the department's periods; the default grid without one
+}
+
 export class AITimetableGenerator {
   private subjects: Subject[];
   private faculty: Faculty[];
@@ -36,14 +48,13 @@ export class AITimetableGenerator {
   private generatedSlots: ExtendedTimetableSlot[] = []; // Use the extended type
   private conflicts: Conflict[] = [];
   private analysisResult: ConstraintAnalysisResult | null = null;
-
-  private readonly DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
-  private readonly MORNING_THEORY_SLOTS = ['8:10-9:10', '9:10-10:10', '10:25-11:20', '11:20-12:15', '1:05-2:00', '2:00-2:55'];
-  private readonly AFTERNOON_THEORY_SLOTS = ['10:25-11:20', '11:20-12:15', '1:05-2:00', '2:00-2:55', '3:05-4:00', '4:00-4:55'];
-  private readonly MORNING_LAB_SLOTS = ['8:10-10:10', '10:25-12:15', '1:05-2:55'];
-  private readonly AFTERNOON_LAB_SLOTS = ['10:25-12:15', '1:05-2:55', '3:05-4:55'];
-  private readonly ALL_THEORY_SLOTS = ['8:10-9:10', '9:10-10:10', '10:25-11:20', '11:20-12:15', '1:05-2:00', '2:00-2:55', '3:05-4:00', '4:00-4:55'];
+  private options: GenerationOptions = {};
+  private yearConfig: AcademicYearConfig | null = null;
+  private division?: string;
+  private batches: BatchConfig[] = []; // the division's lab batches
+  private bookedSlots: TimetableSlot[] = [];
+  private schedule: Omit<BellSchedule, 'id'> = DEFAULT_BELL_SCHEDULE;
+  private days: string[] = []; // working days, weekly ones first; see schedulingDays
 
   constructor(subjects: Subject[], faculty: Faculty[], classrooms: Classroom[], labs: Lab[], constraints: TimetableConstraints) {
     this.subjects = subjects;
@@ -53,37 +64,55 @@ export class AITimetableGenerator {
     this.constraints = constraints;
   }
 
-  public async generateTimetable(targetYear: 'SE' | 'TE' | 'BE', targetSemester: number): Promise<AIGenerationResult> {
+  public async generateTimetable(yearConfig: AcademicYearConfig, targetSemester: number, options: GenerationOptions = {}): Promise<AIGenerationResult> {
+    const targetYear = yearConfig.code;
     this.generatedSlots = [];
     this.conflicts = [];
+    this.options = options;
+    this.yearConfig = yearConfig;
+    this.division = options.division;
+    this.batches = yearConfig.batches.filter(batch => (batch.division || undefined) === this.division);
+    this.bookedSlots = options.bookedSlots ?? [];
+    this.schedule = options.bellSchedule ?? DEFAULT_BELL_SCHEDULE;
+    this.days = schedulingDays(workingDaysOf(this.schedule, yearConfig));
 
     try {
       // Step 1: AI Constraint Analysis (if needed)
-      const context: TimetableContext = { subjects: this.subjects, faculty: this.faculty, classrooms: this.classrooms, labs: this.labs, constraints: this.constraints, existingSlots: this.generatedSlots, targetYear, targetSemester };
+      await this.reportProgress('Analyzing constraints with AI...', 10);
+      const context: TimetableContext = { subjects: this.subjects, faculty: this.faculty, classrooms: this.classrooms, labs: this.labs, constraints: this.constraints, existingSlots: this.generatedSlots, targetYear, targetDivision: this.division, targetSemester, batches: this.batches, classStrength: this.classSize(), bellSchedule: this.schedule, days: this.days, alternateDays: workingDaysOf(this.schedule, yearConfig).alternate };
       this.analysisResult = await geminiAnalyzer.analyzeConstraints(context);
 
       // Step 2: Generate slots
       await this.generateSlotsWithAI(targetYear, targetSemester);
 
       // Step 3: Validate and optimize
+      await this.reportProgress('Validating and optimizing...', 80);
       this.validateAndOptimize();
 
       // Step 4: Calculate statistics
+      await this.reportProgress('Calculating statistics...', 90);
       const stats = this.calculateGenerationStats(targetYear, targetSemester);
 
-      return { slots: this.generatedSlots, conflicts: this.conflicts, analysisResult: this.analysisResult, generationStats: stats };
+      return { slots: withSlotReferences(this.resultSlots(), this.subjects, this.classrooms, this.labs), conflicts: this.conflicts, analysisResult: this.analysisResult, generationStats: stats };
     } catch (error) {
+      if (this.options.signal?.aborted) throw error; // cancelled, not failed
       console.error('Error in AI timetable generation:', error);
       console.log('Falling back to traditional generation...');
+      await this.reportProgress('Falling back to traditional generation...', 50);
       return this.fallbackGeneration(targetYear, targetSemester);
     }
   }
 
-  private async generateSlotsWithAI(targetYear: 'SE' | 'TE' | 'BE', targetSemester: number): Promise<void> {
+  private async reportProgress(step: string, progress: number): Promise<void> {
+    this.options.signal?.throwIfAborted();
+    await this.options.onProgress?.(step, progress);
+  }
+
+  private async generateSlotsWithAI(targetYear: AcademicYear, targetSemester: number): Promise<void> {
     if (!this.analysisResult) throw new Error('AI analysis not available');
 
     const relevantSubjects = this.subjects.filter(s => s.year === targetYear && s.semester === targetSemester);
-    const yearClassrooms = this.classrooms.filter(c => c.assignedYear === targetYear);
+    const yearClassrooms = this.classroomsFor(targetYear);
 
     // Use high-confidence AI recommendations first
     for (const recommendation of this.analysisResult.recommendedSlots) {
@@ -102,31 +131,33 @@ export class AITimetableGenerator {
 
     // --- Scheduling Passes ---
     // 1. Schedule Labs Concurrently (AI enhanced)
+    await this.reportProgress('Scheduling lab sessions...', 30);
     await this.scheduleLabsConcurrently(unscheduledLabs, targetYear, 'ai');
 
     // 2. Schedule Lectures (AI enhanced)
+    await this.reportProgress('Scheduling theory lectures...', 50);
     await this.scheduleLecturesWithAI(unscheduledLectures, targetYear, yearClassrooms);
 
     // 3. **NEW:** Fill remaining empty theory slots with unscheduled lectures
+    await this.reportProgress('Filling remaining lecture slots...', 65);
     await this.fillRemainingLectureSlots(unscheduledLectures, targetYear, yearClassrooms);
 
     // Report any remaining unscheduled items
     this.reportUnscheduled(unscheduledLectures, unscheduledLabs);
+    this.reportAlternateWeekSessions();
   }
 
   // --- Lab Scheduling (Concurrent) ---
   private async scheduleLabsConcurrently(
     pool: UnscheduledLab[],
-    targetYear: 'SE' | 'TE' | 'BE',
+    targetYear: AcademicYear,
     mode: 'ai' | 'fallback' // Mode affects sorting/logging
   ): Promise<void> {
     const labsForTargetYear = pool.filter(lab => lab.year === targetYear);
     console.log(`Attempting to schedule ${labsForTargetYear.length} labs concurrently for ${targetYear}...`);
 
-    const labSlots = this.getLabSlotsForYear(targetYear);
-    
-    for (const day of this.DAYS) {
-      for (const time of labSlots) {
+    for (const day of this.days) {
+      for (const time of this.getLabSlotsForYear(targetYear, day)) {
         // Find all rooms available at this specific time slot
         const availableLabRooms = this.getAvailableRooms(day, time, 'lab') as Lab[];
         let scheduledInThisSlot = 0;
@@ -149,6 +180,7 @@ export class AITimetableGenerator {
 
         const facultyScheduledThisSlot = new Set<string>();
         const batchesScheduledThisSlot = new Set<string>(); // Batch key: "SE-A"
+        const roomsUsedThisSlot = new Set<string>();
 
         for (const candidate of candidates) {
           if (scheduledInThisSlot >= availableLabRooms.length) break; // No more rooms
@@ -161,7 +193,9 @@ export class AITimetableGenerator {
             continue; // Conflict within this concurrent slot
           }
 
-          const labRoom = availableLabRooms[scheduledInThisSlot];
+          // The first free lab that seats the whole batch
+          const labRoom = availableLabRooms.find(room => !roomsUsedThisSlot.has(room.name) && this.labFitsBatch(room, candidate.batch));
+          if (!labRoom) continue;
           const slot: ExtendedTimetableSlot = {
             id: `${candidate.year}-${candidate.batch}-${candidate.subject.code}-${day}-${time}-${labRoom.name}`,
             day, time, subject: `${candidate.subject.name} Lab`,
@@ -173,6 +207,7 @@ export class AITimetableGenerator {
             this.generatedSlots.push(slot);
             facultyScheduledThisSlot.add(facultyName);
             batchesScheduledThisSlot.add(batchKey);
+            roomsUsedThisSlot.add(labRoom.name);
             scheduledInThisSlot++;
 
             // Remove from pools
@@ -189,21 +224,20 @@ export class AITimetableGenerator {
   }
 
   // --- Lecture Scheduling (AI Pass) ---
-  private async scheduleLecturesWithAI(pool: UnscheduledLecture[], targetYear: 'SE' | 'TE' | 'BE', yearClassrooms: Classroom[]): Promise<void> {
+  private async scheduleLecturesWithAI(pool: UnscheduledLecture[], targetYear: AcademicYear, yearClassrooms: Classroom[]): Promise<void> {
     const sortedPool = this.sortPoolByAIInsights(pool, 'theory') as UnscheduledLecture[];
     const batchType = this.getBatchTypeForYear(targetYear);
-    const relevantTheorySlots = (batchType === 'Morning') ? this.MORNING_THEORY_SLOTS : this.AFTERNOON_THEORY_SLOTS;
-    const assignedClassroom = yearClassrooms.find(c => c.assignedYear === targetYear);
+    const assignedClassroom = this.classroomFor(yearClassrooms);
 
     if (!assignedClassroom) {
-      console.warn(`No classroom for ${targetYear} in scheduleLecturesWithAI.`);
+      console.warn(`No classroom seats ${this.describeClass(targetYear)} (${this.classSize()} students) in scheduleLecturesWithAI.`);
       return;
     }
 
     console.log(`Scheduling lectures (AI Pass) for ${targetYear} (${batchType})...`);
 
-    for (const day of this.DAYS) {
-      for (const time of relevantTheorySlots) {
+    for (const day of this.days) {
+      for (const time of this.getTheorySlotsForYear(targetYear, day)) {
         // Is the slot physically available (year not busy, classroom not busy)?
         if (this.isYearOccupied(targetYear, day, time) || this.isRoomOccupied(assignedClassroom.name, day, time)) continue;
 
@@ -252,24 +286,22 @@ export class AITimetableGenerator {
   // --- **NEW:** Lecture Scheduling (Fill Empty Slots Pass) ---
   private async fillRemainingLectureSlots(
     pool: UnscheduledLecture[],
-    targetYear: 'SE' | 'TE' | 'BE',
+    targetYear: AcademicYear,
     yearClassrooms: Classroom[]
   ): Promise<void> {
     if (pool.length === 0) return;
 
     console.log(`Attempting to fill remaining ${pool.length} lectures for ${targetYear} in empty slots...`);
 
-    const assignedClassroom = yearClassrooms.find(c => c.assignedYear === targetYear);
+    const assignedClassroom = this.classroomFor(yearClassrooms);
     if (!assignedClassroom) {
-      console.warn(`No assigned classroom for ${targetYear}, cannot fill remaining lectures.`);
+      console.warn(`No assigned classroom seats ${this.describeClass(targetYear)} (${this.classSize()} students), cannot fill remaining lectures.`);
       return;
     }
 
-    // Use ALL slots this time, including potential lab slots if they are empty
-    const potentialSlots = this.ALL_THEORY_SLOTS; // Could also check LAB_SLOTS interpreted as theory
-
-    for (const day of this.DAYS) {
-      for (const time of potentialSlots) {
+    // Use ALL lecture periods of the day this time, whichever shift they belong to
+    for (const day of this.days) {
+      for (const time of allLectureTimes(this.schedule, day)) {
         if (pool.length === 0) return; // Stop if all lectures are scheduled
 
         // Check if the YEAR and CLASSROOM are free at this time
@@ -328,16 +360,16 @@ export class AITimetableGenerator {
 
 
   // --- Fallback Generation ---
-  private fallbackGeneration(targetYear: 'SE' | 'TE' | 'BE', targetSemester: number): AIGenerationResult {
+  private fallbackGeneration(targetYear: AcademicYear, targetSemester: number): AIGenerationResult {
     console.log('Using fallback generation without AI...');
     try {
       const relevantSubjects = this.subjects.filter(s => s.year === targetYear && s.semester === targetSemester);
-      const yearClassrooms = this.classrooms.filter(c => c.assignedYear === targetYear);
+      const yearClassrooms = this.classroomsFor(targetYear);
 
       if (relevantSubjects.length === 0 || yearClassrooms.length === 0) {
         // Add conflicts and return early if basic data is missing
         if (relevantSubjects.length === 0) this.conflicts.push({ type: 'error', message: `No subjects for ${targetYear} Sem ${targetSemester}`, severity: 'high', affectedEntities: [] });
-        if (yearClassrooms.length === 0) this.conflicts.push({ type: 'error', message: `No classrooms for ${targetYear}`, severity: 'high', affectedEntities: [] });
+        if (yearClassrooms.length === 0) this.conflicts.push({ type: 'error', message: `No classrooms for ${this.describeClass(targetYear)}`, severity: 'high', affectedEntities: [] });
         return this.createEmptyResult(targetYear, targetSemester, 'Fallback pre-check failed');
       }
 
@@ -352,9 +384,10 @@ export class AITimetableGenerator {
       this.fillRemainingLectureSlots(unscheduledLectures, targetYear, yearClassrooms);
 
       this.reportUnscheduled(unscheduledLectures, unscheduledLabs);
+      this.reportAlternateWeekSessions();
       this.validateCriticalConstraints(); // Run validation
 
-      return { slots: this.generatedSlots, conflicts: this.conflicts, analysisResult: this.getFallbackAnalysisResult(), generationStats: this.calculateGenerationStats(targetYear, targetSemester) };
+      return { slots: withSlotReferences(this.resultSlots(), this.subjects, this.classrooms, this.labs), conflicts: this.conflicts, analysisResult: this.getFallbackAnalysisResult(), generationStats: this.calculateGenerationStats(targetYear, targetSemester) };
     } catch (error) {
       console.error('Error in fallback generation:', error);
       this.conflicts.push({ type: 'error', message: `Fallback failed: ${error instanceof Error ? error.message : 'Unknown'}`, severity: 'high', affectedEntities: [] });
@@ -363,17 +396,16 @@ export class AITimetableGenerator {
   }
 
   // Fallback lecture scheduling (similar to AI version but without sorting)
-  private scheduleLecturesFallback(pool: UnscheduledLecture[], targetYear: 'SE' | 'TE' | 'BE', yearClassrooms: Classroom[]): void {
+  private scheduleLecturesFallback(pool: UnscheduledLecture[], targetYear: AcademicYear, yearClassrooms: Classroom[]): void {
     const batchType = this.getBatchTypeForYear(targetYear);
-    const relevantTheorySlots = (batchType === 'Morning') ? this.MORNING_THEORY_SLOTS : this.AFTERNOON_THEORY_SLOTS;
-    const assignedClassroom = yearClassrooms.find(c => c.assignedYear === targetYear);
+    const assignedClassroom = this.classroomFor(yearClassrooms);
 
     if (!assignedClassroom) return;
 
     console.log(`Scheduling lectures (Fallback) for ${targetYear} (${batchType})...`);
 
-    for (const day of this.DAYS) {
-      for (const time of relevantTheorySlots) {
+    for (const day of this.days) {
+      for (const time of this.getTheorySlotsForYear(targetYear, day)) {
         if (this.isYearOccupied(targetYear, day, time) || this.isRoomOccupied(assignedClassroom.name, day, time)) continue;
 
         const bestFitIndex = pool.findIndex(lec => {
@@ -414,9 +446,10 @@ export class AITimetableGenerator {
   // Modified validateSlot to check weekly theory count
   private validateSlot(slot: ExtendedTimetableSlot): boolean {
     // Basic conflict checks (faculty/room/batch double booking)
-    const basicConflict = this.generatedSlots.some(existing =>
+    const basicConflict = this.takenSlots().some(existing =>
       (existing.faculty === slot.faculty && existing.day === slot.day && this.doTimesOverlap(existing.time, slot.time)) ||
-      (existing.room === slot.room && existing.day === slot.day && this.doTimesOverlap(existing.time, slot.time)) ||
+      (existing.room === slot.room && existing.day === slot.day && this.doTimesOverlap(existing.time, slot.time))
+    ) || this.generatedSlots.some(existing =>
       (existing.year === slot.year && existing.day === slot.day && this.doTimesOverlap(existing.time, slot.time) &&
         (!slot.batch || !existing.batch || existing.batch === slot.batch)) // Batch conflict only if batches exist and match
     );
@@ -431,11 +464,16 @@ export class AITimetableGenerator {
       return false;
     }
 
-    // Check 2: Max theory lectures per subject per week
+    // Check 2: Theory in a classroom that seats the class, max lectures per subject per week
     if (slot.type === 'theory') {
-      const weeklyTheoryCount = this.generatedSlots.filter(s =>
+      const classroom = this.classrooms.find(c => c.name === slot.room);
+      if (classroom && !this.classroomFitsClass(classroom)) {
+        console.log(`❌ Rejecting ${slot.subject} theory in ${slot.room}: ${classroom.capacity} seats for ${this.classSize()} students`);
+        return false;
+      }
+      const weeklyTheoryCount = this.weeklySessions(this.generatedSlots.filter(s =>
         s.type === 'theory' && s.subject === slot.subject && s.year === slot.year
-      ).length;
+      ));
       const subjectDef = this.subjects.find(s => s.name === slot.subject && s.year === slot.year);
       const maxAllowed = subjectDef?.theoryHours || 3; // Default to 3 if subject not found
       if (weeklyTheoryCount >= maxAllowed) {
@@ -444,8 +482,13 @@ export class AITimetableGenerator {
       }
     }
 
-    // Check 3: Lab sessions - max once per batch per week
+    // Check 3: Lab sessions - the lab must seat the batch, and max once per batch per week
     if (slot.type === 'lab') {
+      const lab = this.labs.find(l => l.name === slot.room);
+      if (lab && slot.batch && !this.labFitsBatch(lab, slot.batch)) {
+        console.log(`❌ Rejecting ${slot.subject} lab for ${slot.batch} in ${slot.room}: ${lab.capacity} seats for ${this.batchSize(slot.batch)} students`);
+        return false;
+      }
       const weeklyLabCount = this.generatedSlots.filter(s =>
         s.type === 'lab' && s.subject === slot.subject && s.year === slot.year && s.batch === slot.batch
       ).length;
@@ -459,13 +502,26 @@ export class AITimetableGenerator {
   }
 
 
+  // Classrooms of the year, other than those kept for another of its divisions
+  private classroomsFor = (year: AcademicYear): Classroom[] =>
+    this.classrooms.filter(c => c.assignedYear === year && (!c.assignedDivision || c.assignedDivision === this.division));
+
+  // "TE" or "TE-B", for messages
+  private describeClass = (year: AcademicYear): string => this.division ? `${year}-${this.division}` : year;
+
+  // Everything already holding a faculty member or room: other classes' slots and this run's
+  private takenSlots = (): TimetableSlot[] => [...this.bookedSlots, ...this.generatedSlots];
+
+  private resultSlots = (): ExtendedTimetableSlot[] =>
+    this.division ? this.generatedSlots.map(slot => ({ ...slot, division: this.division })) : this.generatedSlots;
+
   private isYearOccupied = (year: string, day: string, time: string): boolean => {
     // Checks if *any* theory class (no batch) for the year is scheduled
     return this.generatedSlots.some(s => s.year === year && !s.batch && s.day === day && this.doTimesOverlap(s.time, time));
   };
 
   private isRoomOccupied = (roomName: string, day: string, time: string): boolean => {
-    return this.generatedSlots.some(s => s.room === roomName && s.day === day && this.doTimesOverlap(s.time, time));
+    return this.takenSlots().some(s => s.room === roomName && s.day === day && this.doTimesOverlap(s.time, time));
   };
 
   // ... (Keep other helpers: hasConsecutiveSession, isSlotAvailable, validateAndOptimize, validateCriticalConstraints, validateFacultyWorkload, validateRoomUtilization, calculateGenerationStats, getFallbackAnalysisResult, createLecturePool, createLabPool, reportUnscheduled, getFacultyName, getSlotDuration, getBatchTypeForYear, getBatchForLab, isFacultyAvailable, isBatchAvailable, getAvailableRooms, hadConsecutiveLabForBatch, hadConsecutiveLabForFaculty, wasPreviousSlotSameSubject, hasLabAlreadyOccurredTodayForBatch, doTimesOverlap) ...
@@ -478,7 +534,7 @@ export class AITimetableGenerator {
   }
 
   // Helper to create an empty result structure on fatal errors
-  private createEmptyResult(_targetYear: 'SE' | 'TE' | 'BE', _targetSemester: number, reason: string): AIGenerationResult {
+  private createEmptyResult(_targetYear: AcademicYear, _targetSemester: number, reason: string): AIGenerationResult {
     console.error(`Creating empty result: ${reason}`);
     return {
       slots: [],
@@ -495,11 +551,13 @@ export class AITimetableGenerator {
   // Make sure all the methods listed below are still in your class, 
   // as they are used by the new/modified logic.
 
-  private createSlotFromRecommendation(recommendation: any, subject: Subject, targetYear: 'SE' | 'TE' | 'BE', targetSemester: number): ExtendedTimetableSlot | null {
+  private createSlotFromRecommendation(recommendation: any, subject: Subject, targetYear: AcademicYear, targetSemester: number): ExtendedTimetableSlot | null {
     const facultyName = this.getFacultyName(subject);
     const duration = this.getSlotDuration(recommendation.time); // Use duration based on time
-    const batch = recommendation.type === 'lab' ? recommendation.batch || this.getBatchForLab(subject, targetYear) : undefined; // Use recommendation batch if provided
-    const type = (this.MORNING_LAB_SLOTS.includes(recommendation.time) || this.AFTERNOON_LAB_SLOTS.includes(recommendation.time)) ? 'lab' : 'theory'; // Infer type from time slot list
+    const knownBatch = this.batches.some(b => b.name === recommendation.batch) ? recommendation.batch : undefined;
+    const batch = recommendation.type === 'lab' ? knownBatch || this.getBatchForLab(subject, targetYear) : undefined; // Use recommendation batch if it's one of the division's
+    const type = allLabTimes(this.schedule, recommendation.day).includes(recommendation.time) ? 'lab' : 'theory'; // Infer type from the day's lab sessions
+    if (type === 'lab' && !batch) return null; // No batch left to take it
 
     return {
       id: `${targetYear}-${type === 'lab' ? batch : ''}-${subject.code}-${recommendation.day}-${recommendation.time}`,
@@ -537,7 +595,7 @@ export class AITimetableGenerator {
   }
 
   private isSlotAvailable(day: string, time: string, room: string): boolean {
-    return !this.generatedSlots.some(slot => slot.day === day && this.doTimesOverlap(slot.time, time) && slot.room === room);
+    return !this.takenSlots().some(slot => slot.day === day && this.doTimesOverlap(slot.time, time) && slot.room === room);
   }
 
   private hasConsecutiveSession(slot: ExtendedTimetableSlot): boolean {
@@ -545,14 +603,15 @@ export class AITimetableGenerator {
 
     // Temporarily add the slot to check
     const potentialSlots = [...this.generatedSlots, slot];
+    const dayTimes = allLectureTimes(this.schedule, slot.day);
 
     const sameDaySlots = potentialSlots.filter(s =>
       s.day === slot.day && s.subject === slot.subject && s.year === slot.year && s.type === 'theory'
-    ).sort((a, b) => this.ALL_THEORY_SLOTS.indexOf(a.time) - this.ALL_THEORY_SLOTS.indexOf(b.time));
+    ).sort((a, b) => dayTimes.indexOf(a.time) - dayTimes.indexOf(b.time));
 
     for (let i = 0; i < sameDaySlots.length - 1; i++) {
-      const currentIndex = this.ALL_THEORY_SLOTS.indexOf(sameDaySlots[i].time);
-      const nextIndex = this.ALL_THEORY_SLOTS.indexOf(sameDaySlots[i + 1].time);
+      const currentIndex = dayTimes.indexOf(sameDaySlots[i].time);
+      const nextIndex = dayTimes.indexOf(sameDaySlots[i + 1].time);
       if (currentIndex !== -1 && nextIndex === currentIndex + 1) { // Ensure index is found
         return true;
       }
@@ -593,27 +652,30 @@ export class AITimetableGenerator {
 
       // CONSTRAINT 1: Check Theory Hours Scheduled vs Required
       const expectedTheoryHours = originalSubject?.theoryHours || 0;
-      if (expectedTheoryHours > 0 && theorySlots.length < expectedTheoryHours) {
-        this.conflicts.push({ type: 'warning', message: `⚠️ ${subjectKey}: Only ${theorySlots.length}/${expectedTheoryHours} theory sessions scheduled`, severity: 'medium', affectedEntities: [subjectKey] });
+      const weeklyTheorySessions = this.weeklySessions(theorySlots);
+      if (expectedTheoryHours > 0 && weeklyTheorySessions < expectedTheoryHours) {
+        this.conflicts.push({ type: 'warning', message: `⚠️ ${subjectKey}: Only ${weeklyTheorySessions}/${expectedTheoryHours} theory sessions scheduled`, severity: 'medium', affectedEntities: [subjectKey] });
       }
-      if (theorySlots.length > expectedTheoryHours) {
-        this.conflicts.push({ type: 'error', message: `❌ ${subjectKey}: Has ${theorySlots.length} theory sessions (max ${expectedTheoryHours} allowed)`, severity: 'high', affectedEntities: [subjectKey] });
+      if (weeklyTheorySessions > expectedTheoryHours) {
+        this.conflicts.push({ type: 'error', message: `❌ ${subjectKey}: Has ${weeklyTheorySessions} theory sessions (max ${expectedTheoryHours} allowed)`, severity: 'high', affectedEntities: [subjectKey] });
       }
 
 
       // CONSTRAINT 2: Check for consecutive sessions (final check)
       const sortedTheorySlots = theorySlots.sort((a, b) => {
-        const dayOrder = this.DAYS;
+        const dayOrder = this.days;
         const dayDiff = dayOrder.indexOf(a.day) - dayOrder.indexOf(b.day);
         if (dayDiff !== 0) return dayDiff;
-        return this.ALL_THEORY_SLOTS.indexOf(a.time) - this.ALL_THEORY_SLOTS.indexOf(b.time);
+        const dayTimes = allLectureTimes(this.schedule, a.day);
+        return dayTimes.indexOf(a.time) - dayTimes.indexOf(b.time);
       });
       for (let i = 0; i < sortedTheorySlots.length - 1; i++) {
         const current = sortedTheorySlots[i];
         const next = sortedTheorySlots[i + 1];
         if (current.day === next.day) {
-          const currentIndex = this.ALL_THEORY_SLOTS.indexOf(current.time);
-          const nextIndex = this.ALL_THEORY_SLOTS.indexOf(next.time);
+          const dayTimes = allLectureTimes(this.schedule, current.day);
+          const currentIndex = dayTimes.indexOf(current.time);
+          const nextIndex = dayTimes.indexOf(next.time);
           if (currentIndex !== -1 && nextIndex === currentIndex + 1) {
             this.conflicts.push({ type: 'error', message: `❌ ${subjectKey}: Consecutive sessions on ${current.day} (${current.time} → ${next.time})`, severity: 'high', affectedEntities: [subjectKey, current.day] });
           }
@@ -629,11 +691,10 @@ export class AITimetableGenerator {
         if (labSlots.length > expectedLabSessions) {
           this.conflicts.push({ type: 'error', message: `❌ ${subjectKey}: Has ${labSlots.length} lab sessions (max ${expectedLabSessions} allowed)`, severity: 'high', affectedEntities: [subjectKey] });
         }
-        // Check if *each required* batch (A, B, C) got scheduled *at least once* if expected > 0
+        // Check if *each configured* batch got scheduled *at least once* if expected > 0
         if (expectedLabSessions > 0) {
-          const scheduledBatches = new Set(labSlots.map(l => l.batch).filter(Boolean) as ('A' | 'B' | 'C')[]);
-          const requiredBatches: ('A' | 'B' | 'C')[] = ['A', 'B', 'C']; // Assuming all 3 are always required if labs exist
-          requiredBatches.forEach(batch => {
+          const scheduledBatches = new Set(labSlots.map(l => l.batch).filter(Boolean) as Batch[]);
+          this.batches.map(b => b.name).forEach(batch => {
             if (!scheduledBatches.has(batch)) {
               this.conflicts.push({ type: 'error', message: `❌ ${subjectKey}: Lab session missing for Batch ${batch}`, severity: 'high', affectedEntities: [subjectKey, `Batch ${batch}`] });
             }
@@ -694,7 +755,7 @@ export class AITimetableGenerator {
     });
   }
 
-  private calculateGenerationStats(targetYear: 'SE' | 'TE' | 'BE', targetSemester: number): any {
+  private calculateGenerationStats(targetYear: AcademicYear, targetSemester: number): any {
     // (Keep your existing implementation - ensure it uses this.generatedSlots)
     const theorySlots = this.generatedSlots.filter(s => s.type === 'theory').length;
     const labSlots = this.generatedSlots.filter(s => s.type === 'lab').length;
@@ -706,8 +767,8 @@ export class AITimetableGenerator {
     const roomUtilization = totalRooms > 0 ? roomsUsed.size / totalRooms : 0;
     const constraintScore = this.analysisResult?.constraintScore || (this.conflicts.some(c => c.type === 'error') ? 50 : 75); // Estimate if no AI
 
-    const consistencyData = { targetYear, targetSemester, slots: this.generatedSlots.map(s => ({ day: s.day, time: s.time, subject: s.subject, faculty: s.faculty, room: s.room, type: s.type, year: s.year, batch: s.batch })).sort((a, b) => `${a.day}-${a.time}-${a.subject}`.localeCompare(`${b.day}-${b.time}-${b.subject}`)) };
-    const consistencyHash = CryptoJS.SHA256(JSON.stringify(consistencyData)).toString();
+    const consistencyData = { targetYear, targetDivision: this.division, targetSemester, slots: this.generatedSlots.map(s => ({ day: s.day, time: s.time, subject: s.subject, faculty: s.faculty, room: s.room, type: s.type, year: s.year, batch: s.batch })).sort((a, b) => `${a.day}-${a.time}-${a.subject}`.localeCompare(`${b.day}-${b.time}-${b.subject}`)) };
+    const consistencyHash = createHash('sha256').update(JSON.stringify(consistencyData)).digest('hex');
 
     return { totalSlots: this.generatedSlots.length, theorySlots, labSlots, facultyUtilization: Math.round(facultyUtilization * 100), roomUtilization: Math.round(roomUtilization * 100), constraintScore, consistencyHash };
   }
@@ -729,61 +790,93 @@ export class AITimetableGenerator {
   }
 
   private createLecturePool = (subjects: Subject[]): UnscheduledLecture[] => subjects.flatMap(s => Array(s.theoryHours).fill({ subject: s, year: s.year }));
-  private createLabPool = (subjects: Subject[]): UnscheduledLab[] => subjects.flatMap(s => Array(Math.ceil(s.labHours / 2)).fill(0).flatMap(() => (['A', 'B', 'C'] as const).map(batch => ({ subject: s, year: s.year, batch }))));
+  // One session per 2 lab hours for every batch of the division
+  private createLabPool = (subjects: Subject[]): UnscheduledLab[] => {
+    const labSubjects = subjects.filter(s => s.labHours > 0);
+    if (labSubjects.length > 0 && this.batches.length === 0) {
+      const year = labSubjects[0].year;
+      this.conflicts.push({ type: 'error', message: `No lab batches configured for ${this.describeClass(year)}; its labs can't be scheduled`, severity: 'high', affectedEntities: [this.describeClass(year)] });
+    }
+    return labSubjects.flatMap(s => Array(Math.ceil(s.labHours / 2)).fill(0).flatMap(() => this.batches.map(batch => ({ subject: s, year: s.year, batch: batch.name }))));
+  };
 
   private reportUnscheduled(lectures: UnscheduledLecture[], labs: UnscheduledLab[]): void {
-    labs.forEach(lab => this.conflicts.push({ type: 'error', message: `Unscheduled Lab: ${lab.subject.name} (${lab.year}-${lab.batch})`, severity: 'high', affectedEntities: [lab.subject.name] }));
+    labs.forEach(lab => {
+      const reason = this.labs.some(room => this.labFitsBatch(room, lab.batch)) ? '' : `: no lab seats its ${this.batchSize(lab.batch)} students`;
+      this.conflicts.push({ type: 'error', message: `Unscheduled Lab: ${lab.subject.name} (${this.describeClass(lab.year)}-${lab.batch})${reason}`, severity: 'high', affectedEntities: [lab.subject.name] });
+    });
     const unscheduledCounts: { [key: string]: number } = {};
+    const reason = lectures.length > 0 && !this.classroomFor(this.classroomsFor(lectures[0].year)) ? `: no classroom seats its ${this.classSize()} students` : '';
     lectures.forEach(lec => { const key = `${lec.subject.name} (${lec.year})`; unscheduledCounts[key] = (unscheduledCounts[key] || 0) + 1; });
-    for (const key in unscheduledCounts) { this.conflicts.push({ type: 'warning', message: `Unscheduled Lectures: ${unscheduledCounts[key]} for ${key}`, severity: 'medium', affectedEntities: [key] }); }
+    for (const key in unscheduledCounts) { this.conflicts.push({ type: 'warning', message: `Unscheduled Lectures: ${unscheduledCounts[key]} for ${key}${reason}`, severity: 'medium', affectedEntities: [key] }); }
   }
 
+  // Sessions placed on alternate-week days only run every other week
+  private reportAlternateWeekSessions(): void {
+    const alternating = this.generatedSlots.filter(slot => this.dayWeightOf(slot.day) < 1);
+    if (alternating.length === 0) return;
+    const days = [...new Set(alternating.map(slot => slot.day))].join(', ');
+    const subjects = [...new Set(alternating.map(slot => slot.subject))];
+    this.conflicts.push({ type: 'info', message: `${alternating.length} session(s) on ${days} run on alternate weeks only: ${subjects.join(', ')}`, severity: 'low', affectedEntities: subjects });
+  }
+
+  // How often a day of the target year is held: 1 every week, 0.5 on alternate weeks
+  private dayWeightOf = (day: string): number => dayWeight(workingDaysOf(this.schedule, this.yearConfig), day);
+
+  // Sessions in an average week: one on an alternate-week day counts half
+  private weeklySessions = (slots: TimetableSlot[]): number => slots.reduce((sum, slot) => sum + this.dayWeightOf(slot.day), 0);
+
   private getFacultyName = (subject: Subject): string => typeof subject.faculty === 'object' ? subject.faculty.name : subject.faculty;
   private getSlotDuration = (time: string): number => {
-    // Check if it's a lab slot (2-hour duration) or theory slot (1-hour duration)
-    const isLabSlot = this.MORNING_LAB_SLOTS.includes(time) || this.AFTERNOON_LAB_SLOTS.includes(time);
-    return isLabSlot ? 2 : 1;
+    // A lab session spans `labPeriods` lectures; anything else is a single period
+    const isLabSlot = this.days.some(day => allLabTimes(this.schedule, day).includes(time));
+    return isLabSlot ? this.schedule.labPeriods : 1;
   };
 
-  private getBatchTypeForYear = (year: 'SE' | 'TE' | 'BE'): 'Morning' | 'Afternoon' => {
+  // A 'yearBatchType' constraint overrides the session the year is configured with
+  private getBatchTypeForYear = (year: AcademicYear): YearSession => {
     if (this.constraints.yearBatchType && this.constraints.yearBatchType[year]) return this.constraints.yearBatchType[year]!;
-    console.warn(`No 'yearBatchType' constraint for ${year}. Defaulting BE->Afternoon, others->Morning.`);
-    return year === 'BE' ? 'Afternoon' : 'Morning';
+    return this.yearConfig?.code === year ? this.yearConfig.session : 'Morning';
   };
 
-  private getLabSlotsForYear = (year: 'SE' | 'TE' | 'BE'): string[] => {
-    const batchType = this.getBatchTypeForYear(year);
-    return batchType === 'Morning' ? this.MORNING_LAB_SLOTS : this.AFTERNOON_LAB_SLOTS;
-  };
+  // The year's lecture periods and lab sessions on the day, from its shift of the bell schedule
+  private getTheorySlotsForYear = (year: AcademicYear, day: string): string[] => lectureTimes(this.schedule, this.getBatchTypeForYear(year), day);
+  private getLabSlotsForYear = (year: AcademicYear, day: string): string[] => labTimes(this.schedule, this.getBatchTypeForYear(year), day);
 
-  private getBatchForLab = (subject: Subject, year: 'SE' | 'TE' | 'BE'): 'A' | 'B' | 'C' => {
-    // (Keep existing implementation)
-    const existingBatches = this.generatedSlots.filter(s => s.subject.includes(subject.name) && s.type === 'lab' && s.year === year).map(s => s.batch).filter(Boolean) as ('A' | 'B' | 'C')[];
-    const batches: ('A' | 'B' | 'C')[] = ['A', 'B', 'C'];
-    const availableBatch = batches.find(batch => !existingBatches.includes(batch));
-    if (!availableBatch) { console.warn(`All batches already scheduled for ${subject.name} lab`); return 'A'; } // Fallback
+  private getBatchForLab = (subject: Subject, year: AcademicYear): Batch | undefined => {
+    const existingBatches = this.generatedSlots.filter(s => s.subject.includes(subject.name) && s.type === 'lab' && s.year === year).map(s => s.batch).filter(Boolean) as Batch[];
+    const availableBatch = this.batches.map(b => b.name).find(batch => !existingBatches.includes(batch));
+    if (!availableBatch) { console.warn(`All batches already scheduled for ${subject.name} lab`); return this.batches[0]?.name; } // Fallback
     return availableBatch;
   };
 
-  private isFacultyAvailable = (name: string, day: string, time: string): boolean => !this.generatedSlots.some(s => s.faculty === name && s.day === day && this.doTimesOverlap(s.time, time));
+  private batchSize = (batch: Batch): number => this.batches.find(b => b.name === batch)?.students ?? 0;
+  private labFitsBatch = (lab: Lab, batch: Batch): boolean => lab.capacity >= this.batchSize(batch);
+  private classSize = (): number => this.yearConfig ? classStrength(this.yearConfig, this.division) : 0;
+  private classroomFitsClass = (classroom: Classroom): boolean => classroom.capacity >= this.classSize();
+  // The smallest of the class's classrooms that seats all of it, leaving bigger rooms for bigger classes
+  private classroomFor = (yearClassrooms: Classroom[]): Classroom | undefined =>
+    yearClassrooms.filter(this.classroomFitsClass).sort((a, b) => a.capacity - b.capacity)[0];
+
+  private isFacultyAvailable = (name: string, day: string, time: string): boolean => !this.takenSlots().some(s => s.faculty === name && s.day === day && this.doTimesOverlap(s.time, time));
   private isBatchAvailable = (year: string, batch: string | undefined, day: string, time: string): boolean => !this.generatedSlots.some(s => s.year === year && (!batch || !s.batch || s.batch === batch) && s.day === day && this.doTimesOverlap(s.time, time));
 
   private getAvailableRooms = (day: string, time: string, type: 'lab' | 'theory'): (Lab | Classroom)[] => {
     const allRooms = type === 'lab' ? this.labs : this.classrooms;
-    const bookedRooms = new Set(this.generatedSlots.filter(s => s.day === day && this.doTimesOverlap(s.time, time)).map(s => s.room));
+    const bookedRooms = new Set(this.takenSlots().filter(s => s.day === day && this.doTimesOverlap(s.time, time)).map(s => s.room));
     return allRooms.filter(room => !bookedRooms.has(room.name));
   };
 
   private hadConsecutiveLabForBatch = (year: string, batch: string, day: string, time: string): boolean => {
-    const labSlots = this.getLabSlotsForYear(year as 'SE' | 'TE' | 'BE');
+    const labSlots = this.getLabSlotsForYear(year, day);
     const timeIndex = labSlots.indexOf(time); 
     if (timeIndex <= 0) return false; 
     const previousTime = labSlots[timeIndex - 1]; 
     return this.generatedSlots.some(s => s.type === 'lab' && s.year === year && s.batch === batch && s.day === day && s.time === previousTime);
   };
   private hadConsecutiveLabForFaculty = (name: string, day: string, time: string): boolean => {
-    // For faculty consecutive check, we need to check against all possible lab slots
-    const allLabSlots = [...this.MORNING_LAB_SLOTS, ...this.AFTERNOON_LAB_SLOTS];
+    // For faculty consecutive check, we need to check against every shift's lab sessions that day
+    const allLabSlots = allLabTimes(this.schedule, day);
     const timeIndex = allLabSlots.indexOf(time); 
     if (timeIndex <= 0) return false; 
     const previousTime = allLabSlots[timeIndex - 1]; 
@@ -791,18 +884,17 @@ export class AITimetableGenerator {
   };
 
   private wasPreviousSlotSameSubject = (subject: Subject, year: string, day: string, time: string): boolean => {
-    const currentIndex = this.ALL_THEORY_SLOTS.indexOf(time); if (currentIndex <= 0) return false; const previousTime = this.ALL_THEORY_SLOTS[currentIndex - 1]; return this.generatedSlots.some(s => s.year === year && s.day === day && s.subject === subject.name && s.type === 'theory' && s.time === previousTime);
+    const dayTimes = allLectureTimes(this.schedule, day); const currentIndex = dayTimes.indexOf(time); if (currentIndex <= 0) return false; const previousTime = dayTimes[currentIndex - 1]; return this.generatedSlots.some(s => s.year === year && s.day === day && s.subject === subject.name && s.type === 'theory' && s.time === previousTime);
   };
 
   private hasLabAlreadyOccurredTodayForBatch = (year: string, batch: string, day: string): boolean => this.generatedSlots.some(s => s.type === 'lab' && s.day === day && s.year === year && s.batch === batch);
 
-  private doTimesOverlap = (time1: string, time2: string): boolean => {
-    try { const [start1, end1] = time1.split('-').map(t => parseInt(t.replace(':', ''), 10)); const [start2, end2] = time2.split('-').map(t => parseInt(t.replace(':', ''), 10)); return Math.max(start1, start2) < Math.min(end1, end2); } catch (e) { console.error(`Error parsing times: ${time1}, ${time2}`, e); return true; }
-  };
+  // Unreadable times count as overlapping, so nothing gets double-booked
+  private doTimesOverlap = (time1: string, time2: string): boolean => timesOverlap(time1, time2);
 
   // Add this method inside the AITimetableGenerator class
 
-  private optimizeDistribution(targetYear: 'SE' | 'TE' | 'BE'): void {
+  private optimizeDistribution(targetYear: AcademicYear): void {
     console.log(`Optimizing daily subject distribution for ${targetYear}...`);
     let swapsMade = 0;
     const maxSwaps = 20; // Limit iterations to prevent infinite loops
@@ -814,13 +906,14 @@ export class AITimetableGenerator {
 
       // Group slots by day
       const slotsByDay: { [key: string]: ExtendedTimetableSlot[] } = {};
-      this.DAYS.forEach(day => {
+      this.days.forEach(day => {
+        const dayTimes = allLectureTimes(this.schedule, day);
         slotsByDay[day] = yearTheorySlots.filter(s => s.day === day)
-          .sort((a, b) => this.ALL_THEORY_SLOTS.indexOf(a.time) - this.ALL_THEORY_SLOTS.indexOf(b.time));
+          .sort((a, b) => dayTimes.indexOf(a.time) - dayTimes.indexOf(b.time));
       });
 
       // Find days with duplicate theory subjects
-      for (const day of this.DAYS) {
+      for (const day of this.days) {
         if (swapOccurredInIteration) break; // Move to next iteration if swap happened
 
         const dailySlots = slotsByDay[day];
@@ -846,7 +939,7 @@ export class AITimetableGenerator {
           const slotToMove = dailySlots[slotToMoveIndex];
 
           // Find a target day and slot to swap with
-          for (const targetDay of this.DAYS) {
+          for (const targetDay of this.days) {
             if (targetDay === day || swapOccurredInIteration) continue;
 
             const targetDailySlots = slotsByDay[targetDay];
@@ -935,12 +1028,13 @@ export class AITimetableGenerator {
   };
 
   // Helper to check if placing a subject would create a consecutive conflict
-  private wouldCreateConsecutive = (subjectName: string, year: 'SE' | 'TE' | 'BE', day: string, time: string, excludeSlotId: string): boolean => {
-    const timeIndex = this.ALL_THEORY_SLOTS.indexOf(time);
+  private wouldCreateConsecutive = (subjectName: string, year: AcademicYear, day: string, time: string, excludeSlotId: string): boolean => {
+    const dayTimes = allLectureTimes(this.schedule, day);
+    const timeIndex = dayTimes.indexOf(time);
     if (timeIndex === -1) return false; // Should not happen
 
-    const previousTime = timeIndex > 0 ? this.ALL_THEORY_SLOTS[timeIndex - 1] : null;
-    const nextTime = timeIndex < this.ALL_THEORY_SLOTS.length - 1 ? this.ALL_THEORY_SLOTS[timeIndex + 1] : null;
+    const previousTime = timeIndex > 0 ? dayTimes[timeIndex - 1] : null;
+    const nextTime = timeIndex < dayTimes.length - 1 ? dayTimes[timeIndex + 1] : null;
 
     // Check if the slot *before* has the same subject
     if (previousTime) {
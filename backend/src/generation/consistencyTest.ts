@@ -1,5 +1,5 @@
 import { AITimetableGenerator } from './aiTimetableGenerator';
-import { Subject, Faculty, Classroom, Lab, TimetableConstraints } from '../types/timetable';
+import { Subject, Faculty, Classroom, Lab, TimetableConstraints, AcademicYearConfig } from '@timetable/shared';
 
 /**
  * Test utility to verify consistent timetable generation
@@ -34,8 +34,8 @@ export class ConsistencyTest {
       testData.constraints
     );
     
-    const result1 = await generator1.generateTimetable('SE', 3);
-    const result2 = await generator2.generateTimetable('SE', 3);
+    const result1 = await generator1.generateTimetable(testData.year, 3);
+    const result2 = await generator2.generateTimetable(testData.year, 3);
     
     // Compare consistency hashes
     const hash1 = result1.generationStats.consistencyHash;
@@ -75,6 +75,7 @@ export class ConsistencyTest {
     classrooms: Classroom[];
     labs: Lab[];
     constraints: TimetableConstraints;
+    year: AcademicYearConfig;
   } {
     const subjects: Subject[] = [
       {
@@ -162,7 +163,7 @@ export class ConsistencyTest {
         type: 'Computer Lab',
         equipment: ['Computers', 'Network Equipment'],
         floor: 1,
-        availableHours: ['1:15-3:15', '3:15-5:15'],
+        availableHours: ['13:05-14:55', '15:05-16:55'],
         compatibleSubjects: ['DS', 'DB', 'CN']
       }
     ];
@@ -176,7 +177,22 @@ export class ConsistencyTest {
       facultyRestSlots: 1
     };
     
-    return { subjects, faculty, classrooms, labs, constraints };
+    const year: AcademicYearConfig = {
+      id: 'year-se',
+      code: 'SE',
+      label: 'Second Year',
+      program: 'B.E.',
+      order: 2,
+      divisions: [],
+      batches: [
+        { name: 'A', students: 20 },
+        { name: 'B', students: 20 },
+        { name: 'C', students: 20 }
+      ],
+      session: 'Morning'
+    };
+    
+    return { subjects, faculty, classrooms, labs, constraints, year };
   }
   
   /**
@@ -1,4 +1,5 @@
-import { Subject, Faculty, TimetableSlot, Conflict } from '../types/timetable';
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, Conflict, AcademicYearConfig, BellSchedule, DAYS, DEFAULT_BELL_SCHEDULE, allLabTimes, dayWeight, sessionStrength, startMinutes, workingDaysOf } from '@timetable/shared';
+import { findSlotFaculty, findSlotRoom, isSameFaculty, isSameRoom } from './slotReferences';
 
 export interface ConstraintRule {
   id: string;
@@ -12,7 +13,9 @@ export interface ConstraintRule {
 export class ConstraintSolver {
   private rules: ConstraintRule[] = [];
 
-  constructor() {
+  // Lab sessions are adjacent when they follow each other in the schedule's lab blocks,
+  // and slots may only fall on the schedule's working days
+  constructor(private readonly schedule: Omit<BellSchedule, 'id'> = DEFAULT_BELL_SCHEDULE) {
     this.initializeDefaultRules();
   }
 
@@ -25,7 +28,7 @@ export class ConstraintSolver {
       weight: 100,
       validate: (slot, allSlots) => {
         return !allSlots.some(existing => 
-          existing.faculty === slot.faculty &&
+          isSameFaculty(existing, slot) &&
           existing.day === slot.day &&
           existing.time === slot.time &&
           existing.id !== slot.id
@@ -41,7 +44,7 @@ export class ConstraintSolver {
       weight: 100,
       validate: (slot, allSlots) => {
         return !allSlots.some(existing => 
-          existing.room === slot.room &&
+          isSameRoom(existing, slot) &&
           existing.day === slot.day &&
           existing.time === slot.time &&
           existing.id !== slot.id
@@ -56,15 +59,42 @@ export class ConstraintSolver {
       type: 'hard',
       weight: 100,
       validate: (slot, allSlots) => {
+        // Divisions of a year are separate classes, so only the same division clashes
         return !allSlots.some(existing => 
           existing.year === slot.year &&
+          (existing.division ?? null) === (slot.division ?? null) &&
           existing.batch === slot.batch &&
           existing.day === slot.day &&
           existing.time === slot.time &&
           existing.id !== slot.id
         );
       },
-      getMessage: (slot) => `Students have conflicting classes at ${slot.time} on ${slot.day}`
+      getMessage: (slot) => `Students of ${slot.division ? `${slot.year}-${slot.division}` : slot.year} have conflicting classes at ${slot.time} on ${slot.day}`
+    });
+
+    this.rules.push({
+      id: 'working-days',
+      name: 'Classes On Working Days',
+      type: 'hard',
+      weight: 100,
+      validate: (slot, _allSlots, context) => {
+        const year = context.years?.find((config: AcademicYearConfig) => config.code === slot.year);
+        return dayWeight(workingDaysOf(this.schedule, year), slot.day) > 0;
+      },
+      getMessage: (slot) => `${slot.subject} is scheduled on ${slot.day}, which is not a working day for ${slot.year}`
+    });
+
+    this.rules.push({
+      id: 'room-capacity',
+      name: 'Room Seats Its Students',
+      type: 'hard',
+      weight: 100,
+      validate: (slot, _allSlots, context) => {
+        const room = findSlotRoom(context.classrooms ?? [], context.labs ?? [], slot);
+        const year = context.years?.find((config: AcademicYearConfig) => config.code === slot.year);
+        return !room || !year || room.capacity >= sessionStrength(year, slot);
+      },
+      getMessage: (slot) => `Room ${slot.room} has fewer seats than the students of ${[slot.year, slot.division, slot.batch].filter(Boolean).join('-')}`
     });
 
     // Soft constraints (preferences)
@@ -74,11 +104,11 @@ export class ConstraintSolver {
       type: 'soft',
       weight: 80,
       validate: (slot, allSlots, context) => {
-        const faculty = context.faculty.find((f: Faculty) => f.name === slot.faculty);
+        const faculty = findSlotFaculty(context.faculty, slot);
         if (!faculty) return true;
 
         const dailyHours = allSlots
-          .filter(s => s.faculty === slot.faculty && s.day === slot.day)
+          .filter(s => isSameFaculty(s, slot) && s.day === slot.day)
           .reduce((sum, s) => sum + s.duration, 0);
 
         return dailyHours <= faculty.maxHoursPerDay;
@@ -94,7 +124,7 @@ export class ConstraintSolver {
       validate: (slot, allSlots) => {
         if (slot.type !== 'lab') return true;
 
-        const timeSlots = ['1:15-3:15', '3:15-5:15'];
+        const timeSlots = allLabTimes(this.schedule, slot.day);
         const currentIndex = timeSlots.indexOf(slot.time);
         
         if (currentIndex === -1) return true;
@@ -106,7 +136,7 @@ export class ConstraintSolver {
         ].filter(Boolean);
 
         return !allSlots.some(existing => 
-          existing.faculty === slot.faculty &&
+          isSameFaculty(existing, slot) &&
           existing.day === slot.day &&
           existing.type === 'lab' &&
           adjacentTimes.includes(existing.time) &&
@@ -123,8 +153,7 @@ export class ConstraintSolver {
       weight: 60,
       validate: (slot) => {
         if (slot.type !== 'lab') return true;
-        const hour = parseInt(slot.time.split(':')[0]);
-        return hour >= 13; // 1 PM or later
+        return startMinutes(slot.time) >= 13 * 60; // 1 PM or later
       },
       getMessage: (slot) => `Lab session ${slot.subject} scheduled in morning hours`
     });
@@ -135,10 +164,10 @@ export class ConstraintSolver {
       type: 'soft',
       weight: 50,
       validate: (slot, allSlots, context) => {
-        const faculty = context.faculty.find((f: Faculty) => f.name === slot.faculty);
+        const faculty = findSlotFaculty(context.faculty, slot);
         if (!faculty || faculty.preferredSlots.length === 0) return true;
 
-        const hour = parseInt(slot.time.split(':')[0]);
+        const hour = Math.floor(startMinutes(slot.time) / 60);
         const isPreferred = faculty.preferredSlots.some(pref => {
           if (pref.includes('Morning') && hour >= 8 && hour < 12) return true;
           if (pref.includes('Afternoon') && hour >= 12 && hour < 17) return true;
@@ -154,7 +183,7 @@ export class ConstraintSolver {
 
   public validateTimetable(
     slots: TimetableSlot[], 
-    context: { subjects: Subject[]; faculty: Faculty[] }
+    context: { subjects: Subject[]; faculty: Faculty[]; years?: AcademicYearConfig[]; classrooms?: Classroom[]; labs?: Lab[] }
   ): { isValid: boolean; conflicts: Conflict[]; score: number } {
     const conflicts: Conflict[] = [];
     let score = 0;
@@ -202,7 +231,7 @@ export class ConstraintSolver {
 
   public getOptimizationSuggestions(
     slots: TimetableSlot[],
-    context: { subjects: Subject[]; faculty: Faculty[] }
+    context: { subjects: Subject[]; faculty: Faculty[]; years?: AcademicYearConfig[] }
   ): string[] {
     const suggestions: string[] = [];
     
@@ -233,16 +262,24 @@ export class ConstraintSolver {
     });
 
     // Check lab utilization
-    const labUtilization = new Map<string, number>();
+    const labSlots = new Map<string, TimetableSlot[]>();
     
     slots.filter(s => s.type === 'lab').forEach(slot => {
-      labUtilization.set(slot.room, (labUtilization.get(slot.room) || 0) + 1);
+      labSlots.set(slot.room, [...(labSlots.get(slot.room) || []), slot]);
     });
 
-    const totalLabSlots = 5 * 2; // 5 days × 2 afternoon slots
-    const averageUtilization = Array.from(labUtilization.values()).reduce((sum, count) => sum + count, 0) / labUtilization.size;
+    // Lab sessions a room can hold in an average week, on the days the years booking it are
+    // taught; alternate-week days count half
+    const labCapacity = (booked: TimetableSlot[]): number => {
+      const workingDays = [...new Set(booked.map(slot => slot.year))]
+        .map(code => workingDaysOf(this.schedule, context.years?.find(year => year.code === code)));
+      return DAYS.reduce((sum, day) =>
+        sum + Math.max(...workingDays.map(days => dayWeight(days, day))) * allLabTimes(this.schedule, day).length, 0);
+    };
+    const utilizations = Array.from(labSlots.values()).map(booked => booked.length / (labCapacity(booked) || 1));
+    const averageUtilization = utilizations.reduce((sum, utilization) => sum + utilization, 0) / utilizations.length;
     
-    if (averageUtilization < totalLabSlots * 0.7) {
+    if (averageUtilization < 0.7) {
       suggestions.push('Lab utilization is below optimal - consider adding more lab sessions or reducing lab inventory');
     }
 
@@ -1,5 +1,5 @@
 import { AITimetableGenerator } from './aiTimetableGenerator';
-import { Subject, Faculty, Classroom, Lab, TimetableConstraints } from '../types/timetable';
+import { Subject, Faculty, Classroom, Lab, TimetableConstraints, AcademicYearConfig, DAYS, DEFAULT_BELL_SCHEDULE, allLectureTimes } from '@timetable/shared';
 
 /**
  * Test utility to verify constraint enforcement
@@ -26,7 +26,7 @@ export class ConstraintTest {
       testData.constraints
     );
     
-    const result = await generator.generateTimetable('SE', 3);
+    const result = await generator.generateTimetable(testData.year, 3);
     
     // Check for constraint violations
     const theoryCounts = new Map<string, number>();
@@ -69,10 +69,9 @@ export class ConstraintTest {
     slotsBySubject.forEach((slots, subject) => {
       const theorySlots = slots.filter(s => s.type === 'theory');
       const sortedSlots = theorySlots.sort((a, b) => {
-        const dayOrder = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
-        const dayDiff = dayOrder.indexOf(a.day) - dayOrder.indexOf(b.day);
+        const dayDiff = DAYS.indexOf(a.day) - DAYS.indexOf(b.day);
         if (dayDiff !== 0) return dayDiff;
-        const timeOrder = ['8:00-9:00', '9:00-10:00', '10:15-11:15', '11:15-12:15', '1:15-2:15', '2:15-3:15', '3:15-4:15', '4:15-5:15'];
+        const timeOrder = allLectureTimes(DEFAULT_BELL_SCHEDULE, a.day);
         return timeOrder.indexOf(a.time) - timeOrder.indexOf(b.time);
       });
       
@@ -81,7 +80,7 @@ export class ConstraintTest {
         const next = sortedSlots[i + 1];
         
         if (current.day === next.day) {
-          const timeOrder = ['8:00-9:00', '9:00-10:00', '10:15-11:15', '11:15-12:15', '1:15-2:15', '2:15-3:15', '3:15-4:15', '4:15-5:15'];
+          const timeOrder = allLectureTimes(DEFAULT_BELL_SCHEDULE, current.day);
           const currentIndex = timeOrder.indexOf(current.time);
           const nextIndex = timeOrder.indexOf(next.time);
           
@@ -123,6 +122,7 @@ export class ConstraintTest {
     classrooms: Classroom[];
     labs: Lab[];
     constraints: TimetableConstraints;
+    year: AcademicYearConfig;
   } {
     const subjects: Subject[] = [
       {
@@ -270,7 +270,7 @@ export class ConstraintTest {
         type: 'Computer Lab',
         equipment: ['Computers', 'Network Equipment'],
         floor: 3,
-        availableHours: ['1:15-3:15', '3:15-5:15'],
+        availableHours: ['13:05-14:55', '15:05-16:55'],
         compatibleSubjects: ['DBMS', 'COA', 'AI', 'PBL', 'DSA', 'IoT']
       },
       {
@@ -280,7 +280,7 @@ export class ConstraintTest {
         type: 'Computer Lab',
         equipment: ['Computers', 'Network Equipment'],
         floor: 3,
-        availableHours: ['1:15-3:15', '3:15-5:15'],
+        availableHours: ['13:05-14:55', '15:05-16:55'],
         compatibleSubjects: ['DBMS', 'COA', 'AI', 'PBL', 'DSA', 'IoT']
       }
     ];
@@ -294,7 +294,22 @@ export class ConstraintTest {
       facultyRestSlots: 1
     };
     
-    return { subjects, faculty, classrooms, labs, constraints };
+    const year: AcademicYearConfig = {
+      id: 'year-se',
+      code: 'SE',
+      label: 'Second Year',
+      program: 'B.E.',
+      order: 2,
+      divisions: [],
+      batches: [
+        { name: 'A', students: 20 },
+        { name: 'B', students: 20 },
+        { name: 'C', students: 20 }
+      ],
+      session: 'Morning'
+    };
+    
+    return { subjects, faculty, classrooms, labs, constraints, year };
   }
   
   /**
@@ -1,14 +1,17 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Subject, Faculty, Classroom, Lab, TimetableSlot, TimetableConstraints } from '../types/timetable';
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, TimetableConstraints, AcademicYear, Batch, BatchConfig, BellPeriod, BellSchedule, labTimesIn, periodTime } from '@timetable/shared';
 import { GEMINI_CONFIG } from '../config/gemini';
-import CryptoJS from 'crypto-js';
-
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(GEMINI_CONFIG.API_KEY);
-const model = genAI.getGenerativeModel({ 
-  model: GEMINI_CONFIG.MODEL_NAME,
-  generationConfig: GEMINI_CONFIG.GENERATION_CONFIG
-});
+import { createHash } from 'crypto';
+
+// Created on first use, once the environment (and the API key) is loaded
+let model: GenerativeModel | null = null;
+const getModel = (): GenerativeModel => {
+  model ??= new GoogleGenerativeAI(GEMINI_CONFIG.API_KEY).getGenerativeModel({
+    model: GEMINI_CONFIG.MODEL_NAME,
+    generationConfig: GEMINI_CONFIG.GENERATION_CONFIG
+  });
+  return model;
+};
 
 export interface ConstraintAnalysisResult {
   isValid: boolean;
@@ -28,7 +31,7 @@ export interface ConstraintAnalysisResult {
     time: string;
     room: string;
     type: 'theory' | 'lab';
-    batch?: 'A' | 'B' | 'C';
+    batch?: Batch;
     confidence: number;
     reasoning: string;
   }>;
@@ -41,10 +44,29 @@ export interface TimetableContext {
   labs: Lab[];
   constraints: TimetableConstraints;
   existingSlots: TimetableSlot[];
-  targetYear: 'SE' | 'TE' | 'BE';
+  targetYear: AcademicYear;
+  targetDivision?: string;
   targetSemester: number;
+  batches: BatchConfig[]; // the target class's lab batches
+  classStrength: number; // the target class's students; 0 when unknown
+  bellSchedule: Omit<BellSchedule, 'id'>; // the department's periods
+  days: string[]; // the days the target year is taught, weekly ones first
+  alternateDays: string[]; // those of them held on alternate weeks only
 }
 
+// One block of the AVAILABLE TIME SLOTS prompt section
+const describePeriods = (heading: string, periods: BellPeriod[], labPeriods: number): string => [
+  `${heading}:`,
+  `- Theory: ${periods.filter(p => p.kind === 'lecture').map(periodTime).join(', ') || 'none'}`,
+  `- Labs (${labPeriods} periods each): ${labTimesIn(periods, labPeriods).join(', ') || 'none'}`,
+  `- Breaks: ${periods.filter(p => p.kind !== 'lecture').map(periodTime).join(', ') || 'none'}`
+].join('\n');
+
+const describeBellSchedule = ({ shifts, dayVariations, labPeriods }: Omit<BellSchedule, 'id'>): string => [
+  ...shifts.map(shift => describePeriods(`${shift.session} Batch`, shift.periods, labPeriods)),
+  ...dayVariations.map(variation => describePeriods(`${variation.session} Batch on ${variation.day}`, variation.periods, labPeriods))
+].join('\n\n');
+
 export class GeminiConstraintAnalyzer {
   private static instance: GeminiConstraintAnalyzer;
   private cache: Map<string, ConstraintAnalysisResult> = new Map();
@@ -65,14 +87,20 @@ export class GeminiConstraintAnalyzer {
     const contextString = JSON.stringify({
       subjects: context.subjects.map(s => ({ id: s.id, name: s.name, code: s.code, year: s.year, theoryHours: s.theoryHours, labHours: s.labHours, faculty: s.faculty, semester: s.semester })),
       faculty: context.faculty.map(f => ({ id: f.id, name: f.name, department: f.department, subjects: f.subjects, maxHoursPerDay: f.maxHoursPerDay, preferredSlots: f.preferredSlots })),
-      classrooms: context.classrooms.map(c => ({ id: c.id, name: c.name, capacity: c.capacity, assignedYear: c.assignedYear })),
+      classrooms: context.classrooms.map(c => ({ id: c.id, name: c.name, capacity: c.capacity, assignedYear: c.assignedYear, assignedDivision: c.assignedDivision })),
       labs: context.labs.map(l => ({ id: l.id, name: l.name, capacity: l.capacity, type: l.type, compatibleSubjects: l.compatibleSubjects })),
       constraints: context.constraints,
       targetYear: context.targetYear,
+      targetDivision: context.targetDivision,
       targetSemester: context.targetSemester,
+      batches: context.batches,
+      classStrength: context.classStrength,
+      bellSchedule: context.bellSchedule,
+      days: context.days,
+      alternateDays: context.alternateDays,
       existingSlots: context.existingSlots.map(s => ({ id: s.id, day: s.day, time: s.time, subject: s.subject, faculty: s.faculty, room: s.room, type: s.type, year: s.year, batch: s.batch, duration: s.duration, semester: s.semester }))
     });
-    return CryptoJS.SHA256(contextString).toString();
+    return createHash('sha256').update(contextString).digest('hex');
   }
 
   /**
@@ -87,9 +115,14 @@ export class GeminiConstraintAnalyzer {
       return this.cache.get(contextHash)!;
     }
 
+    if (!GEMINI_CONFIG.API_KEY) {
+      console.warn('GEMINI_API_KEY is not set, using fallback constraint analysis');
+      return this.getFallbackAnalysis(context);
+    }
+
     try {
       const prompt = this.buildAnalysisPrompt(context);
-      const result = await model.generateContent(prompt);
+      const result = await getModel().generateContent(prompt);
       const response = await result.response;
       const text = response.text();
       
@@ -112,19 +145,20 @@ export class GeminiConstraintAnalyzer {
    * Build comprehensive prompt for constraint analysis
    */
   private buildAnalysisPrompt(context: TimetableContext): string {
-    const { subjects, faculty, classrooms, labs, constraints, existingSlots, targetYear, targetSemester } = context;
+    const { subjects, faculty, labs, constraints, existingSlots, targetYear, targetDivision, targetSemester, batches, classStrength, bellSchedule, days, alternateDays } = context;
+    const batchNames = batches.map(batch => batch.name).join(', ');
     
     const relevantSubjects = subjects.filter(s => s.year === targetYear && s.semester === targetSemester);
     const relevantFaculty = faculty.filter(f => 
       relevantSubjects.some(s => f.subjects.includes(s.code) || f.name === (typeof s.faculty === 'object' ? s.faculty.name : s.faculty))
     );
-    const yearClassrooms = classrooms.filter(c => c.assignedYear === targetYear);
+    const yearClassrooms = this.classroomsFor(context);
 
     return `
 You are an expert timetable optimization AI. Analyze the following academic timetable constraints and provide intelligent recommendations for generating a consistent, optimal timetable.
 
 CONTEXT:
-- Target: ${targetYear} Year, Semester ${targetSemester}
+- Target: ${targetYear} Year${targetDivision ? `, Division ${targetDivision}` : ''}, Semester ${targetSemester}
 - Total subjects to schedule: ${relevantSubjects.length}
 - Available faculty: ${relevantFaculty.length}
 - Available classrooms: ${yearClassrooms.length}
@@ -138,8 +172,10 @@ FACULTY CONSTRAINTS:
 ${relevantFaculty.map(f => `- ${f.name}: Max ${f.maxHoursPerDay}h/day, Preferred: ${f.preferredSlots.join(', ') || 'No preference'}, Subjects: ${f.subjects.join(', ')}`).join('\n')}
 
 INFRASTRUCTURE:
+Class strength: ${classStrength || 'unknown'} students
 Classrooms: ${yearClassrooms.map(c => `${c.name} (${c.capacity} seats)`).join(', ')}
 Labs: ${labs.map(l => `${l.name} (${l.type}, ${l.capacity} seats)`).join(', ')}
+Lab batches: ${batches.map(b => `${b.name} (${b.students} students)`).join(', ') || 'none'}
 
 CONSTRAINTS:
 - Max hours per day: ${constraints.maxHoursPerDay}
@@ -152,18 +188,10 @@ CONSTRAINTS:
 EXISTING SCHEDULE:
 ${existingSlots.map(s => `- ${s.day} ${s.time}: ${s.subject} (${s.faculty}) in ${s.room} [${s.type}]`).join('\n')}
 
-AVAILABLE TIME SLOTS:
-Morning Batch (8:10-2:55):
-- Theory: 8:10-10:10 (2 hours), 10:25-12:15 (1h 50m), 1:05-2:55 (1h 50m)
-- Labs: 8:10-10:10, 10:25-12:15, 1:05-2:55
+AVAILABLE TIME SLOTS (24-hour times; use them exactly as written):
+${describeBellSchedule(bellSchedule)}
 
-Afternoon Batch (3:05-4:55):
-- Theory: 3:05-4:55 (1h 50m)
-- Labs: 3:05-4:55
-
-Breaks: 10:10-10:25, 12:15-1:05, 2:55-3:05
-
-DAYS: Monday, Tuesday, Wednesday, Thursday, Friday, Saturday
+DAYS: ${days.join(', ')}${alternateDays.length > 0 ? `\nALTERNATE-WEEK DAYS: ${alternateDays.join(', ')} (held every other week; place sessions there only when the other days are full)` : ''}
 
 CRITICAL CONSTRAINTS (MUST BE ENFORCED - VIOLATIONS WILL CAUSE GENERATION FAILURE):
 1. MAXIMUM 3 THEORY LECTURES PER SUBJECT PER WEEK - NO EXCEPTIONS
@@ -176,16 +204,18 @@ CRITICAL CONSTRAINTS (MUST BE ENFORCED - VIOLATIONS WILL CAUSE GENERATION FAILUR
 
 3. LAB SESSIONS: Each subject's lab should be scheduled EXACTLY ONCE per batch per week
    - Example: DBMS Lab for Batch A should appear only ONCE in the week
-   - Each lab subject must have sessions for ALL THREE BATCHES (A, B, C)
+   - Each lab subject must have sessions for EVERY BATCH (${batchNames})
 
-4. ALL BATCHES (A, B, C) MUST BE SCHEDULED for lab subjects
-   - If a subject has lab hours, it must have sessions for Batch A, Batch B, AND Batch C
+4. ALL BATCHES (${batchNames}) MUST BE SCHEDULED for lab subjects
+   - If a subject has lab hours, it must have a session for each of them
    - Missing any batch is INVALID
+   - A batch may only use a lab with at least as many seats as it has students
 
 5. NO DOUBLE BOOKING of faculty, rooms, or students
    - Same faculty cannot teach two classes at the same time
    - Same room cannot be used for two classes at the same time
    - Same student batch cannot have two classes at the same time
+   - A theory lecture may only use a classroom with at least as many seats as the class has students
 
 ANALYSIS REQUIREMENTS:
 1. Identify all constraint violations and conflicts
@@ -214,7 +244,7 @@ RESPONSE FORMAT (JSON):
     {
       "subject": "subject name",
       "faculty": "faculty name",
-      "day": "Monday|Tuesday|Wednesday|Thursday|Friday",
+      "day": "${days.join('|')}",
       "time": "time slot",
       "room": "room name",
       "type": "theory|lab",
@@ -258,7 +288,7 @@ Provide a comprehensive analysis focusing on:
         recommendedSlots: Array.isArray(parsed.recommendedSlots) ? parsed.recommendedSlots.map((s: any) => ({
           subject: String(s.subject || ''),
           faculty: String(s.faculty || ''),
-          day: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'].includes(s.day) ? s.day : 'Monday',
+          day: context.days.includes(s.day) ? s.day : context.days[0],
           time: String(s.time || ''),
           room: String(s.room || ''),
           type: ['theory', 'lab'].includes(s.type) ? s.type : 'theory',
@@ -272,13 +302,20 @@ Provide a comprehensive analysis focusing on:
     }
   }
 
+  /**
+   * Classrooms of the target year, other than those kept for another of its divisions
+   */
+  private classroomsFor({ classrooms, targetYear, targetDivision }: TimetableContext): Classroom[] {
+    return classrooms.filter(c => c.assignedYear === targetYear && (!c.assignedDivision || c.assignedDivision === targetDivision));
+  }
+
   /**
    * Fallback analysis when AI is unavailable
    */
   private getFallbackAnalysis(context: TimetableContext): ConstraintAnalysisResult {
-    const { subjects, classrooms, targetYear, targetSemester } = context;
+    const { subjects, targetYear, targetSemester } = context;
     const relevantSubjects = subjects.filter(s => s.year === targetYear && s.semester === targetSemester);
-    const yearClassrooms = classrooms.filter(c => c.assignedYear === targetYear);
+    const yearClassrooms = this.classroomsFor(context);
 
     const conflicts = [];
     
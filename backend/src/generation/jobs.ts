@@ -0,0 +1,228 @@
+import { randomUUID } from "crypto";
+import { AcademicYear as AcademicYearCode, TimetableConstraints } from "@timetable/shared";
+import Subject from "../models/Subject";
+import Faculty from "../models/Faculty";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import AcademicYear from "../models/AcademicYear";
+import TimetableSlot from "../models/TimetableSlot";
+import { AIGenerationResult, AITimetableGenerator } from "./aiTimetableGenerator";
+import { bookableBy } from "../utils/departments";
+import { resolveSlotReferences, slotReferencePopulate } from "../utils/slotReferences";
+import { loadBellSchedule } from "../utils/bellSchedules";
+import { findSlotConflicts } from "../utils/slotConflicts";
+import { TimetableDocument, saveVersion } from "../utils/timetableVersions";
+
+export type GenerationJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface GenerationStep {
+  step: string;
+  progress: number; // 0-100
+  at: Date;
+}
+
+// The version a completed run was saved as. It is live unless it clashed with other live timetables.
+export interface SavedGenerationVersion {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+// What clients poll. The generated timetable itself is fetched separately once completed.
+// The server saves it as a version, so closing the page doesn't lose it.
+export interface GenerationJob {
+  id: string;
+  department: string; // Department id; jobs are only visible within it
+  year: AcademicYearCode;
+  division?: string; // set for years with divisions
+  semester: number;
+  constraints: TimetableConstraints; // what the run was started with, needed to save its result
+  status: GenerationJobStatus;
+  progress: number;
+  step: string;
+  steps: GenerationStep[];
+  error?: string;
+  version?: SavedGenerationVersion; // set once completed
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+interface JobEntry {
+  job: GenerationJob;
+  controller: AbortController;
+  result?: AIGenerationResult;
+  onSaved?: (version: TimetableDocument) => Promise<void>; // e.g. to audit the save
+}
+
+// Jobs live in memory: a restart drops them, like any other in-flight request
+const jobs = new Map<string, JobEntry>();
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000; // results stay retrievable for an hour
+
+const isFinished = (job: GenerationJob) => job.status !== "queued" && job.status !== "running";
+
+const pruneFinishedJobs = () => {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, { job }] of jobs) {
+    if (job.finishedAt && job.finishedAt.getTime() < cutoff) jobs.delete(id);
+  }
+};
+
+// A department's master data in the shape the API returns it, which is what the generator
+// expects. Shared classrooms and labs are included. Saved slots of other classes that hold
+// this department's faculty or rooms are passed as booked, so the run works around them;
+// anything else is caught by the conflict check when the result is saved.
+const loadGeneratorInput = async ({ department, year, division, semester }: GenerationJob) => {
+  const asRecords = (docs: unknown[]) => docs.map(doc => {
+    const record = JSON.parse(JSON.stringify(doc));
+    return { ...record, id: record._id };
+  });
+  const [subjects, faculty, classrooms, labs, yearConfig, bellSchedule] = await Promise.all([
+    Subject.find({ department }).populate("faculty", "name email department"),
+    Faculty.find({ department }),
+    Classroom.find(bookableBy(department)),
+    Lab.find(bookableBy(department)),
+    AcademicYear.findOne({ department, code: year }),
+    loadBellSchedule(department)
+  ]);
+  const bookedSlots = await TimetableSlot.find({
+    $nor: [{ department, year, division: division ?? null, semester }],
+    $or: [
+      { facultyId: { $in: faculty.map(member => member._id) } },
+      { roomId: { $in: classrooms.map(room => room._id) } },
+      { labId: { $in: labs.map(lab => lab._id) } }
+    ]
+  }).populate(slotReferencePopulate());
+  return {
+    subjects: asRecords(subjects),
+    faculty: asRecords(faculty),
+    classrooms: asRecords(classrooms),
+    labs: asRecords(labs),
+    yearConfig: yearConfig && asRecords([yearConfig])[0],
+    bookedSlots: asRecords(bookedSlots),
+    bellSchedule: asRecords([bellSchedule])[0]
+  };
+};
+
+const recordStep = (job: GenerationJob, step: string, progress: number) => {
+  job.step = step;
+  job.progress = progress;
+  job.updatedAt = new Date();
+  job.steps.push({ step, progress, at: job.updatedAt });
+};
+
+// Saves the result as the next version and makes it live if it doesn't clash with other
+// live timetables; a clashing one is kept inactive for the user to review
+const saveResult = async ({ department, year, division, semester, constraints }: GenerationJob, result: AIGenerationResult) => {
+  const slots = await resolveSlotReferences(result.slots.map(slot => ({ ...slot, year, division, semester })), department);
+  const conflicts = await findSlotConflicts(slots, { department, year, division: division ?? null, semester });
+  return saveVersion({ department, year, division, semester, slots, constraints }, conflicts.length === 0);
+};
+
+const runJob = async (entry: JobEntry) => {
+  const { job, controller } = entry;
+  try {
+    controller.signal.throwIfAborted(); // cancelled while queued
+    job.status = "running";
+    recordStep(job, "Loading configuration data...", 5);
+    const { subjects, faculty, classrooms, labs, yearConfig, bookedSlots, bellSchedule } = await loadGeneratorInput(job);
+    if (!yearConfig) throw new Error(`Year ${job.year} is no longer configured.`);
+    if (subjects.length === 0) throw new Error("No subjects found in the database.");
+    if (classrooms.length === 0) throw new Error("No classrooms found in the database.");
+
+    const generator = new AITimetableGenerator(subjects, faculty, classrooms, labs, job.constraints);
+    const result = await generator.generateTimetable(yearConfig, job.semester, {
+      signal: controller.signal,
+      division: job.division,
+      bookedSlots,
+      bellSchedule,
+      onProgress: async (step, progress) => {
+        recordStep(job, step, progress);
+        // Let status polls and cancel requests through between steps
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    });
+    controller.signal.throwIfAborted();
+
+    recordStep(job, "Saving timetable to database...", 95);
+    const version = await saveResult(job, result);
+    entry.result = result;
+    job.version = { id: String(version._id), name: version.name, isActive: version.isActive };
+    await entry.onSaved?.(version);
+    recordStep(job, "Timetable generation complete!", 100);
+    job.status = "completed";
+  } catch (err: any) {
+    if (controller.signal.aborted) {
+      job.status = "cancelled";
+    } else {
+      console.error(`Error in generation job ${job.id}:`, err);
+      job.status = "failed";
+      job.error = err?.message ?? "Generation failed";
+    }
+  } finally {
+    job.finishedAt = job.updatedAt = new Date();
+  }
+};
+
+// The unfinished job for a department's year/division/semester, if one is already generating it
+export const findActiveGenerationJob = (department: string, year: string, division: string | undefined, semester: number) =>
+  [...jobs.values()].find(({ job }) =>
+    !isFinished(job) && job.department === department && job.year === year && job.division === division && job.semester === semester
+  )?.job;
+
+// Queues a run and returns straight away; the run continues even if the client goes away
+export const startGenerationJob = (
+  department: string,
+  year: AcademicYearCode,
+  division: string | undefined,
+  semester: number,
+  constraints: TimetableConstraints,
+  onSaved?: JobEntry["onSaved"]
+) => {
+  pruneFinishedJobs();
+  const now = new Date();
+  const job: GenerationJob = {
+    id: randomUUID(),
+    department,
+    year,
+    division,
+    semester,
+    constraints,
+    status: "queued",
+    progress: 0,
+    step: "Queued",
+    steps: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  const entry: JobEntry = { job, controller: new AbortController(), onSaved };
+  jobs.set(job.id, entry);
+  setImmediate(() => void runJob(entry));
+  return job;
+};
+
+export const listGenerationJobs = (department: string, filter: { year?: string; division?: string; semester?: number } = {}) =>
+  [...jobs.values()]
+    .map(({ job }) => job)
+    .filter(job => job.department === department)
+    .filter(job => (!filter.year || job.year === filter.year) && (!filter.division || job.division === filter.division))
+    .filter(job => filter.semester === undefined || job.semester === filter.semester)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+// Another department's job is reported as not found
+export const getGenerationJob = (id: string, department: string) => {
+  const job = jobs.get(id)?.job;
+  return job?.department === department ? job : undefined;
+};
+
+export const getGenerationResult = (id: string) => jobs.get(id)?.result;
+
+// Stops a run at its next step. Returns false if the job had already finished.
+export const cancelGenerationJob = (id: string) => {
+  const entry = jobs.get(id);
+  if (!entry || isFinished(entry.job)) return false;
+  entry.controller.abort();
+  entry.job.status = "cancelled";
+  recordStep(entry.job, "Cancelled", entry.job.progress);
+  return true;
+};
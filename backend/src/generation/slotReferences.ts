@@ -0,0 +1,44 @@
+import { Subject, Faculty, Classroom, Lab, TimetableSlot } from '@timetable/shared';
+
+// Slots compare by reference when both carry ids; names are only a fallback for
+// slots that haven't been saved or linked yet, since names aren't unique.
+export const isSameFaculty = (a: TimetableSlot, b: TimetableSlot): boolean =>
+  a.facultyId && b.facultyId ? a.facultyId === b.facultyId : a.faculty === b.faculty;
+
+export const isSameRoom = (a: TimetableSlot, b: TimetableSlot): boolean => {
+  if ((a.roomId || a.labId) && (b.roomId || b.labId)) {
+    return a.roomId ? a.roomId === b.roomId : a.labId === b.labId;
+  }
+  return a.room === b.room;
+};
+
+// Links generated slots to the subject, faculty and room they were built from.
+// The faculty comes from the subject itself, so namesakes can't be mixed up.
+export const withSlotReferences = (
+  slots: TimetableSlot[], subjects: Subject[], classrooms: Classroom[], labs: Lab[]
+): TimetableSlot[] =>
+  slots.map(slot => {
+    const subjectName = slot.type === 'lab' ? slot.subject.replace(/ Lab$/, '') : slot.subject;
+    const subject = subjects.find(s => s.name === subjectName && s.year === slot.year && s.semester === slot.semester);
+    const lab = labs.find(l => l.name === slot.room);
+    const classroom = classrooms.find(c => c.name === slot.room);
+
+    return {
+      ...slot,
+      subjectId: subject?.id,
+      facultyId: subject && typeof subject.faculty === 'object' ? subject.faculty._id : undefined,
+      ...(slot.type === 'lab' && lab ? { labId: lab.id } : classroom ? { roomId: classroom.id } : { labId: lab?.id })
+    };
+  });
+
+export const findSlotFaculty = (faculty: Faculty[], slot: TimetableSlot): Faculty | undefined =>
+  faculty.find(f => slot.facultyId ? f.id === slot.facultyId : f.name === slot.faculty);
+
+// The classroom or lab a slot is held in; labs first for lab sessions, as when linking
+export const findSlotRoom = (classrooms: Classroom[], labs: Lab[], slot: TimetableSlot): Classroom | Lab | undefined => {
+  if (slot.roomId) return classrooms.find(c => c.id === slot.roomId);
+  if (slot.labId) return labs.find(l => l.id === slot.labId);
+  const lab = labs.find(l => l.name === slot.room);
+  const classroom = classrooms.find(c => c.name === slot.room);
+  return slot.type === 'lab' ? lab ?? classroom : classroom ?? lab;
+};
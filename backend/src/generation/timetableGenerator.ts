@@ -0,0 +1,229 @@
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, TimetableConstraints, Conflict, AcademicYear, AcademicYearConfig, YearSession, Batch, BatchConfig, BellSchedule, DEFAULT_BELL_SCHEDULE, lectureTimes, labTimes, timesOverlap, schedulingDays, dayWeight, workingDaysOf, classStrength } from '@timetable/shared';
+import { withSlotReferences } from './slotReferences';
+
+// Helper types for tracking unscheduled sessions
+type UnscheduledLecture = { subject: Subject; year: AcademicYear; hours: number; } // hours: 1, less after an alternate-week session
+type UnscheduledLab = { subject: Subject; year: AcademicYear; batch: Batch; }
+
+export interface TimetableGeneratorOptions {
+  division?: string; // one of the year's divisions; the generated slots are stamped with it
+  bookedSlots?: TimetableSlot[]; // slots of other classes, whose faculty and rooms are already taken
+  bellSchedule?: Omit<BellSchedule, 'id'>; // the department's periods; the default grid without one
+}
+
+export class TimetableGenerator {
+  private subjects: Subject[];
+  private faculty: Faculty[];
+  private classrooms: Classroom[];
+  private labs: Lab[];
+  private constraints: TimetableConstraints;
+  private generatedSlots: TimetableSlot[] = [];
+  private conflicts: Conflict[] = [];
+
+  private yearConfig: AcademicYearConfig | null = null;
+  private division?: string;
+  private batches: BatchConfig[] = []; // the division's lab batches
+  private bookedSlots: TimetableSlot[] = [];
+  private schedule: Omit<BellSchedule, 'id'> = DEFAULT_BELL_SCHEDULE;
+  private days: string[] = []; // working days, weekly ones first; see schedulingDays
+
+  constructor(
+    subjects: Subject[], faculty: Faculty[], classrooms: Classroom[],
+    labs: Lab[], constraints: TimetableConstraints
+  ) {
+    this.subjects = subjects; this.faculty = faculty; this.classrooms = classrooms;
+    this.labs = labs; this.constraints = constraints;
+  }
+
+  public generateTimetable(yearConfig: AcademicYearConfig, targetSemester: number, options: TimetableGeneratorOptions = {}): { slots: TimetableSlot[]; conflicts: Conflict[] } {
+    this.generatedSlots = [];
+    this.conflicts = [];
+    this.yearConfig = yearConfig;
+    this.division = options.division;
+    this.batches = yearConfig.batches.filter(batch => (batch.division || undefined) === this.division);
+    this.bookedSlots = options.bookedSlots ?? [];
+    this.schedule = options.bellSchedule ?? DEFAULT_BELL_SCHEDULE;
+    this.days = schedulingDays(workingDaysOf(this.schedule, yearConfig));
+
+    const subjects = this.subjects.filter(s => s.year === yearConfig.code && s.semester === targetSemester);
+    let unscheduledLectures = this.createLecturePool(subjects);
+    let unscheduledLabs = this.createLabPool(subjects);
+
+    this.scheduleLabs(unscheduledLabs);
+    this.scheduleLectures(unscheduledLectures);
+
+    this.reportUnscheduled(unscheduledLectures, unscheduledLabs);
+
+    return { slots: withSlotReferences(this.resultSlots(), this.subjects, this.classrooms, this.labs), conflicts: this.conflicts };
+  }
+
+  // --- Pool Creation ---
+  private createLecturePool = (subjects: Subject[]): UnscheduledLecture[] => subjects.flatMap(s => Array.from({ length: s.theoryHours }, () => ({ subject: s, year: s.year, hours: 1 })));
+  // One session per 2 lab hours for every batch of the division
+  private createLabPool = (subjects: Subject[]): UnscheduledLab[] => {
+    const labSubjects = subjects.filter(s => s.labHours > 0);
+    if (labSubjects.length > 0 && this.batches.length === 0) {
+      const year = labSubjects[0].year;
+      this.conflicts.push({ type: 'error', message: `No lab batches configured for ${this.describeClass(year)}; its labs can't be scheduled`, severity: 'high', affectedEntities: [this.describeClass(year)] });
+    }
+    return labSubjects.flatMap(s =>
+      Array(Math.ceil(s.labHours / 2)).fill(0).flatMap(() =>
+        this.batches.map(batch => ({ subject: s, year: s.year, batch: batch.name }))
+      )
+    );
+  };
+
+  // --- Scheduling Logic ---
+  private scheduleLabs(pool: UnscheduledLab[]): void {
+    for (const day of this.days) {
+      for (const time of this.labTimesOf(day)) {
+        let availableLabRooms = this.getAvailableRooms(day, time, 'lab') as Lab[];
+        const candidates = pool.filter(lab =>
+          this.isBatchAvailable(lab.year, lab.batch, day, time) &&
+          this.isFacultyAvailable(this.getFacultyName(lab.subject), day, time) &&
+          !this.hadConsecutiveLabForFaculty(this.getFacultyName(lab.subject), day, time) &&
+          !this.hadConsecutiveLabForBatch(lab.year, lab.batch, day, time)
+        );
+
+        for (const candidate of candidates) {
+          if (availableLabRooms.length === 0) break;
+          // Both may have been taken by a candidate placed earlier in this slot
+          if (!this.isBatchAvailable(candidate.year, candidate.batch, day, time) || !this.isFacultyAvailable(this.getFacultyName(candidate.subject), day, time)) continue;
+          // The first free lab that seats the whole batch
+          const labRoom = availableLabRooms.find(room => this.labFitsBatch(room, candidate.batch));
+          if (!labRoom) continue;
+          availableLabRooms = availableLabRooms.filter(room => room !== labRoom);
+          const slot: TimetableSlot = {
+            id: `${candidate.year}-${candidate.batch}-${candidate.subject.code}-${day}-${time}`,
+            day, time, subject: `${candidate.subject.name} Lab`,
+            faculty: this.getFacultyName(candidate.subject), room: labRoom.name, type: 'lab',
+            year: candidate.year, batch: candidate.batch, duration: this.schedule.labPeriods, semester: candidate.subject.semester
+          };
+          this.generatedSlots.push(slot);
+          const poolIndex = pool.findIndex(p => p === candidate);
+          if (poolIndex > -1) pool.splice(poolIndex, 1);
+        }
+      }
+    }
+  }
+
+  private scheduleLectures(pool: UnscheduledLecture[]): void {
+    if (!this.yearConfig) return;
+    const year = this.yearConfig.code;
+    // The smallest of the class's classrooms that seats all of it
+    const assignedClassroom = this.classroomsFor(year).filter(this.classroomFitsClass).sort((a, b) => a.capacity - b.capacity)[0];
+    if (!assignedClassroom) return;
+
+    for (const day of this.days) {
+      for (const time of this.lectureTimesOf(day)) {
+        if (!this.isBatchAvailable(year, undefined, day, time)) continue;
+        if (!this.getAvailableRooms(day, time, 'theory').includes(assignedClassroom)) continue;
+
+        // Find a lecture that fits all rules, including the "once-per-day" rule
+        const bestFitIndex = pool.findIndex(lec =>
+          lec.year === year &&
+          this.isFacultyAvailable(this.getFacultyName(lec.subject), day, time) &&
+          !this.wasPreviousSlotSameSubject(lec.subject, year, day, time) &&
+          !this.hasLectureAlreadyOccurredToday(lec.subject, year, day)
+        );
+
+        if (bestFitIndex > -1) {
+          const lectureToSchedule = pool[bestFitIndex];
+          const slot: TimetableSlot = {
+             id: `${year}-${lectureToSchedule.subject.code}-${day}-${time}`,
+             day, time, subject: lectureToSchedule.subject.name,
+             faculty: this.getFacultyName(lectureToSchedule.subject), room: assignedClassroom.name,
+             type: 'theory', year, duration: 1, semester: lectureToSchedule.subject.semester
+          };
+          this.generatedSlots.push(slot);
+          // A session on an alternate-week day only covers half a weekly lecture
+          lectureToSchedule.hours -= this.dayWeightOf(day);
+          if (lectureToSchedule.hours <= 0) pool.splice(bestFitIndex, 1);
+        }
+      }
+    }
+  }
+
+  // --- Availability Checkers ---
+
+  /**
+   * Checks if the same theory lecture has already been scheduled for this year on this day.
+   */
+  private hasLectureAlreadyOccurredToday(subject: Subject, year: string, day: string): boolean {
+    return this.generatedSlots.some(s =>
+      s.type === 'theory' && s.day === day &&
+      s.year === year && s.subject === subject.name
+    );
+  }
+
+  private isFacultyAvailable = (name: string, day: string, time: string): boolean => !this.takenSlots().some(s => s.faculty === name && s.day === day && timesOverlap(s.time, time));
+  private isBatchAvailable = (year: string, batch: string | undefined, day: string, time: string): boolean => !this.generatedSlots.some(s => s.year === year && (!batch || !s.batch || s.batch === batch) && s.day === day && timesOverlap(s.time, time));
+  private getAvailableRooms = (day: string, time: string, type: 'lab' | 'theory'): (Lab | Classroom)[] => {
+    const allRooms = type === 'lab' ? this.labs : this.classrooms;
+    const bookedRooms = new Set(this.takenSlots().filter(s => s.day === day && timesOverlap(s.time, time)).map(s => s.room));
+    return allRooms.filter(room => !bookedRooms.has(room.name));
+  };
+  private hadConsecutiveLabForBatch = (year: string, batch: string, day: string, time: string): boolean => {
+    const previousTime = this.previousOf(this.labTimesOf(day), time);
+    return !!previousTime && this.generatedSlots.some(s => s.type === 'lab' && s.year === year && s.batch === batch && s.day === day && s.time === previousTime);
+  };
+  private hadConsecutiveLabForFaculty = (name: string, day: string, time: string): boolean => {
+    const previousTime = this.previousOf(this.labTimesOf(day), time);
+    return !!previousTime && this.generatedSlots.some(s => s.type === 'lab' && s.faculty === name && s.day === day && s.time === previousTime);
+  };
+  private wasPreviousSlotSameSubject = (subject: Subject, year: string, day: string, time: string): boolean => {
+    const previousTime = this.previousOf(this.lectureTimesOf(day), time);
+    return !!previousTime && this.generatedSlots.some(s => s.year === year && s.day === day && s.subject === subject.name && s.time === previousTime);
+  };
+
+  // --- Helpers & Finalization ---
+  private reportUnscheduled(lectures: UnscheduledLecture[], labs: UnscheduledLab[]): void {
+    labs.forEach(lab => {
+      const reason = this.labs.some(room => this.labFitsBatch(room, lab.batch)) ? '' : `: no lab seats its ${this.batchSize(lab.batch)} students`;
+      this.conflicts.push({ type: 'error', message: `Could not schedule lab for ${lab.subject.name} (${this.describeClass(lab.year)}-${lab.batch})${reason}. Not enough slots/resources.`, severity: 'high', affectedEntities: [lab.subject.name, `${this.describeClass(lab.year)}-${lab.batch}`] });
+    });
+    const unscheduledCounts: { [key: string]: number } = {};
+    lectures.forEach(lec => {
+      const key = `${lec.subject.name} (${this.describeClass(lec.year)})`;
+      unscheduledCounts[key] = (unscheduledCounts[key] || 0) + lec.hours;
+    });
+    const reason = lectures.length > 0 && !this.classroomsFor(lectures[0].year).some(this.classroomFitsClass) ? ` No classroom seats its ${this.classSize()} students.` : '';
+    for (const key in unscheduledCounts) {
+      this.conflicts.push({ type: 'warning', message: `Could not schedule ${unscheduledCounts[key]} lecture(s) for ${key}.${reason}`, severity: 'medium', affectedEntities: [key] });
+    }
+  }
+
+  // Classrooms of the year, other than those kept for another of its divisions
+  private classroomsFor = (year: AcademicYear): Classroom[] =>
+    this.classrooms.filter(c => c.assignedYear === year && (!c.assignedDivision || c.assignedDivision === this.division));
+
+  // "TE" or "TE-B", for messages
+  private describeClass = (year: AcademicYear): string => this.division ? `${year}-${this.division}` : year;
+
+  // Everything already holding a faculty member or room: other classes' slots and this run's
+  private takenSlots = (): TimetableSlot[] => [...this.bookedSlots, ...this.generatedSlots];
+
+  private resultSlots = (): TimetableSlot[] =>
+    this.division ? this.generatedSlots.map(slot => ({ ...slot, division: this.division })) : this.generatedSlots;
+
+  // A 'yearBatchType' constraint overrides the session the year is configured with
+  private session = (): YearSession => {
+    const year = this.yearConfig!;
+    return this.constraints.yearBatchType?.[year.code] ?? year.session;
+  };
+
+  // The year's lecture periods and lab sessions on the day, from its shift of the bell schedule
+  private lectureTimesOf = (day: string): string[] => lectureTimes(this.schedule, this.session(), day);
+  private labTimesOf = (day: string): string[] => labTimes(this.schedule, this.session(), day);
+  private previousOf = (times: string[], time: string): string | undefined => times[times.indexOf(time) - 1];
+
+  // How often a day of the year is held: 1 every week, 0.5 on alternate weeks
+  private dayWeightOf = (day: string): number => dayWeight(workingDaysOf(this.schedule, this.yearConfig), day);
+
+  private batchSize = (batch: Batch): number => this.batches.find(b => b.name === batch)?.students ?? 0;
+  private labFitsBatch = (lab: Lab, batch: Batch): boolean => lab.capacity >= this.batchSize(batch);
+  private classSize = (): number => this.yearConfig ? classStrength(this.yearConfig, this.division) : 0;
+  private classroomFitsClass = (classroom: Classroom): boolean => classroom.capacity >= this.classSize();
+
+  private getFacultyName = (subject: Subject): string => typeof subject.faculty === 'object' ? subject.faculty.name : subject.faculty;
+}
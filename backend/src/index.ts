@@ -10,21 +10,51 @@ import classroomRoutes from "./routes/classroomRoutes";
 import labRoutes from "./routes/labRoutes";
 import timetableRoutes from "./routes/timetableRoutes";
 import timetableSlotsRouter from "./routes/timetableSlots";
+import scheduledHoursRoutes from "./routes/scheduledHoursRoutes";
+import initializeDataRoutes from "./routes/initializeDataRoutes";
+import changeRoutes from "./routes/changeRoutes";
+import schemaRoutes from "./routes/schemaRoutes";
+import authRoutes from "./routes/authRoutes";
+import userRoutes from "./routes/userRoutes";
+import auditRoutes from "./routes/auditRoutes";
+import departmentRoutes from "./routes/departmentRoutes";
+import academicYearRoutes from "./routes/academicYearRoutes";
+import bellScheduleRoutes from "./routes/bellScheduleRoutes";
+import { authenticate } from "./middleware/auth";
+import { resolveDepartment } from "./middleware/department";
+import { ensureAdminUser } from "./seed/adminUser";
+import { ensureDefaultDepartment } from "./seed/defaultDepartment";
+import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 
 dotenv.config();
 const app = express();
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ["X-Total-Count"] })); // list totals, read by paged tables
 app.use(express.json());
 
 app.get("/api/health", (_req, res) => res.json({ ok: true }));
+app.use("/api/auth", authRoutes);
 
-app.use("/api/faculty", facultyRoutes);
-app.use("/api/subjects", subjectRoutes);
-app.use("/api/classrooms", classroomRoutes);
-app.use("/api/labs", labRoutes);
-app.use("/api/timetables", timetableRoutes);
-app.use("/api/timetable-slots", timetableSlotsRouter);
+// Everything below needs a logged-in user; the routers check roles for writes
+app.use("/api", authenticate);
+app.use("/api/users", userRoutes);
+app.use("/api/departments", departmentRoutes);
+
+// Everything below works within one department, named by the X-Department header
+app.use("/api/audit", resolveDepartment, auditRoutes); // who changed what, newest first
+app.use("/api/academic-years", resolveDepartment, academicYearRoutes);
+app.use("/api/bell-schedules", resolveDepartment, bellScheduleRoutes);
+app.use("/api/faculty", resolveDepartment, facultyRoutes);
+app.use("/api/subjects", resolveDepartment, subjectRoutes);
+app.use("/api/classrooms", resolveDepartment, classroomRoutes);
+app.use("/api/labs", resolveDepartment, labRoutes);
+app.use("/api/timetables", resolveDepartment, timetableRoutes);
+app.use("/api/timetable-slots", resolveDepartment, timetableSlotsRouter);
+app.use("/api/scheduled-hours", resolveDepartment, scheduledHoursRoutes);
+app.use("/api/initialize-data", resolveDepartment, initializeDataRoutes);
+app.use("/api/changes", resolveDepartment, changeRoutes); // live updates to the lists above
+app.use("/api/schema", schemaRoutes); // field rules for forms
+app.use("/api", notFoundHandler);
 
 // Serve frontend static files in production
 if (process.env.NODE_ENV === "production") {
@@ -37,11 +67,16 @@ if (process.env.NODE_ENV === "production") {
   });
 }
 
+// Errors from any route are answered as { error, details? } (see middleware/errorHandler)
+app.use(errorHandler);
+
 const PORT = process.env.PORT || 3001;
 
 mongoose.connect(process.env.MONGO_URI!)
-  .then(() => {
+  .then(async () => {
     console.log("✅ MongoDB connected");
+    await ensureAdminUser();
+    await ensureDefaultDepartment();
     app.listen(PORT, () => console.log(`🚀 Server running on port ${PORT}`));
   })
   .catch(err => console.error(err));
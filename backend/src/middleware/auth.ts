@@ -0,0 +1,80 @@
+import { Request, RequestHandler } from "express";
+import { FACULTY_PREFERENCE_FIELDS, UserRole } from "@timetable/shared";
+import User from "../models/User";
+import { verifyToken } from "../utils/authTokens";
+import { ForbiddenError, UnauthorizedError } from "../utils/httpErrors";
+
+export interface AuthenticatedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  faculty?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser; // set by authenticate
+    }
+  }
+}
+
+// The account as sent to the frontend (shared User) and kept on req.user
+export const toAuthenticatedUser = (user: InstanceType<typeof User>): AuthenticatedUser => ({
+  id: String(user._id),
+  name: user.name,
+  email: user.email,
+  role: user.role as UserRole,
+  faculty: user.faculty ? String(user.faculty) : undefined
+});
+
+// The one route that may take its token from the query string
+const CHANGE_STREAM_PATH = "/api/changes";
+
+// EventSource can't send headers, so the change stream passes its token as ?access_token=.
+// Anywhere else a token in the URL would end up in logs and history, so it is ignored.
+const tokenOf = (req: Request): string | undefined => {
+  const header = req.get("Authorization");
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length);
+  const { access_token } = req.query;
+  const isChangeStream = req.method === "GET" && req.baseUrl + req.path === CHANGE_STREAM_PATH;
+  return isChangeStream && typeof access_token === "string" ? access_token : undefined;
+};
+
+// Requires a valid token. The account is loaded on every request, so deleting
+// it or changing its role takes effect straight away.
+export const authenticate: RequestHandler = async (req, _res, next) => {
+  const token = tokenOf(req);
+  const userId = token ? verifyToken(token) : null;
+  if (!userId) throw new UnauthorizedError();
+
+  const user = await User.findById(userId);
+  if (!user) throw new UnauthorizedError("Your account no longer exists");
+  req.user = toAuthenticatedUser(user);
+  next();
+};
+
+export const requireRole = (...roles: UserRole[]): RequestHandler => (req, _res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) throw new ForbiddenError();
+  next();
+};
+
+// Writes to master data, timetables and generation
+export const requireAdmin = requireRole("admin");
+
+// The audit log names accounts and shows old values, so students don't see it
+export const AUDIT_READERS: UserRole[] = ["admin", "faculty"];
+
+// PUT /api/faculty/:id - admins edit anything; a faculty member only their own
+// preferences. Runs after validateRequest, so the body holds known fields only.
+export const requireAdminOrOwnPreferences: RequestHandler = (req, _res, next) => {
+  const user = req.user;
+  if (user?.role === "admin") return next();
+
+  const ownRecord = user?.role === "faculty" && user.faculty === req.params.id;
+  if (!ownRecord) throw new ForbiddenError("You can only edit your own preferences");
+  const other = Object.keys(req.body).filter(field => !(FACULTY_PREFERENCE_FIELDS as readonly string[]).includes(field));
+  if (other.length > 0) throw new ForbiddenError(`Only admins can change ${other.join(", ")}`);
+  next();
+};
@@ -0,0 +1,44 @@
+import { RequestHandler, Request } from "express";
+import mongoose from "mongoose";
+import Department from "../models/Department";
+import { BadRequestError, NotFoundError } from "../utils/httpErrors";
+
+export interface RequestDepartment {
+  id: string;
+  name: string;
+  code: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      department?: RequestDepartment; // set by resolveDepartment
+    }
+  }
+}
+
+// Like the token, EventSource and download links can pass it as ?department=
+const departmentIdOf = (req: Request): string | undefined => {
+  const header = req.get("X-Department");
+  if (header) return header;
+  const { department } = req.query;
+  return req.method === "GET" && typeof department === "string" ? department : undefined;
+};
+
+// Picks the department a request works in from the X-Department header. Without one,
+// a deployment with a single department uses it, so older clients keep working.
+export const resolveDepartment: RequestHandler = async (req, _res, next) => {
+  const id = departmentIdOf(req);
+  let department;
+  if (id) {
+    if (!mongoose.isValidObjectId(id)) throw new BadRequestError(`Invalid department '${id}'`);
+    department = await Department.findById(id);
+    if (!department) throw new NotFoundError("Department");
+  } else {
+    const departments = await Department.find().limit(2);
+    if (departments.length !== 1) throw new BadRequestError("Choose a department with the X-Department header");
+    department = departments[0];
+  }
+  req.department = { id: String(department._id), name: department.name, code: department.code };
+  next();
+};
@@ -0,0 +1,66 @@
+import { ErrorRequestHandler, RequestHandler } from "express";
+import mongoose from "mongoose";
+import { ApiErrorBody, FieldError } from "@timetable/shared";
+import { HttpError } from "../utils/httpErrors";
+
+interface ErrorResponse {
+  status: number;
+  body: ApiErrorBody;
+}
+
+const castMessage = (err: mongoose.Error.CastError) =>
+  err.path === "_id" ? `Invalid id '${err.value}'` : `Invalid ${err.path} '${err.value}'`;
+
+// Maps what handlers and Mongoose throw to a status and one body format
+const toErrorResponse = (err: any): ErrorResponse => {
+  if (err instanceof HttpError) {
+    const body: ApiErrorBody = { error: err.message, ...err.context };
+    if (err.details) body.details = err.details;
+    return { status: err.status, body };
+  }
+
+  if (err instanceof mongoose.Error.ValidationError) {
+    const details: FieldError[] = Object.values(err.errors).map(fieldError => ({
+      field: fieldError.path,
+      message: fieldError instanceof mongoose.Error.CastError ? castMessage(fieldError) : fieldError.message
+    }));
+    return { status: 400, body: { error: details.map(detail => detail.message).join("; "), details } };
+  }
+
+  if (err instanceof mongoose.Error.CastError) {
+    const message = castMessage(err);
+    return { status: 400, body: { error: message, details: [{ field: err.path, message }] } };
+  }
+
+  // Unique indexes, e.g. Subject.code and Faculty.email
+  if (err?.code === 11000) {
+    const details: FieldError[] = Object.entries(err.keyValue ?? {}).map(([field, value]) => ({
+      field,
+      message: `${field} '${value}' is already in use`
+    }));
+    return { status: 409, body: { error: details[0]?.message ?? "Duplicate value", details } };
+  }
+
+  // Thrown by express.json() for unparseable or oversized bodies
+  if (err?.type === "entity.parse.failed") {
+    return { status: 400, body: { error: "Request body is not valid JSON" } };
+  }
+  if (err?.expose && Number.isInteger(err.status)) {
+    return { status: err.status, body: { error: err.message } };
+  }
+
+  return { status: 500, body: { error: "Internal server error" } };
+};
+
+// Registered after every route; Express 5 forwards rejected async handlers here too
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) return next(err); // e.g. an open change stream; let Express close it
+  const { status, body } = toErrorResponse(err);
+  if (status >= 500) console.error(`Error handling ${req.method} ${req.originalUrl}:`, err);
+  res.status(status).json(body);
+};
+
+// Unknown /api routes answer in the same format instead of Express's HTML page
+export const notFoundHandler: RequestHandler = (req, res) => {
+  res.status(404).json({ error: `No route for ${req.method} ${req.originalUrl}` });
+};
@@ -0,0 +1,36 @@
+import { RequestHandler } from "express";
+import { FieldError, RecordSchema, pickKnownFields, validateRecord } from "@timetable/shared";
+import { BadRequestError } from "../utils/httpErrors";
+
+// What a route accepts. Query and params arrive as strings and are read as their declared types.
+export interface RequestSchema {
+  params?: RecordSchema;
+  query?: RecordSchema;
+  body?: RecordSchema;
+  partialBody?: boolean; // updates: only the fields that are sent are checked
+}
+
+export const ID_PARAMS: RecordSchema = { fields: { id: { type: "id", required: true } } };
+
+// ?force=true skips the conflict checks on slot writes
+export const FORCE_QUERY: RecordSchema = { fields: { force: { type: "boolean" } } };
+
+const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Rejects the request with 400 and every field error at once. A checked body is cut
+// down to the declared fields, so unknown keys never reach a model.
+export const validateRequest = (schema: RequestSchema): RequestHandler => (req, _res, next) => {
+  const errors: FieldError[] = [];
+  if (schema.params) errors.push(...validateRecord(schema.params, req.params, { coerce: true }));
+  if (schema.query) errors.push(...validateRecord(schema.query, req.query, { coerce: true }));
+
+  if (schema.body) {
+    const body = req.body ?? {}; // no body at all, or not sent as JSON
+    if (!isObject(body)) throw new BadRequestError("Request body must be a JSON object");
+    errors.push(...validateRecord(schema.body, body, { partial: schema.partialBody }));
+    req.body = pickKnownFields(schema.body, body);
+  }
+
+  if (errors.length > 0) throw new BadRequestError(errors.map(error => error.message).join("; "), errors);
+  next();
+};
@@ -0,0 +1,53 @@
+// Moves a database from the fixed SE/TE/BE years onto configurable ones: every department
+// gets the default years, plus a year for any other code its records use. Timetable
+// versions are then numbered per division, so the old per-year index is replaced.
+// Run once after upgrading: npm run migrate:academic-years
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import Department from "../models/Department";
+import AcademicYear from "../models/AcademicYear";
+import Subject from "../models/Subject";
+import Classroom from "../models/Classroom";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import { defaultBatches, ensureAcademicYears } from "../seed/academicYears";
+
+dotenv.config();
+
+const codesInUse = async (department: mongoose.Types.ObjectId) => {
+  const owned = { department };
+  const codes = await Promise.all([
+    Subject.distinct("year", owned),
+    Classroom.distinct("assignedYear", owned),
+    TimetableSlot.distinct("year", owned),
+    Timetable.distinct("year", owned)
+  ]);
+  return [...new Set(codes.flat().filter((code): code is string => typeof code === "string" && code !== ""))];
+};
+
+export const migrateAcademicYears = async () => {
+  for (const department of await Department.find()) {
+    await ensureAcademicYears(department._id);
+    const configured = await AcademicYear.distinct("code", { department: department._id });
+    const missing = (await codesInUse(department._id)).filter(code => !configured.includes(code));
+    for (const code of missing) {
+      await AcademicYear.create({ code, label: code, program: "Unspecified", batches: defaultBatches(), department: department._id });
+    }
+    console.log(`${department.code}: added ${missing.length} year(s) beyond the defaults`);
+  }
+
+  const index = "department_1_year_1_semester_1_version_-1";
+  if (await Timetable.collection.indexExists(index)) await Timetable.collection.dropIndex(index);
+  await Timetable.syncIndexes();
+  await TimetableSlot.syncIndexes();
+};
+
+if (require.main === module) {
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(migrateAcademicYears)
+    .catch(err => {
+      console.error("Academic year migration failed:", err);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
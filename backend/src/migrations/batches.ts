@@ -0,0 +1,27 @@
+// Gives every year that has no batches configured the batches slots could name before
+// they were configurable: A, B and C in each division, of DEFAULT_BATCH_STUDENTS each.
+// Run once after upgrading: npm run migrate:batches
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import AcademicYear from "../models/AcademicYear";
+import { defaultBatches } from "../seed/academicYears";
+
+dotenv.config();
+
+export const migrateBatches = async () => {
+  const years = await AcademicYear.find({ $or: [{ batches: { $exists: false } }, { batches: { $size: 0 } }] });
+  for (const year of years) {
+    await AcademicYear.updateOne({ _id: year._id }, { $set: { batches: defaultBatches(year.divisions) } });
+  }
+  console.log(`Gave ${years.length} year(s) the default batches`);
+};
+
+if (require.main === module) {
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(migrateBatches)
+    .catch(err => {
+      console.error("Batch migration failed:", err);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
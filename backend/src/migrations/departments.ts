@@ -0,0 +1,88 @@
+// Moves a single-department database onto departments: every record without one is
+// assigned to a department. Faculty keep the department they had as text (a department
+// of that name is created if needed), subjects follow their faculty, slots their subject
+// and versions their slots. Everything else goes to the first department.
+// Run once after upgrading: npm run migrate:departments
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import Department from "../models/Department";
+import Faculty from "../models/Faculty";
+import Subject from "../models/Subject";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import { ensureDefaultDepartment } from "../seed/defaultDepartment";
+
+dotenv.config();
+
+const UNASSIGNED = { $or: [{ department: { $exists: false } }, { department: null }, { department: { $type: "string" } }] };
+
+// "Computer Engineering" -> "CE", made unique with a number if it's taken
+const codeFor = async (name: string) => {
+  const base = name.split(/\s+/).map(word => word[0] ?? "").join("").replace(/[^A-Za-z0-9]/g, "").toUpperCase().padEnd(2, "X").slice(0, 8);
+  let code = base;
+  for (let n = 2; await Department.exists({ code }); n++) code = `${base}${n}`;
+  return code;
+};
+
+const departmentNamed = async (name: string) =>
+  (await Department.findOne({ name })) ?? Department.create({ name, code: await codeFor(name) });
+
+// Read through the raw collections: the old values don't fit the schemas any more
+const migrateFaculty = async (fallback: mongoose.Types.ObjectId) => {
+  const legacy = await Faculty.collection.find(UNASSIGNED).toArray();
+  for (const member of legacy) {
+    const name = typeof member.department === "string" ? member.department.trim() : "";
+    const department = name ? (await departmentNamed(name))._id : fallback;
+    await Faculty.collection.updateOne({ _id: member._id }, { $set: { department } });
+  }
+  console.log(`Faculty: assigned ${legacy.length}`);
+};
+
+// Gives each unassigned record the department of the record it points at, or the fallback
+const followReference = async (
+  model: mongoose.Model<any>,
+  label: string,
+  departmentOf: (record: any) => Promise<unknown>,
+  fallback: mongoose.Types.ObjectId
+) => {
+  const legacy = await model.collection.find(UNASSIGNED).toArray();
+  for (const record of legacy) {
+    const department = (await departmentOf(record)) ?? fallback;
+    await model.collection.updateOne({ _id: record._id }, { $set: { department } });
+  }
+  console.log(`${label}: assigned ${legacy.length}`);
+};
+
+const departmentOfId = (model: mongoose.Model<any>) => async (id: unknown) =>
+  id ? (await model.collection.findOne({ _id: id as mongoose.Types.ObjectId }))?.department : undefined;
+
+export const migrateDepartments = async () => {
+  const fallback = (await ensureDefaultDepartment())._id;
+  const facultyDepartment = departmentOfId(Faculty);
+  const subjectDepartment = departmentOfId(Subject);
+
+  await migrateFaculty(fallback);
+  await followReference(Subject, "Subjects", subject => facultyDepartment(subject.faculty), fallback);
+  await followReference(TimetableSlot, "Timetable slots", slot => subjectDepartment(slot.subjectId), fallback);
+  await followReference(Timetable, "Timetable versions", timetable => subjectDepartment(timetable.slots?.[0]?.subjectId), fallback);
+  await followReference(Classroom, "Classrooms", async () => undefined, fallback);
+  await followReference(Lab, "Labs", async () => undefined, fallback);
+
+  // Subject codes and version numbers are now unique per department
+  for (const [model, index] of [[Subject, "code_1"], [Timetable, "year_1_semester_1_version_-1"]] as const) {
+    if (await model.collection.indexExists(index)) await model.collection.dropIndex(index);
+    await model.syncIndexes();
+  }
+};
+
+if (require.main === module) {
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(migrateDepartments)
+    .catch(err => {
+      console.error("Department migration failed:", err);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
@@ -0,0 +1,86 @@
+// Converts slots saved with subject/faculty/room display names into id references.
+// Run once after upgrading: npm run migrate:slot-references
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import { resolveSlotReferences } from "../utils/slotReferences";
+import { SlotWriteError } from "../utils/slotErrors";
+
+dotenv.config();
+
+const LEGACY_FIELDS = { subject: "", faculty: "", room: "" };
+
+// Resolves one legacy slot, or returns the reason it couldn't be resolved
+const resolveLegacySlot = async (slot: any) => {
+  try {
+    const [resolved] = await resolveSlotReferences([slot]);
+    return { resolved };
+  } catch (err) {
+    if (err instanceof SlotWriteError) return { error: err.slotErrors.map(error => error.message).join("; ") };
+    throw err;
+  }
+};
+
+const migrateLiveSlots = async () => {
+  // Read through the raw collection: the schema no longer knows the name fields
+  const legacySlots = await TimetableSlot.collection.find({ subjectId: { $exists: false } }).toArray();
+  let migrated = 0;
+
+  for (const slot of legacySlots) {
+    const { resolved, error } = await resolveLegacySlot(slot);
+    if (error) {
+      console.warn(`Slot ${slot._id} (${slot.year} ${slot.day} ${slot.time}) not migrated: ${error}`);
+      continue;
+    }
+    const { subjectId, facultyId, roomId, labId } = resolved;
+    await TimetableSlot.collection.updateOne(
+      { _id: slot._id },
+      { $set: { subjectId, facultyId, ...(roomId ? { roomId } : { labId }) }, $unset: LEGACY_FIELDS }
+    );
+    migrated++;
+  }
+
+  console.log(`Timetable slots: migrated ${migrated} of ${legacySlots.length}`);
+};
+
+const migrateVersionSnapshots = async () => {
+  const timetables = await Timetable.collection.find({ "slots.subject": { $exists: true } }).toArray();
+
+  for (const timetable of timetables) {
+    const slots = [];
+    for (const slot of timetable.slots) {
+      if (slot.subjectId) {
+        slots.push(slot);
+        continue;
+      }
+      const { resolved, error } = await resolveLegacySlot({ ...slot, year: timetable.year, semester: timetable.semester });
+      if (error) {
+        // Keep the version untouched rather than saving it with holes
+        console.warn(`Timetable '${timetable.name}' not migrated: ${error}`);
+        break;
+      }
+      const { year, semester, ...snapshot } = resolved;
+      slots.push(snapshot);
+    }
+    if (slots.length !== timetable.slots.length) continue;
+
+    await Timetable.collection.updateOne({ _id: timetable._id }, { $set: { slots } });
+    console.log(`Timetable '${timetable.name}': migrated ${slots.length} slots`);
+  }
+};
+
+export const migrateSlotReferences = async () => {
+  await migrateLiveSlots();
+  await migrateVersionSnapshots();
+};
+
+if (require.main === module) {
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(migrateSlotReferences)
+    .catch(err => {
+      console.error("Slot reference migration failed:", err);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
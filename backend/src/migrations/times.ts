@@ -0,0 +1,104 @@
+// Rewrites times saved in the old 12-hour college form ("1:05-2:00", where hours 1-7 were
+// afternoon periods) as 24-hour "HH:mm" ("13:05-14:00"): live slots, saved versions, bell
+// schedules and lab hours. Times already in 24-hour form are left alone, so it can be rerun.
+// Run once after upgrading: npm run migrate:times
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { CLOCK_TIME_PATTERN, TIME_RANGE_PATTERN, formatClockTime } from "@timetable/shared";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import BellSchedule from "../models/BellSchedule";
+import Lab from "../models/Lab";
+
+dotenv.config();
+
+// "1:05" -> "13:05", "8:10" -> "08:10"; null when it isn't a clock time at all
+const legacyClockTime = (value: string): string | null => {
+  if (CLOCK_TIME_PATTERN.test(value)) return value;
+  const match = /^\s*(\d{1,2}):(\d{2})\s*$/.exec(value);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return formatClockTime((hours < 8 ? hours + 12 : hours) * 60 + minutes);
+};
+
+const legacyTimeRange = (value: string): string | null => {
+  if (TIME_RANGE_PATTERN.test(value)) return value;
+  const parts = value.split("-");
+  if (parts.length !== 2) return null;
+  const [start, end] = parts.map(legacyClockTime);
+  return start && end && start < end ? `${start}-${end}` : null;
+};
+
+// The converted time, or the original with a warning when it can't be read
+const convert = (value: string, where: string): string => {
+  const converted = legacyTimeRange(value);
+  if (!converted) console.warn(`${where}: '${value}' is not a time range, left as is`);
+  return converted ?? value;
+};
+
+const migrateLiveSlots = async () => {
+  // Read through the raw collection: the schema rejects the old form
+  const slots = await TimetableSlot.collection.find({ time: { $not: TIME_RANGE_PATTERN } }).toArray();
+  let migrated = 0;
+  for (const slot of slots) {
+    const time = convert(slot.time, `Slot ${slot._id}`);
+    if (time === slot.time) continue;
+    await TimetableSlot.collection.updateOne({ _id: slot._id }, { $set: { time } });
+    migrated++;
+  }
+  console.log(`Timetable slots: migrated ${migrated} of ${slots.length}`);
+};
+
+const migrateVersionSnapshots = async () => {
+  const timetables = await Timetable.collection.find({ "slots.time": { $not: TIME_RANGE_PATTERN } }).toArray();
+  for (const timetable of timetables) {
+    const slots = timetable.slots.map((slot: { time: string }) =>
+      ({ ...slot, time: convert(slot.time, `Timetable '${timetable.name}'`) }));
+    await Timetable.collection.updateOne({ _id: timetable._id }, { $set: { slots } });
+  }
+  console.log(`Timetable versions: migrated ${timetables.length}`);
+};
+
+const migrateBellSchedules = async () => {
+  const schedules = await BellSchedule.collection.find({}).toArray();
+  const convertPeriods = (periods: { start: string; end: string }[], where: string) => periods.map(period => {
+    const [start, end] = convert(`${period.start}-${period.end}`, where).split("-");
+    return { ...period, start, end };
+  });
+  for (const schedule of schedules) {
+    const where = `Bell schedule ${schedule._id}`;
+    const shifts = schedule.shifts.map((shift: any) => ({ ...shift, periods: convertPeriods(shift.periods, where) }));
+    const dayVariations = (schedule.dayVariations ?? []).map((variation: any) =>
+      ({ ...variation, periods: convertPeriods(variation.periods, where) }));
+    await BellSchedule.collection.updateOne({ _id: schedule._id }, { $set: { shifts, dayVariations } });
+  }
+  console.log(`Bell schedules: checked ${schedules.length}`);
+};
+
+const migrateLabHours = async () => {
+  const labs = await Lab.collection.find({ availableHours: { $elemMatch: { $not: TIME_RANGE_PATTERN } } }).toArray();
+  for (const lab of labs) {
+    const availableHours = lab.availableHours.map((hours: string) => convert(hours, `Lab '${lab.name}'`));
+    await Lab.collection.updateOne({ _id: lab._id }, { $set: { availableHours } });
+  }
+  console.log(`Labs: migrated ${labs.length}`);
+};
+
+export const migrateTimes = async () => {
+  await migrateLiveSlots();
+  await migrateVersionSnapshots();
+  await migrateBellSchedules();
+  await migrateLabHours();
+};
+
+if (require.main === module) {
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(migrateTimes)
+    .catch(err => {
+      console.error("Time migration failed:", err);
+      process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
+}
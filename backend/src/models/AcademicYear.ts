@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+import { YEAR_SESSIONS } from "@timetable/shared";
+import { changeFeedPlugin } from "../utils/changeFeed";
+import { WorkingDaysSchema } from "./BellSchedule";
+
+// A year of study the department teaches. Subjects, classrooms and slots refer to it by code.
+const AcademicYearSchema = new mongoose.Schema({
+  code: { type: String, required: true, trim: true }, // e.g. "SE"
+  label: { type: String, required: true, trim: true }, // e.g. "Second Year"
+  program: { type: String, required: true, trim: true }, // e.g. "B.E."
+  order: { type: Number, default: 0 },
+  divisions: [{ type: String, trim: true }], // each gets its own timetable
+  batches: [{
+    _id: false,
+    name: { type: String, required: true, trim: true },
+    division: { type: String, trim: true }, // unset when the year has no divisions
+    students: { type: Number, required: true, min: 1 }
+  }],
+  enrollment: [{ // students per division; a class without an entry counts its batches
+    _id: false,
+    division: { type: String, trim: true }, // unset when the year has no divisions
+    students: { type: Number, required: true, min: 1 }
+  }],
+  session: { type: String, enum: YEAR_SESSIONS, default: "Morning" },
+  workingDays: { type: WorkingDaysSchema, default: undefined }, // unset: the department's
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true }
+});
+
+AcademicYearSchema.index({ department: 1, code: 1 }, { unique: true });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+AcademicYearSchema.plugin(changeFeedPlugin, { collection: "academic-years" });
+
+export default mongoose.model("AcademicYear", AcademicYearSchema);
@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+import { AUDIT_ACTIONS, USER_ROLES } from "@timetable/shared";
+import { changeFeedPlugin } from "../utils/changeFeed";
+
+// Written by utils/audit, never updated
+const AuditEntrySchema = new mongoose.Schema({
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
+  resource: { type: String, required: true },
+  resourceId: String,
+  summary: { type: String, required: true },
+  // Copied rather than referenced, so entries keep their author after an account is deleted
+  actor: {
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    role: { type: String, enum: USER_ROLES, required: true }
+  },
+  changes: [{ _id: false, field: String, before: mongoose.Schema.Types.Mixed, after: mongoose.Schema.Types.Mixed }],
+  details: mongoose.Schema.Types.Mixed,
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department" } // unset for accounts and departments
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+AuditEntrySchema.index({ createdAt: -1 });
+AuditEntrySchema.index({ resource: 1, resourceId: 1, createdAt: -1 });
+
+// New entries are pushed to open activity views (GET /api/changes)
+AuditEntrySchema.plugin(changeFeedPlugin, { collection: "audit" });
+
+export default mongoose.model("AuditEntry", AuditEntrySchema);
@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+import { CLOCK_TIME_PATTERN, DAYS, PERIOD_KINDS, YEAR_SESSIONS } from "@timetable/shared";
+import { changeFeedPlugin } from "../utils/changeFeed";
+
+const PeriodSchema = new mongoose.Schema({
+  start: { type: String, match: CLOCK_TIME_PATTERN, required: true }, // 24-hour, e.g. "13:05"
+  end: { type: String, match: CLOCK_TIME_PATTERN, required: true },
+  kind: { type: String, enum: PERIOD_KINDS, required: true }
+}, { _id: false });
+
+// Also set on years that aren't taught on the department's days
+export const WorkingDaysSchema = new mongoose.Schema({
+  days: [{ type: String, enum: DAYS }],
+  alternate: [{ type: String, enum: DAYS }] // held every other week
+}, { _id: false });
+
+// The department's period grid, one per department. Slot times are written in its periods.
+const BellScheduleSchema = new mongoose.Schema({
+  labPeriods: { type: Number, default: 2, min: 1 }, // lectures in a row a lab session takes
+  shifts: [{
+    _id: false,
+    session: { type: String, enum: YEAR_SESSIONS, required: true },
+    periods: [PeriodSchema]
+  }],
+  dayVariations: [{
+    _id: false,
+    day: { type: String, enum: DAYS, required: true },
+    session: { type: String, enum: YEAR_SESSIONS, required: true },
+    periods: [PeriodSchema] // replace the shift's that day
+  }],
+  workingDays: { type: WorkingDaysSchema, default: () => ({ days: [...DAYS], alternate: [] }) },
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true }
+});
+
+BellScheduleSchema.index({ department: 1 }, { unique: true });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+BellScheduleSchema.plugin(changeFeedPlugin, { collection: "bell-schedules" });
+
+export default mongoose.model("BellSchedule", BellScheduleSchema);
@@ -1,12 +1,23 @@
 import mongoose from "mongoose";
+import { CLASSROOM_SHIFTS } from "@timetable/shared";
+import { changeFeedPlugin } from "../utils/changeFeed";
 
 const ClassroomSchema = new mongoose.Schema({
   name: { type: String, required: true },
-  capacity: { type: Number, required: true },
-  timeSlot: { type: String, enum: ["8AM-3PM", "10AM-5PM"], default: "8AM-3PM" },
-  assignedYear: { type: String, enum: ["SE", "TE", "BE"], required: true },
+  capacity: { type: Number, required: true, min: 1 },
+  timeSlot: { type: String, enum: CLASSROOM_SHIFTS, default: "8AM-3PM" },
+  assignedYear: { type: String, required: true }, // an AcademicYear code
+  assignedDivision: { type: String }, // one division of it; any division when unset
   floor: { type: Number, default: 1 },
-  amenities: [String]
+  amenities: [String],
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true }, // the owner
+  sharedWith: [{ type: mongoose.Schema.Types.ObjectId, ref: "Department" }] // can book it too
 });
 
+ClassroomSchema.index({ department: 1 });
+ClassroomSchema.index({ sharedWith: 1 });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+ClassroomSchema.plugin(changeFeedPlugin, { collection: "classrooms" });
+
 export default mongoose.model("Classroom", ClassroomSchema);
@@ -0,0 +1,13 @@
+import mongoose from "mongoose";
+import { changeFeedPlugin } from "../utils/changeFeed";
+
+// The tenant every other record belongs to (see middleware/department)
+const DepartmentSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true, trim: true },
+  code: { type: String, required: true, unique: true, uppercase: true, trim: true } // e.g. "COMP"
+});
+
+// Writes are broadcast on the change feed (GET /api/changes)
+DepartmentSchema.plugin(changeFeedPlugin, { collection: "departments" });
+
+export default mongoose.model("Department", DepartmentSchema);
@@ -1,4 +1,6 @@
 import mongoose from "mongoose";
+import { EMAIL_PATTERN, PHONE_PATTERN } from "@timetable/shared";
+import { changeFeedPlugin } from "../utils/changeFeed";
 
 const FacultySchema = new mongoose.Schema({
   name: { type: String, required: true },
@@ -10,7 +12,7 @@ const FacultySchema = new mongoose.Schema({
     trim: true,
     validate: {
       validator: function(v: string) {
-        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+        return EMAIL_PATTERN.test(v);
       },
       message: (props: any) => `${props.value} is not a valid email address!`
     }
@@ -22,15 +24,21 @@ const FacultySchema = new mongoose.Schema({
     validate: {
       validator: function(v: string) {
         // Accepts only 10 digits
-        return /^\d{10}$/.test(v);
+        return PHONE_PATTERN.test(v);
       },
       message: (props: any) => `${props.value} is not a valid phone number!`
     }
   },
-  department: String,
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true },
   subjects: [String], // subject codes
-  maxHoursPerDay: { type: Number, default: 4 },
-  preferredSlots: [String]
+  maxHoursPerDay: { type: Number, default: 4, min: 1 },
+  preferredSlots: [String],
+  unavailableSlots: [String]
 });
 
+FacultySchema.index({ department: 1 });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+FacultySchema.plugin(changeFeedPlugin, { collection: "faculty" });
+
 export default mongoose.model("Faculty", FacultySchema);
@@ -1,12 +1,22 @@
 import mongoose from "mongoose";
+import { changeFeedPlugin } from "../utils/changeFeed";
 
 const LabSchema = new mongoose.Schema({
   name: { type: String, required: true },
-  capacity: { type: Number, default: 30 },
+  capacity: { type: Number, default: 30, min: 1 },
   type: { type: String, required: true }, // e.g. "Computer Lab"
   equipment: [String],
   floor: { type: Number, default: 1 },
-  availableHours: [String] // e.g. ["8:00-9:00","9:00-10:00"]
+  availableHours: [String], // 24-hour ranges, e.g. ["08:00-12:15","13:05-17:00"]
+  compatibleSubjects: [String], // subject codes that can use this lab
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true }, // the owner
+  sharedWith: [{ type: mongoose.Schema.Types.ObjectId, ref: "Department" }] // can book it too
 });
 
+LabSchema.index({ department: 1 });
+LabSchema.index({ sharedWith: 1 });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+LabSchema.plugin(changeFeedPlugin, { collection: "labs" });
+
 export default mongoose.model("Lab", LabSchema);
@@ -1,14 +1,22 @@
 import mongoose from "mongoose";
+import { SLOT_TYPES } from "@timetable/shared";
+import { changeFeedPlugin } from "../utils/changeFeed";
 
 const SubjectSchema = new mongoose.Schema({
   name: { type: String, required: true },
-  code: { type: String, required: true, unique: true },
-  year: { type: String, enum: ["SE", "TE", "BE"], required: true },
-  type: { type: String, enum: ["theory", "lab"], default: "theory" },
-  labHours: { type: Number, default: 0 },
-  theoryHours: { type: Number, default: 0 },
+  code: { type: String, required: true }, // unique within the department
+  year: { type: String, required: true }, // an AcademicYear code; every division takes the subject
+  type: { type: String, enum: SLOT_TYPES, default: "theory" },
+  labHours: { type: Number, default: 0, min: 0 },
+  theoryHours: { type: Number, default: 0, min: 0 },
   faculty: { type: mongoose.Schema.Types.ObjectId, ref: "Faculty", required: true },
-  semester: { type: Number, required: true }
+  semester: { type: Number, required: true, min: 1, max: 8 },
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true },
 });
 
+SubjectSchema.index({ department: 1, code: 1 }, { unique: true });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+SubjectSchema.plugin(changeFeedPlugin, { collection: "subjects", populate: { path: "faculty", select: "name email department" } });
+
 export default mongoose.model("Subject", SubjectSchema);
@@ -1,20 +1,51 @@
 import mongoose from "mongoose";
+import { SLOT_TYPES, TIME_RANGE_PATTERN } from "@timetable/shared";
+import { flattenSlotReferences } from "../utils/slotReferences";
+
+// Snapshot of a slot as it was generated, so past versions survive regeneration
+const TimetableSlotSnapshotSchema = new mongoose.Schema({
+  day: { type: String, required: true },
+  time: { type: String, match: TIME_RANGE_PATTERN, required: true },
+  subjectId: { type: mongoose.Schema.Types.ObjectId, ref: "Subject", required: true },
+  facultyId: { type: mongoose.Schema.Types.ObjectId, ref: "Faculty", required: true },
+  roomId: { type: mongoose.Schema.Types.ObjectId, ref: "Classroom" },
+  labId: { type: mongoose.Schema.Types.ObjectId, ref: "Lab" },
+  type: { type: String, enum: SLOT_TYPES, required: true },
+  batch: { type: String },
+  duration: { type: Number, required: true }
+}, { _id: false });
+
+// Mirrors TimetableConstraints on the frontend
+const ConstraintsSchema = new mongoose.Schema({
+  maxHoursPerDay: Number,
+  minBreakBetweenClasses: Number,
+  maxConsecutiveHours: Number,
+  prioritizeLabAfternoon: Boolean,
+  allowBackToBackTheory: Boolean,
+  facultyRestSlots: Number,
+  yearBatchType: mongoose.Schema.Types.Mixed
+}, { _id: false });
 
 const TimetableSchema = new mongoose.Schema({
   name: { type: String, required: true },
-  year: { type: String, enum: ["SE", "TE", "BE"], required: true },
-  slots: [
-    {
-      day: String,
-      start: String,
-      end: String,
-      subject: String,
-      faculty: String,
-      room: String,
-      lab: String
-    }
-  ],
+  year: { type: String, required: true }, // an AcademicYear code
+  division: { type: String }, // set for years with divisions
+  semester: { type: Number, required: true },
+  version: { type: Number, required: true }, // increments per year/division/semester
+  isActive: { type: Boolean, default: false }, // the version currently in timetable-slots
+  constraints: { type: ConstraintsSchema, default: {} },
+  slots: [TimetableSlotSnapshotSchema],
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true },
   createdAt: { type: Date, default: Date.now }
 });
 
+TimetableSchema.set("toJSON", {
+  transform: (_doc, ret: any) => {
+    if (Array.isArray(ret.slots)) ret.slots.forEach(flattenSlotReferences);
+    return ret;
+  }
+});
+
+TimetableSchema.index({ department: 1, year: 1, division: 1, semester: 1, version: -1 }, { unique: true });
+
 export default mongoose.model("Timetable", TimetableSchema);
@@ -1,18 +1,49 @@
 import mongoose from "mongoose";
+import { DAYS, SLOT_TYPES, TIME_RANGE_PATTERN } from "@timetable/shared";
+import { flattenSlotReferences, slotReferencePopulate } from "../utils/slotReferences";
+import { changeFeedPlugin } from "../utils/changeFeed";
 
 const TimetableSlotSchema = new mongoose.Schema({
-  day: { type: String, enum: ["Monday","Tuesday","Wednesday","Thursday","Friday", "Saturday"], required: true },
-  time: { type: String, required: true }, // e.g., "09:00-10:00"
-  subject: { type: String, required: true }, // Changed to String to match frontend
-  faculty: { type: String, required: true }, // Changed to String to match frontend
-  room: { type: String, required: true }, // Changed from classroom to room
-  type: { type: String, enum: ["theory", "lab"], required: true },
-  year: { type: String, enum: ["SE", "TE", "BE"], required: true }, // Added year field
-  batch: { type: String, enum: ["A", "B", "C"] }, // Optional batch field
+  day: { type: String, enum: DAYS, required: true },
+  time: { type: String, match: TIME_RANGE_PATTERN, required: true }, // 24-hour, e.g. "13:05-14:00"
+  subjectId: { type: mongoose.Schema.Types.ObjectId, ref: "Subject", required: true },
+  facultyId: { type: mongoose.Schema.Types.ObjectId, ref: "Faculty", required: true },
+  roomId: { type: mongoose.Schema.Types.ObjectId, ref: "Classroom" }, // set for classroom sessions
+  labId: { type: mongoose.Schema.Types.ObjectId, ref: "Lab" }, // set for lab sessions
+  type: { type: String, enum: SLOT_TYPES, required: true },
+  year: { type: String, required: true }, // an AcademicYear code
+  division: { type: String }, // set for years with divisions
+  batch: { type: String }, // one of the division's batches; unset when the whole class attends
   duration: { type: Number, required: true }, // Duration in hours
   semester: { type: Number, required: true },
+  timetable: { type: mongoose.Schema.Types.ObjectId, ref: "Timetable" }, // version these slots were promoted from
+  // Slots are listed per department, but clash checks span all of them: faculty and
+  // shared rooms can't be in two departments' timetables at once
+  department: { type: mongoose.Schema.Types.ObjectId, ref: "Department", required: true },
 });
 
+// Every slot is held in exactly one place, a classroom or a lab
+TimetableSlotSchema.pre("validate", function () {
+  if (!this.roomId === !this.labId) {
+    this.invalidate("roomId", "A slot needs exactly one of roomId or labId");
+  }
+});
+
+// Responses carry the referenced names as subject/faculty/room (see slotReferences)
+TimetableSlotSchema.set("toJSON", {
+  transform: (_doc, ret) => flattenSlotReferences(ret)
+});
+
+// Indexes backing the filtered queries from the timetable views
+TimetableSlotSchema.index({ department: 1, year: 1, division: 1, semester: 1, day: 1 });
+TimetableSlotSchema.index({ facultyId: 1, day: 1 });
+TimetableSlotSchema.index({ roomId: 1, day: 1 });
+TimetableSlotSchema.index({ labId: 1, day: 1 });
+TimetableSlotSchema.index({ subjectId: 1 });
+
+// Writes are broadcast on the change feed (GET /api/changes)
+TimetableSlotSchema.plugin(changeFeedPlugin, { collection: "timetable-slots", populate: slotReferencePopulate() });
+
 const TimetableSlot = mongoose.model("TimetableSlot", TimetableSlotSchema);
 
 export default TimetableSlot;
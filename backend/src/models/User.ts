@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import { EMAIL_PATTERN, USER_ROLES } from "@timetable/shared";
+
+const UserSchema = new mongoose.Schema({
+  name: { type: String, required: true },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [EMAIL_PATTERN, "{VALUE} is not a valid email address"]
+  },
+  passwordHash: { type: String, required: true, select: false }, // see utils/passwords
+  role: { type: String, enum: USER_ROLES, required: true },
+  // The Faculty record a faculty account may edit the preferences of
+  faculty: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Faculty",
+    required: [function (this: { role: string }) { return this.role === "faculty"; }, "Faculty accounts need a faculty member"]
+  }
+}, {
+  toJSON: {
+    transform: (_doc, ret: Record<string, unknown>) => {
+      delete ret.passwordHash;
+      return ret;
+    }
+  }
+});
+
+export default mongoose.model("User", UserSchema);
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { ACADEMIC_YEAR_SCHEMA } from "@timetable/shared";
+import { getAcademicYears, createAcademicYear, updateAcademicYear, deleteAcademicYear } from "../controllers/academicYearController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+
+const router = Router();
+
+router.get("/", validateRequest({ query: listQuerySchema() }), getAcademicYears);
+router.post("/", requireAdmin, validateRequest({ body: ACADEMIC_YEAR_SCHEMA }), createAcademicYear);
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: ACADEMIC_YEAR_SCHEMA, partialBody: true }), updateAcademicYear);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS }), deleteAcademicYear);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { AUDIT_ACTIONS } from "@timetable/shared";
+import { getAuditEntries } from "../controllers/auditController";
+import { AUDIT_READERS, requireRole } from "../middleware/auth";
+import { validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}([T ][\\d:.]+(Z|[+-]\\d{2}:?\\d{2})?)?$";
+
+const router = Router();
+
+router.use(requireRole(...AUDIT_READERS));
+
+router.get("/", validateRequest({
+  query: listQuerySchema({
+    action: { type: "string", enum: AUDIT_ACTIONS },
+    resource: { type: "string" },
+    resourceId: { type: "string" },
+    actorId: { type: "id" },
+    from: { type: "string", pattern: DATE_PATTERN, patternMessage: "must be a date like 2024-06-30" },
+    to: { type: "string", pattern: DATE_PATTERN, patternMessage: "must be a date like 2024-06-30" }
+  })
+}), getAuditEntries);
+
+export default router;
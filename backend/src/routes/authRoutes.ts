@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { login, getCurrentUser } from "../controllers/authController";
+import { authenticate } from "../middleware/auth";
+import { validateRequest } from "../middleware/validateRequest";
+
+const router = Router();
+
+router.post("/login", validateRequest({
+  body: {
+    fields: {
+      email: { type: "string", required: true },
+      password: { type: "string", required: true }
+    }
+  }
+}), login);
+router.get("/me", authenticate, validateRequest({ query: { fields: {} } }), getCurrentUser); // takes no parameters
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { BELL_SCHEDULE_SCHEMA } from "@timetable/shared";
+import { getBellSchedules, updateBellSchedule } from "../controllers/bellScheduleController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+
+const router = Router();
+
+router.get("/", validateRequest({ query: { fields: {} } }), getBellSchedules); // takes no parameters
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: BELL_SCHEDULE_SCHEMA }), updateBellSchedule);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { streamChanges } from "../controllers/changeFeedController";
+import { validateRequest } from "../middleware/validateRequest";
+
+const router = Router();
+
+// EventSource can't send headers, so a browser passes its token and department in the query string
+router.get("/", validateRequest({
+  query: { fields: { access_token: { type: "string" }, department: { type: "id" } } }
+}), streamChanges);
+
+export default router;
@@ -1,11 +1,19 @@
 import { Router } from "express";
-import { getClassrooms, createClassroom, updateClassroom, deleteClassroom } from "../controllers/classroomController";
+import { CLASSROOM_SCHEMA } from "@timetable/shared";
+import { getClassrooms, createClassroom, updateClassroom, deleteClassroom, getClassroomDependents, getAvailableClassrooms } from "../controllers/classroomController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+import { AVAILABILITY_BODY } from "../utils/availability";
+import { DELETE_QUERY } from "../utils/masterDataDeletion";
 
 const router = Router();
 
-router.get("/", getClassrooms);
-router.post("/", createClassroom);
-router.put("/:id", updateClassroom);
-router.delete("/:id", deleteClassroom);
+router.get("/", validateRequest({ query: listQuerySchema() }), getClassrooms);
+router.post("/available", validateRequest({ body: AVAILABILITY_BODY }), getAvailableClassrooms);
+router.post("/", requireAdmin, validateRequest({ body: CLASSROOM_SCHEMA }), createClassroom);
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: CLASSROOM_SCHEMA, partialBody: true }), updateClassroom);
+router.get("/:id/dependents", validateRequest({ params: ID_PARAMS }), getClassroomDependents);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, query: DELETE_QUERY }), deleteClassroom);
 
 export default router;
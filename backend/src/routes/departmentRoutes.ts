@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { DEPARTMENT_SCHEMA } from "@timetable/shared";
+import { getDepartments, createDepartment, updateDepartment, deleteDepartment } from "../controllers/departmentController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+
+const router = Router();
+
+router.get("/", validateRequest({ query: listQuerySchema() }), getDepartments);
+router.post("/", requireAdmin, validateRequest({ body: DEPARTMENT_SCHEMA }), createDepartment);
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: DEPARTMENT_SCHEMA, partialBody: true }), updateDepartment);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS }), deleteDepartment);
+
+export default router;
@@ -1,11 +1,19 @@
 import { Router } from "express";
-import { getFaculty, createFaculty, updateFaculty, deleteFaculty } from "../controllers/facultyController";
+import { FACULTY_SCHEMA } from "@timetable/shared";
+import { getFaculty, createFaculty, updateFaculty, deleteFaculty, getFacultyDependents, getAvailableFaculty } from "../controllers/facultyController";
+import { requireAdmin, requireAdminOrOwnPreferences } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+import { AVAILABILITY_BODY } from "../utils/availability";
+import { DELETE_QUERY } from "../utils/masterDataDeletion";
 
 const router = Router();
 
-router.get("/", getFaculty);
-router.post("/", createFaculty);
-router.put("/:id", updateFaculty);
-router.delete("/:id", deleteFaculty);
+router.get("/", validateRequest({ query: listQuerySchema() }), getFaculty);
+router.post("/available", validateRequest({ body: AVAILABILITY_BODY }), getAvailableFaculty);
+router.post("/", requireAdmin, validateRequest({ body: FACULTY_SCHEMA }), createFaculty);
+router.put("/:id", validateRequest({ params: ID_PARAMS, body: FACULTY_SCHEMA, partialBody: true }), requireAdminOrOwnPreferences, updateFaculty);
+router.get("/:id/dependents", validateRequest({ params: ID_PARAMS }), getFacultyDependents);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, query: DELETE_QUERY }), deleteFaculty);
 
 export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { initializeData } from "../controllers/initializeDataController";
+import { requireAdmin } from "../middleware/auth";
+import { validateRequest } from "../middleware/validateRequest";
+
+const router = Router();
+
+router.post("/", requireAdmin, validateRequest({ query: { fields: { mode: { type: "string", enum: ["merge", "reset"] } } } }), initializeData);
+
+export default router;
@@ -1,11 +1,19 @@
 import { Router } from "express";
-import { getLabs, createLab, updateLab, deleteLab } from "../controllers/labController";
+import { LAB_SCHEMA } from "@timetable/shared";
+import { getLabs, createLab, updateLab, deleteLab, getLabDependents, getAvailableLabs } from "../controllers/labController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+import { AVAILABILITY_BODY } from "../utils/availability";
+import { DELETE_QUERY } from "../utils/masterDataDeletion";
 
 const router = Router();
 
-router.get("/", getLabs);
-router.post("/", createLab);
-router.put("/:id", updateLab);
-router.delete("/:id", deleteLab);
+router.get("/", validateRequest({ query: listQuerySchema() }), getLabs);
+router.post("/available", validateRequest({ body: AVAILABILITY_BODY }), getAvailableLabs);
+router.post("/", requireAdmin, validateRequest({ body: LAB_SCHEMA }), createLab);
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: LAB_SCHEMA, partialBody: true }), updateLab);
+router.get("/:id/dependents", validateRequest({ params: ID_PARAMS }), getLabDependents);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, query: DELETE_QUERY }), deleteLab);
 
 export default router;
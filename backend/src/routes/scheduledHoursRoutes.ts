@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { getScheduledHours, getRemainingHours } from "../controllers/scheduledHoursController";
+import { validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+
+const router = Router();
+
+router.get("/", validateRequest({
+  query: listQuerySchema({
+    subjectId: { type: "id" },
+    facultyId: { type: "id" },
+    batch: { type: "string" },
+    year: { type: "string" },
+    division: { type: "string" },
+    semester: { type: "number", integer: true, min: 1, max: 8 },
+    status: { type: "string", enum: ["under", "complete", "over"] }
+  })
+}), getScheduledHours);
+router.get("/remaining", validateRequest({
+  query: {
+    fields: {
+      subjectId: { type: "id", required: true },
+      batch: { type: "string", required: true },
+      division: { type: "string" }
+    }
+  }
+}), getRemainingHours);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getSchemas, getSchema } from "../controllers/schemaController";
+import { validateRequest } from "../middleware/validateRequest";
+
+const router = Router();
+
+router.get("/", validateRequest({ query: { fields: {} } }), getSchemas); // takes no parameters
+router.get("/:resource", validateRequest({ params: { fields: { resource: { type: "string", required: true } } } }), getSchema);
+
+export default router;
@@ -1,11 +1,17 @@
 import { Router } from "express";
-import { getSubjects, createSubject, updateSubject, deleteSubject } from "../controllers/subjectController";
+import { SUBJECT_SCHEMA } from "@timetable/shared";
+import { getSubjects, createSubject, updateSubject, deleteSubject, getSubjectDependents } from "../controllers/subjectController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+import { DELETE_QUERY } from "../utils/masterDataDeletion";
 
 const router = Router();
 
-router.get("/", getSubjects);
-router.post("/", createSubject);
-router.put("/:id", updateSubject);
-router.delete("/:id", deleteSubject);
+router.get("/", validateRequest({ query: listQuerySchema() }), getSubjects);
+router.post("/", requireAdmin, validateRequest({ body: SUBJECT_SCHEMA }), createSubject);
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: SUBJECT_SCHEMA, partialBody: true }), updateSubject);
+router.get("/:id/dependents", validateRequest({ params: ID_PARAMS }), getSubjectDependents);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, query: DELETE_QUERY }), deleteSubject);
 
 export default router;
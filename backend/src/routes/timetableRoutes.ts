@@ -1,11 +1,72 @@
 import { Router } from "express";
-import { getTimetables, createTimetable, updateTimetable, deleteTimetable } from "../controllers/timetableController";
+import { RecordSchema } from "@timetable/shared";
+import { getTimetables, getTimetableById, createTimetable, activateTimetable, updateTimetable, deleteTimetable } from "../controllers/timetableController";
+import {
+  startGeneration,
+  getGenerationJobs,
+  getGenerationJobById,
+  getGenerationJobResult,
+  cancelGeneration,
+  runGenerationCheck
+} from "../controllers/generationController";
+import { requireAdmin } from "../middleware/auth";
+import { FORCE_QUERY, ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
 
 const router = Router();
 
-router.get("/", getTimetables);
-router.post("/", createTimetable);
-router.put("/:id", updateTimetable);
-router.delete("/:id", deleteTimetable);
+const JOB_PARAMS: RecordSchema = { fields: { jobId: { type: "string", required: true } } };
+
+// Generation jobs, registered before /:id so "generate" isn't taken for a version id
+router.post("/generate", requireAdmin, validateRequest({
+  body: {
+    fields: {
+      year: { type: "string", required: true },
+      division: { type: "string" },
+      semester: { type: "number", integer: true, min: 1, max: 8, required: true },
+      constraints: { type: "object", required: true }
+    }
+  }
+}), startGeneration);
+router.get("/generate", validateRequest({
+  query: {
+    fields: {
+      year: { type: "string" },
+      division: { type: "string" },
+      semester: { type: "number", integer: true, min: 1, max: 8 }
+    }
+  }
+}), getGenerationJobs);
+router.post("/generate/checks/:check", requireAdmin, validateRequest({ params: { fields: { check: { type: "string", required: true } } } }), runGenerationCheck);
+router.get("/generate/:jobId", validateRequest({ params: JOB_PARAMS }), getGenerationJobById);
+router.get("/generate/:jobId/result", validateRequest({ params: JOB_PARAMS }), getGenerationJobResult);
+router.post("/generate/:jobId/cancel", requireAdmin, validateRequest({ params: JOB_PARAMS }), cancelGeneration);
+
+router.get("/", validateRequest({
+  query: listQuerySchema({
+    year: { type: "string" },
+    division: { type: "string" },
+    semester: { type: "number", integer: true, min: 1, max: 8 }
+  })
+}), getTimetables);
+router.get("/:id", validateRequest({ params: ID_PARAMS }), getTimetableById);
+router.post("/", requireAdmin, validateRequest({
+  query: FORCE_QUERY,
+  body: {
+    fields: {
+      year: { type: "string", required: true },
+      division: { type: "string" },
+      semester: { type: "number", integer: true, min: 1, max: 8, required: true },
+      slots: { type: "array", required: true }, // checked slot by slot in the handler so errors carry their index
+      constraints: { type: "object" },
+      name: { type: "string" },
+      activate: { type: "boolean" }
+    }
+  }
+}), createTimetable);
+router.post("/:id/activate", requireAdmin, validateRequest({ params: ID_PARAMS, query: FORCE_QUERY }), activateTimetable);
+// Versions are immutable apart from their name
+router.put("/:id", requireAdmin, validateRequest({ params: ID_PARAMS, body: { fields: { name: { type: "string", required: true } } } }), updateTimetable);
+router.delete("/:id", requireAdmin, validateRequest({ params: ID_PARAMS }), deleteTimetable);
 
 export default router;
@@ -1,12 +1,39 @@
 import express from "express";
+import { DAYS, RecordSchema, SLOT_TYPES, TIMETABLE_SLOT_SCHEMA } from "@timetable/shared";
 import { getAllTimetableSlots, createTimetableSlot, deleteAllTimetableSlots, batchSaveTimetableSlots } from "../controllers/timetableSlots";
+import { requireAdmin } from "../middleware/auth";
+import { FORCE_QUERY, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
 
 const router = express.Router();
 
+// ?year=&semester=[&division=][&batch=], the slots a delete or batch save is limited to
+const SCOPE_FIELDS: RecordSchema["fields"] = {
+  year: { type: "string" },
+  semester: { type: "number", integer: true, min: 1, max: 8 },
+  division: { type: "string" },
+  batch: { type: "string" }
+};
+
 // GET /api/timetable-slots
-router.get("/", getAllTimetableSlots);
-router.post("/", createTimetableSlot);
-router.delete("/", deleteAllTimetableSlots);
-router.post("/batch", batchSaveTimetableSlots);
+router.get("/", validateRequest({
+  query: listQuerySchema({
+    ...SCOPE_FIELDS,
+    day: { type: "string", enum: DAYS },
+    type: { type: "string", enum: SLOT_TYPES },
+    faculty: { type: "string" },
+    room: { type: "string" },
+    facultyId: { type: "id" },
+    subjectId: { type: "id" },
+    roomId: { type: "id" },
+    labId: { type: "id" }
+  })
+}), getAllTimetableSlots);
+router.post("/", requireAdmin, validateRequest({ query: FORCE_QUERY, body: TIMETABLE_SLOT_SCHEMA }), createTimetableSlot);
+router.delete("/", requireAdmin, validateRequest({ query: { fields: SCOPE_FIELDS } }), deleteAllTimetableSlots);
+// The body is an array, checked slot by slot in the handler so errors carry their index
+router.post("/batch", requireAdmin, validateRequest({
+  query: { fields: { ...SCOPE_FIELDS, ...FORCE_QUERY.fields, replace: { type: "boolean" } } }
+}), batchSaveTimetableSlots);
 
 export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { USER_SCHEMA } from "@timetable/shared";
+import { getUsers, createUser, updateUser, deleteUser } from "../controllers/userController";
+import { requireAdmin } from "../middleware/auth";
+import { ID_PARAMS, validateRequest } from "../middleware/validateRequest";
+import { listQuerySchema } from "../utils/listQuery";
+
+const router = Router();
+
+// Accounts are managed by admins only
+router.use(requireAdmin);
+
+router.get("/", validateRequest({ query: listQuerySchema() }), getUsers);
+router.post("/", validateRequest({ body: USER_SCHEMA }), createUser);
+router.put("/:id", validateRequest({ params: ID_PARAMS, body: USER_SCHEMA, partialBody: true }), updateUser);
+router.delete("/:id", validateRequest({ params: ID_PARAMS }), deleteUser);
+
+export default router;
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+import AcademicYear from "../models/AcademicYear";
+
+// Lab batches A, B and C of 20 students in each division, as taught before batches were configurable
+export const DEFAULT_BATCH_STUDENTS = 20;
+export const defaultBatches = (divisions: string[] = []) =>
+  (divisions.length > 0 ? divisions : [undefined]).flatMap(division =>
+    ["A", "B", "C"].map(name => ({ name, division, students: DEFAULT_BATCH_STUDENTS }))
+  );
+
+// The years a department starts with, as taught before years were configurable.
+// Admins add, rename and split them into divisions from the Years & Divisions page.
+export const defaultAcademicYears = [
+  { code: "SE", label: "Second Year", program: "B.E.", order: 2, divisions: [], batches: defaultBatches(), session: "Morning" },
+  { code: "TE", label: "Third Year", program: "B.E.", order: 3, divisions: [], batches: defaultBatches(), session: "Morning" },
+  { code: "BE", label: "Final Year", program: "B.E.", order: 4, divisions: [], batches: defaultBatches(), session: "Afternoon" }
+];
+
+// Gives a department without any years the defaults
+export const ensureAcademicYears = async (department: mongoose.Types.ObjectId | string) => {
+  if (await AcademicYear.exists({ department })) return;
+  await AcademicYear.insertMany(defaultAcademicYears.map(year => ({ ...year, department })));
+};
@@ -0,0 +1,17 @@
+import User from "../models/User";
+import { hashPassword } from "../utils/passwords";
+
+// The first account can't be created through the API, since that needs an admin.
+// On a database without users, ADMIN_EMAIL and ADMIN_PASSWORD create one.
+export const ensureAdminUser = async () => {
+  if (await User.exists({})) return;
+
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) {
+    console.warn("No user accounts yet: set ADMIN_EMAIL and ADMIN_PASSWORD to create the first admin");
+    return;
+  }
+  await User.create({ name: "Administrator", email, passwordHash: await hashPassword(password), role: "admin" });
+  console.log(`👤 Created admin account ${email}`);
+};
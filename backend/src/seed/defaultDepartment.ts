@@ -0,0 +1,17 @@
+import Department from "../models/Department";
+import { ensureAcademicYears } from "./academicYears";
+
+// Every record needs a department, so a database without any gets one to start with,
+// named by DEPARTMENT_NAME and DEPARTMENT_CODE. More are added from the department switcher.
+export const ensureDefaultDepartment = async () => {
+  const existing = await Department.findOne().sort({ name: 1 });
+  if (existing) return existing;
+
+  const department = await Department.create({
+    name: process.env.DEPARTMENT_NAME || "Computer Engineering",
+    code: process.env.DEPARTMENT_CODE || "COMP"
+  });
+  await ensureAcademicYears(department._id);
+  console.log(`🏫 Created department ${department.name}`);
+  return department;
+};
@@ -0,0 +1,68 @@
+// Sample Computer Engineering department used by POST /api/initialize-data, which loads it
+// into the department the request is made in. Faculty are keyed by email, subjects by code
+// and rooms/labs by name, so the seed can be re-applied without creating duplicates.
+
+export const sampleFaculty = [
+  { name: "Dr. Anjali Deshmukh", email: "anjali.deshmukh@college.edu", phone: "9822011001", maxHoursPerDay: 4, preferredSlots: ["Morning"] },
+  { name: "Prof. Rahul Kulkarni", email: "rahul.kulkarni@college.edu", phone: "9822011002", maxHoursPerDay: 5, preferredSlots: [] },
+  { name: "Dr. Sneha Patil", email: "sneha.patil@college.edu", phone: "9822011003", maxHoursPerDay: 4, preferredSlots: ["Afternoon"] },
+  { name: "Prof. Amit Joshi", email: "amit.joshi@college.edu", phone: "9822011004", maxHoursPerDay: 5, preferredSlots: [] },
+  { name: "Dr. Priya Shinde", email: "priya.shinde@college.edu", phone: "9822011005", maxHoursPerDay: 4, preferredSlots: ["Morning"] },
+  { name: "Prof. Vikram Jadhav", email: "vikram.jadhav@college.edu", phone: "9822011006", maxHoursPerDay: 5, preferredSlots: [] },
+  { name: "Dr. Meera Gokhale", email: "meera.gokhale@college.edu", phone: "9822011007", maxHoursPerDay: 4, preferredSlots: ["Afternoon"] },
+  { name: "Prof. Sachin Pawar", email: "sachin.pawar@college.edu", phone: "9822011008", maxHoursPerDay: 5, preferredSlots: [] }
+];
+
+// facultyEmail is resolved to the Faculty ObjectId when seeding
+export const sampleSubjects = [
+  // SE - Semester 3
+  { code: "CS301", name: "Discrete Mathematics", year: "SE", semester: 3, theoryHours: 3, labHours: 0, facultyEmail: "anjali.deshmukh@college.edu" },
+  { code: "CS302", name: "Data Structures", year: "SE", semester: 3, theoryHours: 3, labHours: 2, facultyEmail: "rahul.kulkarni@college.edu" },
+  { code: "CS303", name: "Object Oriented Programming", year: "SE", semester: 3, theoryHours: 3, labHours: 2, facultyEmail: "amit.joshi@college.edu" },
+  { code: "CS304", name: "Digital Electronics and Logic Design", year: "SE", semester: 3, theoryHours: 3, labHours: 2, facultyEmail: "vikram.jadhav@college.edu" },
+  // SE - Semester 4
+  { code: "CS401", name: "Engineering Mathematics III", year: "SE", semester: 4, theoryHours: 3, labHours: 0, facultyEmail: "anjali.deshmukh@college.edu" },
+  { code: "CS402", name: "Data Structures and Algorithms", year: "SE", semester: 4, theoryHours: 3, labHours: 2, facultyEmail: "rahul.kulkarni@college.edu" },
+  { code: "CS403", name: "Software Engineering", year: "SE", semester: 4, theoryHours: 3, labHours: 0, facultyEmail: "sneha.patil@college.edu" },
+  { code: "CS404", name: "Microprocessors", year: "SE", semester: 4, theoryHours: 3, labHours: 2, facultyEmail: "vikram.jadhav@college.edu" },
+  // TE - Semester 5
+  { code: "CS501", name: "Database Management Systems", year: "TE", semester: 5, theoryHours: 3, labHours: 2, facultyEmail: "priya.shinde@college.edu" },
+  { code: "CS502", name: "Theory of Computation", year: "TE", semester: 5, theoryHours: 3, labHours: 0, facultyEmail: "anjali.deshmukh@college.edu" },
+  { code: "CS503", name: "Systems Programming and Operating Systems", year: "TE", semester: 5, theoryHours: 3, labHours: 2, facultyEmail: "amit.joshi@college.edu" },
+  { code: "CS504", name: "Computer Networks and Security", year: "TE", semester: 5, theoryHours: 3, labHours: 2, facultyEmail: "sachin.pawar@college.edu" },
+  // TE - Semester 6
+  { code: "CS601", name: "Data Science and Big Data Analytics", year: "TE", semester: 6, theoryHours: 3, labHours: 2, facultyEmail: "priya.shinde@college.edu" },
+  { code: "CS602", name: "Web Technology", year: "TE", semester: 6, theoryHours: 3, labHours: 2, facultyEmail: "sneha.patil@college.edu" },
+  { code: "CS603", name: "Artificial Intelligence", year: "TE", semester: 6, theoryHours: 3, labHours: 0, facultyEmail: "meera.gokhale@college.edu" },
+  { code: "CS604", name: "Cloud Computing", year: "TE", semester: 6, theoryHours: 3, labHours: 0, facultyEmail: "sachin.pawar@college.edu" },
+  // BE - Semester 7
+  { code: "CS701", name: "Design and Analysis of Algorithms", year: "BE", semester: 7, theoryHours: 3, labHours: 2, facultyEmail: "rahul.kulkarni@college.edu" },
+  { code: "CS702", name: "Machine Learning", year: "BE", semester: 7, theoryHours: 3, labHours: 2, facultyEmail: "meera.gokhale@college.edu" },
+  { code: "CS703", name: "Blockchain Technology", year: "BE", semester: 7, theoryHours: 3, labHours: 0, facultyEmail: "amit.joshi@college.edu" },
+  { code: "CS704", name: "Cyber Security and Digital Forensics", year: "BE", semester: 7, theoryHours: 3, labHours: 0, facultyEmail: "sachin.pawar@college.edu" },
+  // BE - Semester 8
+  { code: "CS801", name: "High Performance Computing", year: "BE", semester: 8, theoryHours: 3, labHours: 2, facultyEmail: "vikram.jadhav@college.edu" },
+  { code: "CS802", name: "Deep Learning", year: "BE", semester: 8, theoryHours: 3, labHours: 2, facultyEmail: "meera.gokhale@college.edu" },
+  { code: "CS803", name: "Natural Language Processing", year: "BE", semester: 8, theoryHours: 3, labHours: 0, facultyEmail: "priya.shinde@college.edu" },
+  { code: "CS804", name: "Business Intelligence", year: "BE", semester: 8, theoryHours: 3, labHours: 0, facultyEmail: "sneha.patil@college.edu" }
+].map(subject => ({ ...subject, type: subject.labHours > 0 ? "lab" : "theory" }));
+
+export const sampleClassrooms = [
+  { name: "Room 301", capacity: 72, timeSlot: "8AM-3PM", assignedYear: "SE", floor: 3, amenities: ["Projector", "Whiteboard"] },
+  { name: "Room 302", capacity: 72, timeSlot: "8AM-3PM", assignedYear: "SE", floor: 3, amenities: ["Projector"] },
+  { name: "Room 401", capacity: 72, timeSlot: "8AM-3PM", assignedYear: "TE", floor: 4, amenities: ["Projector", "Smart Board"] },
+  { name: "Room 402", capacity: 72, timeSlot: "8AM-3PM", assignedYear: "TE", floor: 4, amenities: ["Projector"] },
+  { name: "Room 501", capacity: 72, timeSlot: "10AM-5PM", assignedYear: "BE", floor: 5, amenities: ["Projector", "Smart Board"] },
+  { name: "Room 502", capacity: 72, timeSlot: "10AM-5PM", assignedYear: "BE", floor: 5, amenities: ["Projector"] }
+];
+
+// Labs are open outside the 12:15-13:05 lunch break
+const LAB_HOURS = ["08:00-12:15", "13:05-17:00"];
+
+export const sampleLabs = [
+  { name: "Programming Lab 1", capacity: 24, type: "Computer Lab", floor: 2, equipment: ["24 Desktops", "Projector"], compatibleSubjects: ["CS302", "CS303", "CS402", "CS701"] },
+  { name: "Programming Lab 2", capacity: 24, type: "Computer Lab", floor: 2, equipment: ["24 Desktops"], compatibleSubjects: ["CS302", "CS303", "CS402", "CS503"] },
+  { name: "Hardware Lab", capacity: 24, type: "Electronics Lab", floor: 1, equipment: ["Logic Trainers", "8086 Kits", "Oscilloscopes"], compatibleSubjects: ["CS304", "CS404", "CS801"] },
+  { name: "Networking Lab", capacity: 24, type: "Computer Lab", floor: 2, equipment: ["24 Desktops", "Managed Switches", "Routers"], compatibleSubjects: ["CS504", "CS503", "CS602"] },
+  { name: "Data Science Lab", capacity: 24, type: "Computer Lab", floor: 3, equipment: ["24 GPU Workstations"], compatibleSubjects: ["CS501", "CS601", "CS702", "CS802", "CS801"] }
+].map(lab => ({ ...lab, availableHours: LAB_HOURS }));
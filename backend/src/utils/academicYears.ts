@@ -0,0 +1,105 @@
+import AcademicYear from "../models/AcademicYear";
+import { BadRequestError } from "./httpErrors";
+
+type BatchRecord = { name: string; division?: string | null; students: number };
+type YearRecord = { code: string; divisions: string[]; batches?: BatchRecord[] };
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === "";
+
+// The batches of one division of the year, or of the whole year when it has no divisions
+export const batchesOf = (year: YearRecord, division?: string | null): BatchRecord[] =>
+  (year.batches ?? []).filter(batch => (batch.division || undefined) === (division || undefined));
+
+// What's wrong with naming this year, division and batch, or null. A division must be one of the
+// year's; `divisionRequired` also demands one for years that have divisions (timetables are per division).
+// A batch must be one of the division's.
+export const yearProblem = (
+  years: YearRecord[],
+  { year, division, batch }: { year: unknown; division?: unknown; batch?: unknown },
+  divisionRequired = false
+): { field: "year" | "division" | "batch"; message: string } | null => {
+  const config = years.find(candidate => candidate.code === year);
+  if (!config) {
+    return { field: "year", message: `is not one of the department's years (${years.map(y => y.code).join(", ") || "none yet"})` };
+  }
+  const divisions = config.divisions;
+  if (isMissing(division)) {
+    if (divisionRequired && divisions.length > 0) {
+      return { field: "division", message: `is required for ${config.code} (${divisions.join(", ")})` };
+    }
+  } else if (divisions.length === 0) {
+    return { field: "division", message: `can't be set: ${config.code} has no divisions` };
+  } else if (!divisions.includes(String(division))) {
+    return { field: "division", message: `is not a division of ${config.code} (${divisions.join(", ")})` };
+  }
+  if (isMissing(batch)) return null;
+
+  const names = batchesOf(config, isMissing(division) ? undefined : String(division)).map(candidate => candidate.name);
+  const owner = isMissing(division) ? config.code : `${config.code}-${division}`;
+  return names.includes(String(batch))
+    ? null
+    : { field: "batch", message: `is not a batch of ${owner} (${names.join(", ") || "none configured"})` };
+};
+
+// What's wrong with a year's batch list, or null: each batch needs a name, a student count
+// and, when the year has divisions, one of them. Names are unique within a division.
+export const batchListProblem = (divisions: string[], batches: unknown): string | null => {
+  if (!Array.isArray(batches)) return "must be a list";
+  const seen = new Set<string>();
+  for (const batch of batches) {
+    if (typeof batch !== "object" || batch === null) return "must be a list of batches";
+    const { name, division, students } = batch as Record<string, unknown>;
+    if (typeof name !== "string" || name.trim() === "") return "need a name";
+    if (!Number.isInteger(students) || (students as number) < 1) return `${name} needs a whole number of students`;
+    if (divisions.length === 0) {
+      if (!isMissing(division)) return `${name} can't name a division: the year has none`;
+    } else if (!divisions.includes(String(division))) {
+      return `${name} must belong to one of the divisions (${divisions.join(", ")})`;
+    }
+    const key = `${isMissing(division) ? "" : division}/${name.trim()}`;
+    if (seen.has(key)) return `${isMissing(division) ? "" : `${division} `}${name} is listed twice`;
+    seen.add(key);
+  }
+  return null;
+};
+
+// What's wrong with a year's enrollment, or null: at most one whole number of students per
+// division (or one for the year without divisions), and no fewer than its batches hold
+export const enrollmentProblem = (divisions: string[], enrollment: unknown, batches: BatchRecord[]): string | null => {
+  if (!Array.isArray(enrollment)) return "must be a list";
+  const seen = new Set<string>();
+  for (const entry of enrollment) {
+    if (typeof entry !== "object" || entry === null) return "must be a list of classes";
+    const { division, students } = entry as Record<string, unknown>;
+    const owner = isMissing(division) ? "The year" : `Division ${division}`;
+    if (divisions.length === 0) {
+      if (!isMissing(division)) return `can't name a division: the year has none`;
+    } else if (!divisions.includes(String(division))) {
+      return `must name one of the divisions (${divisions.join(", ")})`;
+    }
+    if (!Number.isInteger(students) || (students as number) < 1) return `${owner} needs a whole number of students`;
+    const key = isMissing(division) ? "" : String(division);
+    if (seen.has(key)) return `${owner} is listed twice`;
+    seen.add(key);
+    const inBatches = batchesOf({ code: "", divisions, batches }, key).reduce((sum, batch) => sum + batch.students, 0);
+    if (inBatches > (students as number)) return `${owner} has ${students} students but its batches hold ${inBatches}`;
+  }
+  return null;
+};
+
+// Checks a year code (and division) against the department's years. `fields` names them
+// as the request body does, e.g. assignedYear on classrooms.
+export const checkAcademicYear = async (
+  department: string,
+  year: unknown,
+  division: unknown,
+  { yearField = "year", divisionField = "division", divisionRequired = false } = {}
+) => {
+  const years = await AcademicYear.find({ department });
+  const problem = yearProblem(years, { year, division }, divisionRequired);
+  if (problem) {
+    const field = problem.field === "year" ? yearField : divisionField;
+    throw new BadRequestError(`${field} ${problem.message}`, [{ field, message: problem.message }]);
+  }
+  return years.find(candidate => candidate.code === year)!;
+};
@@ -0,0 +1,60 @@
+import { Request } from "express";
+import { AuditAction, AuditChange } from "@timetable/shared";
+import AuditEntry from "../models/AuditEntry";
+
+type Snapshot = Record<string, unknown>;
+
+// Bookkeeping that changes on every write, and secrets
+const IGNORED_FIELDS = new Set(["_id", "__v", "createdAt", "updatedAt", "passwordHash"]);
+
+// Documents are stored as the plain JSON they'd be sent as, with populated references as ids
+const toSnapshot = (record: unknown): Snapshot | undefined => {
+  if (!record) return undefined;
+  const plain = typeof (record as any).toObject === "function" ? (record as any).toObject({ depopulate: true }) : record;
+  return JSON.parse(JSON.stringify(plain));
+};
+
+// The fields that differ between two versions of a record. A missing `before` is a
+// create and a missing `after` a delete, so every field is listed.
+export const diffRecords = (before?: Snapshot, after?: Snapshot): AuditChange[] => {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const change: AuditChange = { field };
+    if (before) change.before = before[field];
+    if (after) change.after = after[field];
+    if (JSON.stringify(change.before) !== JSON.stringify(change.after)) changes.push(change);
+  }
+  return changes;
+};
+
+export interface AuditRecord {
+  action: AuditAction;
+  resource: string; // the endpoint, e.g. "faculty"
+  resourceId?: unknown;
+  summary: string;
+  before?: unknown; // the record (document or plain object) before the change
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
+
+// Records a change made by the logged-in user. Call it once the change has gone through;
+// a failure here is logged rather than turning the successful write into an error.
+export const recordAudit = async (req: Request, { before, after, resourceId, ...entry }: AuditRecord) => {
+  const changes = diffRecords(toSnapshot(before), toSnapshot(after));
+  if (entry.action === "update" && changes.length === 0 && !entry.details) return; // saved unchanged
+
+  const { id, name, role } = req.user!;
+  try {
+    await AuditEntry.create({
+      ...entry,
+      department: req.department?.id,
+      resourceId: resourceId === undefined ? undefined : String(resourceId),
+      actor: { id, name, role },
+      changes
+    });
+  } catch (err) {
+    console.error(`Failed to record audit entry "${entry.summary}":`, err);
+  }
+};
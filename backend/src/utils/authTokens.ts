@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const TOKEN_TTL_SECONDS = 12 * 60 * 60; // a working day; users log in again after that
+
+interface TokenPayload {
+  sub: string; // User id
+  exp: number; // seconds since the epoch
+}
+
+// Without AUTH_SECRET every restart signs with a new key, which logs everyone out.
+// Read on first use, since dotenv loads .env after this module is imported.
+let fallbackSecret: string | undefined;
+const signingKey = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (!fallbackSecret) {
+    console.warn("AUTH_SECRET is not set; sessions will not survive a restart");
+    fallbackSecret = randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+};
+
+const sign = (data: string) => createHmac("sha256", signingKey()).update(data).digest("base64url");
+
+// "<payload>.<signature>", both base64url: a minimal signed token, checked by verifyToken
+export const signToken = (userId: string): string => {
+  const payload: TokenPayload = { sub: userId, exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+};
+
+// The user id the token was issued to, or null if it is forged, malformed or expired
+export const verifyToken = (token: string): string | null => {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(data, "base64url").toString());
+    return payload.exp > Date.now() / 1000 && typeof payload.sub === "string" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,54 @@
+import mongoose from "mongoose";
+import { DAYS, RecordSchema, TimeRange, parseTimeRange } from "@timetable/shared";
+import TimetableSlot from "../models/TimetableSlot";
+import { DAY_ORDER } from "./slotOrder";
+import { BadRequestError } from "./httpErrors";
+
+export class AvailabilityRequestError extends BadRequestError {}
+
+export interface AvailabilityRequest {
+  day: string;
+  time: string;
+  range: TimeRange;
+  duration: number; // hours
+  excludeSlotId?: string;
+}
+
+// Body of the POST /api/<resource>/available routes
+export const AVAILABILITY_BODY: RecordSchema = {
+  fields: {
+    day: { type: "string", enum: DAYS, required: true },
+    time: { type: "string", required: true },
+    duration: { type: "number" },
+    excludeSlotId: { type: "id" }
+  }
+};
+
+// Reads { day, time, duration?, excludeSlotId? } from the request body. Extra slot
+// fields sent by the frontend (subject, year, ...) are ignored.
+export const parseAvailabilityRequest = (body: any): AvailabilityRequest => {
+  const day = typeof body?.day === "string" ? body.day : "";
+  const time = typeof body?.time === "string" ? body.time : "";
+
+  if (!DAY_ORDER.includes(day)) {
+    throw new AvailabilityRequestError(`'day' must be one of ${DAY_ORDER.join(", ")}`);
+  }
+  const range = parseTimeRange(time);
+  if (!range) {
+    throw new AvailabilityRequestError(`'time' must be a 24-hour range such as "13:05-14:00"`);
+  }
+
+  const duration = Number(body.duration) > 0 ? Number(body.duration) : (range.end - range.start) / 60;
+  const excludeSlotId = typeof body.excludeSlotId === "string" ? body.excludeSlotId : undefined;
+  if (excludeSlotId && !mongoose.isValidObjectId(excludeSlotId)) {
+    throw new AvailabilityRequestError(`Invalid excludeSlotId '${excludeSlotId}'`);
+  }
+  return { day, time, range, duration, excludeSlotId };
+};
+
+// All slots booked on the requested day, minus the slot being edited (if any)
+export const findDaySlots = async (request: AvailabilityRequest) => {
+  const filter: Record<string, unknown> = { day: request.day };
+  if (request.excludeSlotId) filter._id = { $ne: request.excludeSlotId };
+  return TimetableSlot.find(filter);
+};
@@ -0,0 +1,101 @@
+import mongoose from "mongoose";
+import { DAYS, DEFAULT_BELL_SCHEDULE, FieldError, PERIOD_KINDS, WorkingDays, YEAR_SESSIONS, parseTimeRange } from "@timetable/shared";
+import BellSchedule from "../models/BellSchedule";
+import TimetableSlot from "../models/TimetableSlot";
+import { BadRequestError, ConflictError } from "./httpErrors";
+
+// The department's bell schedule, created with the default grid the first time it's needed
+export const loadBellSchedule = (department: mongoose.Types.ObjectId | string) =>
+  BellSchedule.findOneAndUpdate(
+    { department },
+    { $setOnInsert: { ...DEFAULT_BELL_SCHEDULE, department } },
+    { upsert: true, new: true }
+  ).orFail();
+
+// What's wrong with a list of periods, or null: each needs a kind and a time range,
+// and they must follow each other without overlapping
+const periodsProblem = (periods: unknown): string | null => {
+  if (!Array.isArray(periods) || periods.length === 0) return "need at least one period";
+  let previousEnd = -1;
+  for (const period of periods) {
+    const { start, end, kind } = (period ?? {}) as Record<string, unknown>;
+    const range = typeof start === "string" && typeof end === "string" ? parseTimeRange(`${start}-${end}`) : null;
+    if (!range) return `${start}-${end} is not a 24-hour time range such as 13:05-14:00`;
+    if (!(PERIOD_KINDS as readonly unknown[]).includes(kind)) return `${start}-${end} must be one of ${PERIOD_KINDS.join(", ")}`;
+    if (range.start < previousEnd) return `${start}-${end} overlaps or comes before the period above it`;
+    previousEnd = range.end;
+  }
+  return null;
+};
+
+// What's wrong with a working-days setting, or null: at least one day, none twice, and
+// alternate days among them
+export const workingDaysProblem = (value: unknown): string | null => {
+  const { days, alternate = [] } = (value ?? {}) as Record<string, unknown>;
+  const isDayList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every(day => (DAYS as readonly unknown[]).includes(day));
+  if (!isDayList(days) || days.length === 0) return `days must list at least one of ${DAYS.join(", ")}`;
+  if (new Set(days).size !== days.length) return "days can't list a day twice";
+  if (!isDayList(alternate)) return `alternate must list days from ${DAYS.join(", ")}`;
+  const notWorked = alternate.filter(day => !days.includes(day));
+  if (notWorked.length > 0) return `alternate days must be working days (${notWorked.join(", ")} isn't)`;
+  return null;
+};
+
+// Week order, as the days are stored
+export const sortWorkingDays = ({ days, alternate = [] }: { days: string[]; alternate?: string[] }) => ({
+  days: DAYS.filter(day => days.includes(day)),
+  alternate: DAYS.filter(day => alternate.includes(day))
+});
+
+// Refuses to drop working days that the years' live slots are still on
+export const checkDroppedDays = async (
+  department: unknown,
+  years: string[],
+  before: WorkingDays,
+  after: WorkingDays
+) => {
+  const dropped = before.days.filter(day => !after.days.includes(day));
+  if (dropped.length === 0 || years.length === 0) return;
+  const slots = await TimetableSlot.countDocuments({ department, year: { $in: years }, day: { $in: dropped } });
+  if (slots > 0) {
+    throw new ConflictError(`${slots} slot(s) are on ${dropped.join(", ")}, so it can't stop being a working day.`, { records: { slots } });
+  }
+};
+
+// Checks the shifts, day variations and working days of a bell schedule body; the schema
+// has already checked their types
+export const checkBellSchedule = ({ shifts, dayVariations = [], workingDays }: { shifts: unknown[]; dayVariations?: unknown[]; workingDays?: unknown }) => {
+  const errors: FieldError[] = [];
+  const seen = new Set<string>();
+  for (const shift of shifts as Record<string, unknown>[]) {
+    const session = shift?.session;
+    if (!(YEAR_SESSIONS as readonly unknown[]).includes(session)) {
+      errors.push({ field: "shifts", message: `session must be one of ${YEAR_SESSIONS.join(", ")}` });
+      continue;
+    }
+    if (seen.has(String(session))) errors.push({ field: "shifts", message: `${session} is listed twice` });
+    seen.add(String(session));
+    const problem = periodsProblem(shift.periods);
+    if (problem) errors.push({ field: "shifts", message: `${session}: ${problem}` });
+  }
+
+  const seenDays = new Set<string>();
+  for (const variation of dayVariations as Record<string, unknown>[]) {
+    const { day, session } = variation ?? {};
+    if (!(DAYS as readonly unknown[]).includes(day) || !seen.has(String(session))) {
+      errors.push({ field: "dayVariations", message: "each needs a day and the session of one of the shifts" });
+      continue;
+    }
+    const key = `${day} ${session}`;
+    if (seenDays.has(key)) errors.push({ field: "dayVariations", message: `${key} is listed twice` });
+    seenDays.add(key);
+    const problem = periodsProblem(variation.periods);
+    if (problem) errors.push({ field: "dayVariations", message: `${key}: ${problem}` });
+  }
+
+  const workingDaysError = workingDays === undefined ? null : workingDaysProblem(workingDays);
+  if (workingDaysError) errors.push({ field: "workingDays", message: workingDaysError });
+
+  if (errors.length > 0) throw new BadRequestError(errors.map(error => error.message).join("; "), errors);
+};
@@ -0,0 +1,152 @@
+import { EventEmitter } from "events";
+import mongoose, { ClientSession, Model, MongooseQueryMiddleware, PopulateOptions, Query, Schema } from "mongoose";
+
+// Collections are named like their API endpoints, so clients can match events to lists
+export type ChangeCollection = "subjects" | "faculty" | "classrooms" | "labs" | "timetable-slots" | "audit" | "departments" | "academic-years" | "bell-schedules";
+
+// `departments` are the ones that may see the change: the records' own and those they're
+// shared with. Unset for records outside any department (departments, account audit entries).
+export type ChangeEvent = (
+  | { collection: ChangeCollection; type: "insert" | "update"; documents: unknown[] }
+  | { collection: ChangeCollection; type: "delete"; ids: string[] }
+) & { departments?: string[] };
+
+export const isVisibleTo = (change: ChangeEvent, department: string) =>
+  !change.departments || change.departments.includes(department);
+
+type ScopedRecord = { _id: mongoose.Types.ObjectId; department?: unknown; sharedWith?: unknown[] };
+
+const audienceOf = (record: ScopedRecord): string[] | undefined =>
+  record.department ? [String(record.department), ...(record.sharedWith ?? []).map(String)] : undefined;
+
+// Splits records by who may see them, so each event only reaches its departments
+const byAudience = <T extends ScopedRecord>(records: T[]) => {
+  const groups = new Map<string, { departments?: string[]; records: T[] }>();
+  for (const record of records) {
+    const departments = audienceOf(record);
+    const key = departments ? [...departments].sort().join(",") : "";
+    const group = groups.get(key) ?? groups.set(key, { departments, records: [] }).get(key)!;
+    group.records.push(record);
+  }
+  return [...groups.values()];
+};
+
+const changes = new EventEmitter();
+changes.setMaxListeners(0); // one listener per open change stream
+
+export const onChange = (listener: (change: ChangeEvent) => void) => {
+  changes.on("change", listener);
+  return () => {
+    changes.off("change", listener);
+  };
+};
+
+// Changes made inside a transaction are held back until it commits
+const pendingChanges = new WeakMap<ClientSession, ChangeEvent[]>();
+
+const publishChange = (change: ChangeEvent, session?: ClientSession | null) => {
+  if (session?.inTransaction()) {
+    pendingChanges.set(session, [...(pendingChanges.get(session) ?? []), change]);
+    return;
+  }
+  changes.emit("change", change);
+};
+
+// Call after a transaction commits, to publish what it changed
+export const publishCommittedChanges = (session: ClientSession) => {
+  const pending = pendingChanges.get(session) ?? [];
+  pendingChanges.delete(session);
+  pending.forEach(change => changes.emit("change", change));
+};
+
+// Call when a transaction (or one attempt at it) is aborted
+export const discardPendingChanges = (session: ClientSession) => {
+  pendingChanges.delete(session);
+};
+
+interface ChangeFeedOptions {
+  collection: ChangeCollection;
+  populate?: PopulateOptions | PopulateOptions[]; // so documents look like the list endpoint's
+}
+
+const QUERY_WRITES: MongooseQueryMiddleware[] = ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne"];
+const QUERY_DELETES: MongooseQueryMiddleware[] = ["deleteOne", "deleteMany", "findOneAndDelete"];
+const SINGLE_DOCUMENT_OPS: MongooseQueryMiddleware[] = ["updateOne", "findOneAndUpdate", "replaceOne", "deleteOne", "findOneAndDelete"];
+const MULTI_DOCUMENT_OPS: MongooseQueryMiddleware[] = ["updateMany", "deleteMany"];
+
+// Records a query is about to touch, with who could see them before it runs
+const affectedRecords = new WeakMap<object, ScopedRecord[]>();
+const AUDIENCE_FIELDS = "_id department sharedWith";
+
+const querySession = (query: Query<unknown, unknown>) => (query.getOptions().session as ClientSession | undefined) ?? null;
+
+// Publishes every write made through the model: saves, insertMany and update/delete queries
+export const changeFeedPlugin = (schema: Schema, { collection, populate }: ChangeFeedOptions) => {
+  // Departments that could see a record before the write and no longer can are told it's gone
+  const publishDocuments = async (
+    model: Model<any>,
+    ids: unknown[],
+    type: "insert" | "update",
+    session: ClientSession | null,
+    before: ScopedRecord[] = []
+  ) => {
+    if (ids.length === 0) return;
+    const query = model.find({ _id: { $in: ids } }).session(session);
+    const documents = await (populate ? query.populate(populate) : query);
+    for (const { departments, records } of byAudience(documents)) {
+      publishChange({ collection, type, documents: records.map(doc => doc.toJSON()), departments }, session);
+    }
+    for (const record of before) {
+      const after = documents.find(doc => doc._id.equals(record._id));
+      const departments = after && audienceOf(after);
+      const gone = departments && audienceOf(record)?.filter(department => !departments.includes(department));
+      if (gone?.length) publishChange({ collection, type: "delete", ids: [String(record._id)], departments: gone }, session);
+    }
+  };
+
+  const publishDeletes = (records: ScopedRecord[], session: ClientSession | null) => {
+    for (const { departments, records: group } of byAudience(records)) {
+      publishChange({ collection, type: "delete", ids: group.map(record => String(record._id)), departments }, session);
+    }
+  };
+
+  schema.pre("save", async function () {
+    this.$locals.wasNew = this.isNew;
+    const movesAudience = this.isModified("department") || this.isModified("sharedWith");
+    if (!this.isNew && movesAudience) {
+      const model = this.constructor as Model<any>;
+      this.$locals.before = await model.find({ _id: this._id }).select(AUDIENCE_FIELDS).session(this.$session()).lean();
+    }
+  });
+  schema.post("save", async function (doc) {
+    const model = doc.constructor as Model<any>;
+    await publishDocuments(model, [doc._id], doc.$locals.wasNew ? "insert" : "update", doc.$session(), doc.$locals.before as ScopedRecord[] | undefined);
+  });
+
+  schema.post("insertMany", async function (this: Model<any>, result: unknown) {
+    const docs = result as any[];
+    await publishDocuments(this, docs.map(doc => doc._id), "insert", docs[0]?.$session() ?? null);
+  });
+
+  const lookUpAffectedRecords = (limit: number) => async function (this: Query<unknown, unknown>) {
+    const records = await this.model.find(this.getFilter()).select(AUDIENCE_FIELDS).limit(limit).session(querySession(this)).lean<ScopedRecord[]>();
+    affectedRecords.set(this, records);
+  };
+  schema.pre(SINGLE_DOCUMENT_OPS, { document: false, query: true }, lookUpAffectedRecords(1));
+  schema.pre(MULTI_DOCUMENT_OPS, { document: false, query: true }, lookUpAffectedRecords(0)); // 0: no limit
+
+  schema.post(QUERY_WRITES, { document: false, query: true }, async function (this: Query<unknown, unknown>, result: any) {
+    const records = affectedRecords.get(this) ?? [];
+    affectedRecords.delete(this);
+    // An upsert creates a document the lookup before the query couldn't see
+    const upserted = result?.upsertedId ?? (records.length === 0 ? result?._id : undefined);
+    if (upserted) await publishDocuments(this.model, [upserted], "insert", querySession(this));
+    await publishDocuments(this.model, records.map(record => record._id), "update", querySession(this), records);
+  });
+
+  schema.post(QUERY_DELETES, { document: false, query: true }, function (this: Query<unknown, unknown>) {
+    const records = affectedRecords.get(this) ?? [];
+    affectedRecords.delete(this);
+    publishDeletes(records, querySession(this));
+  });
+};
@@ -0,0 +1,24 @@
+import { Request } from "express";
+import Department from "../models/Department";
+import { BadRequestError } from "./httpErrors";
+
+// Records the request's department owns: what it lists, edits and deletes
+export const departmentFilter = (req: Request) => ({ department: req.department!.id });
+
+// Classrooms and labs a department owns or that others share with it: what it can book
+export const bookableBy = (department: string) => ({ $or: [{ department }, { sharedWith: department }] });
+
+export const bookableFilter = (req: Request) => bookableBy(req.department!.id);
+
+// A classroom or lab can be shared with other existing departments, not its owner
+export const checkSharedWith = async (req: Request) => {
+  const sharedWith: string[] | undefined = req.body.sharedWith;
+  if (!sharedWith) return;
+  if (sharedWith.includes(req.department!.id)) {
+    throw new BadRequestError("sharedWith can't include the owning department", [{ field: "sharedWith", message: "can't include the owning department" }]);
+  }
+  const found = await Department.countDocuments({ _id: { $in: sharedWith } });
+  if (found !== new Set(sharedWith).size) {
+    throw new BadRequestError("sharedWith names an unknown department", [{ field: "sharedWith", message: "names an unknown department" }]);
+  }
+};
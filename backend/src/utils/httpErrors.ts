@@ -0,0 +1,46 @@
+import { FieldError } from "@timetable/shared";
+
+// An error that knows how the API should answer it. Thrown from handlers and
+// turned into an ApiErrorBody response by the error middleware.
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: FieldError[],
+    public context: Record<string, unknown> = {} // extra fields for the response body
+  ) {
+    super(message);
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message: string, details?: FieldError[]) {
+    super(400, message, details);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(resource: string) {
+    super(404, `${resource} not found`);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, context: Record<string, unknown> = {}) {
+    super(409, message, undefined, context);
+  }
+}
+
+// No valid session: log in (again)
+export class UnauthorizedError extends HttpError {
+  constructor(message = "Please log in") {
+    super(401, message);
+  }
+}
+
+// Logged in, but the role doesn't allow it
+export class ForbiddenError extends HttpError {
+  constructor(message = "You don't have permission to do that") {
+    super(403, message);
+  }
+}
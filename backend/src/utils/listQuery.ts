@@ -0,0 +1,146 @@
+import { Request, Response } from "express";
+import { Model, PopulateOptions } from "mongoose";
+import { FieldSpec, RecordSchema } from "@timetable/shared";
+import { BadRequestError } from "./httpErrors";
+
+export class ListQueryError extends BadRequestError {}
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+type SortOrder = Record<string, 1 | -1>;
+
+// What clients of a list endpoint may search and sort on
+export interface ListOptions {
+  searchFields: string[]; // matched by ?q=, case-insensitively, anywhere in the value
+  sortFields: string[];
+  defaultSort?: SortOrder; // otherwise the endpoint's own ordering
+}
+
+export interface ListQuery {
+  search?: RegExp;
+  sort: SortOrder;
+  page: number;
+  limit?: number; // no limit: the whole list, as before paging existed
+}
+
+export interface ListResult<T> {
+  items: T[];
+  total: number; // matches across all pages
+}
+
+// The query a list endpoint accepts: ?page=&limit=&sort=&q= plus the endpoint's own filters
+export const listQuerySchema = (filters: Record<string, FieldSpec> = {}): RecordSchema => ({
+  fields: {
+    page: { type: "number", integer: true, min: 1 },
+    limit: { type: "number", integer: true, min: 1, max: MAX_PAGE_SIZE },
+    sort: { type: "string" },
+    q: { type: "string" },
+    ...filters
+  }
+});
+
+const queryValue = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+
+const parsePositiveInteger = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new ListQueryError(`'${name}' must be a whole number of at least 1`);
+  return parsed;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Parses ?page=&limit=&sort=&q=. `sort` is a comma-separated list of fields, each
+// prefixed with "-" for descending. A page without a limit gets DEFAULT_PAGE_SIZE items.
+export const parseListQuery = (query: Request["query"], options: ListOptions): ListQuery => {
+  const page = parsePositiveInteger(queryValue(query.page), "page");
+  let limit = parsePositiveInteger(queryValue(query.limit), "limit");
+  if (limit !== undefined && limit > MAX_PAGE_SIZE) throw new ListQueryError(`'limit' can be at most ${MAX_PAGE_SIZE}`);
+  if (page !== undefined && limit === undefined) limit = DEFAULT_PAGE_SIZE;
+
+  let sort: SortOrder = options.defaultSort ?? {};
+  const sortParam = queryValue(query.sort);
+  if (sortParam) {
+    sort = {};
+    for (const key of sortParam.split(",").map(part => part.trim()).filter(Boolean)) {
+      const field = key.replace(/^[-+]/, "");
+      if (!options.sortFields.includes(field)) {
+        throw new ListQueryError(`Cannot sort by '${field}', use one of ${options.sortFields.join(", ")}`);
+      }
+      sort[field] = key.startsWith("-") ? -1 : 1;
+    }
+  }
+
+  const q = queryValue(query.q);
+  return { search: q ? new RegExp(escapeRegExp(q), "i") : undefined, sort, page: page ?? 1, limit };
+};
+
+// Runs a list query against a model: the filter narrowed by ?q=, sorted, one page of it
+export const findList = async <T>(
+  model: Model<T>,
+  filter: Record<string, unknown>,
+  list: ListQuery,
+  options: ListOptions,
+  populate?: PopulateOptions | PopulateOptions[]
+): Promise<ListResult<unknown>> => {
+  const conditions = [filter];
+  if (list.search) {
+    conditions.push({ $or: options.searchFields.map(field => ({ [field]: list.search })) });
+  }
+  // $and keeps the search from clobbering an $or the filter already has
+  const where = conditions.length > 1 ? { $and: conditions } : filter;
+
+  let query = model.find(where).sort({ ...list.sort, _id: 1 }); // _id keeps pages stable across equal keys
+  if (list.limit !== undefined) query = query.skip((list.page - 1) * list.limit).limit(list.limit);
+  if (populate) query = query.populate(populate);
+
+  const [items, total] = await Promise.all([query, model.countDocuments(where)]);
+  return { items, total };
+};
+
+const valueAt = (record: unknown, path: string): unknown =>
+  path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), record);
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1; // blanks last
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+};
+
+// The same as findList, for lists that are computed or ordered in code. `fallback`
+// orders items the sort leaves tied, or all of them when no sort was asked for.
+export const pageList = <T>(
+  records: T[],
+  list: ListQuery,
+  options: ListOptions,
+  fallback?: (a: T, b: T) => number
+): ListResult<T> => {
+  const { search } = list;
+  const matching = search
+    ? records.filter(record => options.searchFields.some(field => {
+      const value = valueAt(record, field);
+      return value != null && search.test(String(value));
+    }))
+    : [...records];
+
+  matching.sort((a, b) => {
+    for (const [field, direction] of Object.entries(list.sort)) {
+      const diff = compareValues(valueAt(a, field), valueAt(b, field));
+      if (diff !== 0) return diff * direction;
+    }
+    return fallback ? fallback(a, b) : 0;
+  });
+
+  const items = list.limit === undefined
+    ? matching
+    : matching.slice((list.page - 1) * list.limit, list.page * list.limit);
+  return { items, total: matching.length };
+};
+
+// Lists are sent as a plain array; the total across all pages goes in X-Total-Count
+export const sendList = (res: Response, { items, total }: ListResult<unknown>) => {
+  res.set("X-Total-Count", String(total));
+  res.json(items);
+};
@@ -0,0 +1,194 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { RecordSchema } from "@timetable/shared";
+import Faculty from "../models/Faculty";
+import Subject from "../models/Subject";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import TimetableSlot from "../models/TimetableSlot";
+import Timetable from "../models/Timetable";
+import User from "../models/User";
+import { recordAudit } from "./audit";
+import { departmentFilter } from "./departments";
+import { withTransaction } from "./slotScope";
+import { conflictErrorBody, findSlotConflicts } from "./slotConflicts";
+
+export type MasterDataKind = "faculty" | "subject" | "classroom" | "lab";
+
+// How slots (live and in version snapshots) point at each kind of record
+const KINDS: Record<MasterDataKind, { label: string; model: mongoose.Model<any>; slotField: string; resource: string }> = {
+  faculty: { label: "Faculty member", model: Faculty, slotField: "facultyId", resource: "faculty" },
+  subject: { label: "Subject", model: Subject, slotField: "subjectId", resource: "subjects" },
+  classroom: { label: "Classroom", model: Classroom, slotField: "roomId", resource: "classrooms" },
+  lab: { label: "Lab", model: Lab, slotField: "labId", resource: "labs" }
+};
+
+const DELETE_MODES = ["cascade", "reassign"];
+
+// Query accepted by guardedDeleteHandler
+export const DELETE_QUERY: RecordSchema = {
+  fields: {
+    mode: { type: "string", enum: DELETE_MODES },
+    to: { type: "id" },
+    force: { type: "boolean" } // reassign even if the moved slots clash
+  }
+};
+
+// Everything that would dangle if the record were deleted, including the accounts linked to
+// a faculty member. A shared classroom or lab can have slots in other departments too;
+// those are counted (and cascaded) as well.
+export const findDependents = async (kind: MasterDataKind, id: string) => {
+  const { slotField } = KINDS[kind];
+  const objectId = new mongoose.Types.ObjectId(id);
+
+  const [subjects, accounts, slotCount, timetables] = await Promise.all([
+    kind === "faculty" ? Subject.find({ faculty: objectId }).select("code name year semester") : [],
+    kind === "faculty" ? User.find({ faculty: objectId }).select("name email role") : [],
+    TimetableSlot.countDocuments({ [slotField]: objectId }),
+    Timetable.aggregate([
+      { $match: { [`slots.${slotField}`]: objectId } },
+      {
+        $project: {
+          name: 1, year: 1, semester: 1, version: 1, isActive: 1,
+          slotCount: { $size: { $filter: { input: "$slots", cond: { $eq: [`$$this.${slotField}`, objectId] } } } }
+        }
+      },
+      { $sort: { year: 1, semester: 1, version: -1 } }
+    ])
+  ]);
+
+  return { subjects, accounts, slotCount, timetables, total: subjects.length + accounts.length + slotCount + timetables.length };
+};
+
+// Accounts can't be left linked to removed faculty members. A faculty account exists to act
+// as its faculty member, so it is removed with them; other accounts only lose the link.
+export const removeFacultyAccounts = async (facultyIds: mongoose.Types.ObjectId[], session?: mongoose.ClientSession) => {
+  await User.deleteMany({ faculty: { $in: facultyIds }, role: "faculty" }, { session });
+  await User.updateMany({ faculty: { $in: facultyIds } }, { $unset: { faculty: 1 } }, { session });
+};
+
+// Removes slots referencing any of the ids, both live and from saved versions
+const removeSlots = async (slotField: string, ids: mongoose.Types.ObjectId[], session?: mongoose.ClientSession) => {
+  await TimetableSlot.deleteMany({ [slotField]: { $in: ids } }, { session });
+  await Timetable.updateMany(
+    { [`slots.${slotField}`]: { $in: ids } },
+    { $pull: { slots: { [slotField]: { $in: ids } } } },
+    { session }
+  );
+};
+
+const cascadeDependents = async (kind: MasterDataKind, objectId: mongoose.Types.ObjectId, session?: mongoose.ClientSession) => {
+  // A faculty member's subjects go with them, along with those subjects' slots
+  if (kind === "faculty") {
+    const subjectIds = (await Subject.find({ faculty: objectId }).select("_id").session(session ?? null)).map(subject => subject._id);
+    await removeSlots("subjectId", subjectIds, session);
+    await Subject.deleteMany({ _id: { $in: subjectIds } }, { session });
+    await removeFacultyAccounts([objectId], session);
+  }
+  await removeSlots(KINDS[kind].slotField, [objectId], session);
+};
+
+// Clashes the live slots a reassignment moves would have afterwards, with each other
+// and with the rest of the timetable
+const findReassignConflicts = async (kind: MasterDataKind, objectId: mongoose.Types.ObjectId, to: mongoose.Types.ObjectId) => {
+  const { slotField } = KINDS[kind];
+  const moved = await TimetableSlot.find({ [slotField]: objectId }).lean();
+  if (moved.length === 0) return [];
+  return findSlotConflicts(
+    moved.map(slot => ({ ...slot, [slotField]: to })),
+    { _id: { $in: moved.map(slot => slot._id) } }
+  );
+};
+
+const reassignDependents = async (
+  kind: MasterDataKind, objectId: mongoose.Types.ObjectId, to: mongoose.Types.ObjectId, session?: mongoose.ClientSession
+) => {
+  const { slotField } = KINDS[kind];
+  if (kind === "faculty") {
+    await Subject.updateMany({ faculty: objectId }, { faculty: to }, { session });
+    await User.updateMany({ faculty: objectId }, { faculty: to }, { session });
+  }
+  await TimetableSlot.updateMany({ [slotField]: objectId }, { [slotField]: to }, { session });
+  await Timetable.updateMany(
+    { [`slots.${slotField}`]: objectId },
+    { $set: { [`slots.$[slot].${slotField}`]: to } },
+    { arrayFilters: [{ [`slot.${slotField}`]: objectId }], session }
+  );
+};
+
+// GET /api/<resource>/:id/dependents
+export const getDependentsHandler = (kind: MasterDataKind) => async (req: Request, res: Response) => {
+  const id = String(req.params.id);
+  if (!mongoose.isValidObjectId(id)) {
+    return res.status(400).json({ error: `Invalid ${kind} id` });
+  }
+  const record = await KINDS[kind].model.findOne({ _id: id, ...departmentFilter(req) }).select("_id");
+  if (!record) return res.status(404).json({ error: `${KINDS[kind].label} not found` });
+  res.json(await findDependents(kind, id));
+};
+
+// DELETE /api/<resource>/:id[?mode=cascade | ?mode=reassign&to=<id>[&force=true]]
+// Without a mode the delete is refused (409) while anything still references the record.
+// cascade removes the dependents; reassign points them at another record of the same kind,
+// refused (409) when the moved slots would clash unless forced. The dependents are changed
+// and the record deleted together, or not at all.
+export const guardedDeleteHandler = (kind: MasterDataKind) => async (req: Request, res: Response) => {
+  const { label, model, resource } = KINDS[kind];
+  const id = String(req.params.id);
+  const mode = typeof req.query.mode === "string" ? req.query.mode : undefined;
+  const to = typeof req.query.to === "string" ? req.query.to : undefined;
+
+  if (!mongoose.isValidObjectId(id)) {
+    return res.status(400).json({ error: `Invalid ${kind} id` });
+  }
+  if (mode !== undefined && !DELETE_MODES.includes(mode)) {
+    return res.status(400).json({ error: `Invalid mode '${mode}', expected 'cascade' or 'reassign'` });
+  }
+
+  // Records of other departments, shared ones included, can't be deleted from here
+  const record = await model.findOne({ _id: id, ...departmentFilter(req) });
+  if (!record) return res.status(404).json({ error: `${label} not found` });
+
+  const dependents = await findDependents(kind, id);
+  if (!mode && dependents.total > 0) {
+    return res.status(409).json({
+      error: `${label} '${record.name}' is still in use. Delete with mode=cascade or mode=reassign&to=<id>.`,
+      dependents
+    });
+  }
+
+  const objectId = record._id as mongoose.Types.ObjectId;
+  if (mode === "reassign") {
+    if (!to || !mongoose.isValidObjectId(to)) {
+      return res.status(400).json({ error: "mode=reassign requires a valid 'to' id" });
+    }
+    if (to === id) {
+      return res.status(400).json({ error: `Cannot reassign a ${kind} to itself` });
+    }
+    const target = await model.findOne({ _id: to, ...departmentFilter(req) });
+    if (!target) return res.status(404).json({ error: `Reassignment target ${kind} not found` });
+    // Slots keep their year/semester, so a subject can only hand them to a sibling
+    if (kind === "subject" && (target.year !== record.year || target.semester !== record.semester)) {
+      return res.status(400).json({ error: "Subjects can only be reassigned within the same year and semester" });
+    }
+    if (req.query.force !== "true") {
+      const conflicts = await findReassignConflicts(kind, objectId, target._id);
+      if (conflicts.length > 0) return res.status(409).json(conflictErrorBody(conflicts));
+    }
+  }
+
+  await withTransaction(async session => {
+    if (mode === "reassign") await reassignDependents(kind, objectId, new mongoose.Types.ObjectId(to), session);
+    else if (mode === "cascade") await cascadeDependents(kind, objectId, session);
+    await model.findByIdAndDelete(id, { session });
+  });
+  await recordAudit(req, {
+    action: "delete",
+    resource,
+    resourceId: id,
+    summary: `Deleted ${label.toLowerCase()} ${record.name}`,
+    before: record,
+    details: { mode: mode ?? "delete", reassignedTo: mode === "reassign" ? to : undefined, dependents: dependents.total }
+  });
+  res.json({ success: true, mode: mode ?? "delete", dependents });
+};
@@ -0,0 +1,20 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+// Stored as "<salt>:<key>", both hex
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16).toString("hex");
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [salt, keyHex] = stored.split(":");
+  if (!salt || !keyHex) return false;
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  const expected = Buffer.from(keyHex, "hex");
+  return expected.length === key.length && timingSafeEqual(expected, key);
+};
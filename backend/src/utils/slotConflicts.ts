@@ -0,0 +1,105 @@
+import TimetableSlot from "../models/TimetableSlot";
+import AcademicYear from "../models/AcademicYear";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import { flattenSlotReferences, slotReferencePopulate } from "./slotReferences";
+import { sessionStrength, timesOverlap } from "@timetable/shared";
+
+// The hard rules of the frontend ConstraintSolver, checked with real time ranges, plus
+// rooms too small for the students booked into them
+export type ConflictRule = "faculty" | "room" | "student" | "capacity";
+
+export interface SlotConflict {
+  rule: ConflictRule;
+  message: string;
+  slotIndex: number; // index in the submitted slots
+  slot: any;
+  conflictsWith?: { slotIndex?: number; slotId?: string; slot: any }; // another submitted slot, or a saved one; unset for capacity
+}
+
+const sameRef = (a: unknown, b: unknown) => a != null && b != null && String(a) === String(b);
+
+// Theory slots without a batch are attended by the whole class, so they clash with every batch.
+// Divisions of a year are separate classes. Each department has its own students; faculty and rooms are checked across departments.
+const sameStudents = (a: any, b: any) =>
+  sameRef(a.department, b.department) &&
+  a.year === b.year && Number(a.semester) === Number(b.semester) &&
+  (!a.division || !b.division || a.division === b.division) && (!a.batch || !b.batch || a.batch === b.batch);
+
+const describe = (slot: any) => `${slot.subject ?? "a slot"} (${slot.day} ${slot.time})`;
+
+const brokenRules = (slot: any, other: any): { rule: ConflictRule; message: string }[] => {
+  if (slot.day !== other.day || !timesOverlap(slot.time, other.time)) return [];
+
+  const broken: { rule: ConflictRule; message: string }[] = [];
+  if (sameRef(slot.facultyId, other.facultyId)) {
+    broken.push({ rule: "faculty", message: `${slot.faculty ?? "Faculty"} is already teaching ${describe(other)}` });
+  }
+  if (sameRef(slot.roomId, other.roomId) || sameRef(slot.labId, other.labId)) {
+    broken.push({ rule: "room", message: `${slot.room ?? "Room"} is already booked for ${describe(other)}` });
+  }
+  if (sameStudents(slot, other)) {
+    const year = slot.division ? `${slot.year}-${slot.division}` : slot.year;
+    const students = other.batch && slot.batch ? `${year} batch ${slot.batch}` : year;
+    broken.push({ rule: "student", message: `${students} already has ${describe(other)}` });
+  }
+  return broken;
+};
+
+// Slots whose classroom or lab seats fewer students than attend them: the batch for a
+// batch's lab, else the class. Strength comes from the slot's department's years.
+const findOverCapacity = async (slots: any[]): Promise<SlotConflict[]> => {
+  const [years, classrooms, labs] = await Promise.all([
+    AcademicYear.find({ department: { $in: slots.map(slot => slot.department).filter(Boolean) } })
+      .select("code divisions batches enrollment department"),
+    Classroom.find({ _id: { $in: slots.map(slot => slot.roomId).filter(Boolean) } }).select("name capacity"),
+    Lab.find({ _id: { $in: slots.map(slot => slot.labId).filter(Boolean) } }).select("name capacity")
+  ]);
+  const conflicts: SlotConflict[] = [];
+  slots.forEach((slot, slotIndex) => {
+    const room = slot.roomId ? classrooms.find(c => sameRef(c._id, slot.roomId)) : labs.find(l => sameRef(l._id, slot.labId));
+    const year = years.find(candidate => candidate.code === slot.year && sameRef(candidate.department, slot.department));
+    if (!room || !year) return;
+    const students = sessionStrength(year, slot);
+    if (students <= room.capacity) return;
+    const group = [slot.year, slot.division, slot.batch].filter(Boolean).join("-");
+    conflicts.push({ rule: "capacity", message: `${room.name} seats ${room.capacity}, but ${group} has ${students} students`, slotIndex, slot });
+  });
+  return conflicts;
+};
+
+// Checks slots (with resolved references) against each other and against the saved
+// timetables of every department, so shared rooms aren't double-booked, and against
+// room capacity. `ignore` is a filter for saved slots that the write is about to replace.
+export const findSlotConflicts = async (slots: any[], ignore?: Record<string, unknown>): Promise<SlotConflict[]> => {
+  const days = [...new Set(slots.map(slot => slot.day))];
+  const [saved, submitted, overCapacity] = await Promise.all([
+    TimetableSlot.find({ day: { $in: days }, ...(ignore ? { $nor: [ignore] } : {}) }).populate(slotReferencePopulate()),
+    // Populated copies, so conflict messages can name things
+    TimetableSlot.populate(slots.map(slot => ({ ...slot })), slotReferencePopulate()),
+    findOverCapacity(slots)
+  ]);
+  const savedSlots = saved.map(doc => doc.toJSON());
+  submitted.forEach(flattenSlotReferences);
+
+  const conflicts: SlotConflict[] = [...overCapacity];
+  submitted.forEach((slot, slotIndex) => {
+    submitted.slice(0, slotIndex).forEach((other, otherIndex) => {
+      for (const { rule, message } of brokenRules(slot, other)) {
+        conflicts.push({ rule, message, slotIndex, slot, conflictsWith: { slotIndex: otherIndex, slot: other } });
+      }
+    });
+    savedSlots.forEach(other => {
+      for (const { rule, message } of brokenRules(slot, other)) {
+        conflicts.push({ rule, message, slotIndex, slot, conflictsWith: { slotId: String(other._id), slot: other } });
+      }
+    });
+  });
+  return conflicts;
+};
+
+// Body of the 409 returned when a write is rejected for conflicts
+export const conflictErrorBody = (conflicts: SlotConflict[]) => ({
+  error: `${conflicts.length} scheduling conflict(s) found. Resend with ?force=true to save anyway.`,
+  conflicts
+});
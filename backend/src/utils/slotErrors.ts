@@ -0,0 +1,29 @@
+import { TIMETABLE_SLOT_SCHEMA, pickKnownFields, validateTimetableSlot } from "@timetable/shared";
+import { HttpError } from "./httpErrors";
+
+// A problem with one slot of a write, identified by its index in the request
+export interface SlotError {
+  index: number;
+  field?: string;
+  message: string;
+}
+
+// Thrown when some slots of a write are invalid. Nothing has been saved when it's thrown.
+// Answered with 400 and the full list as `slotErrors`.
+export class SlotWriteError extends HttpError {
+  constructor(public slotErrors: SlotError[]) {
+    const [first] = slotErrors;
+    const more = slotErrors.length > 1 ? ` (and ${slotErrors.length - 1} more)` : "";
+    super(400, `Slot ${first.index}: ${first.message}${more}`, undefined, { slotErrors });
+  }
+}
+
+// Checks every slot of a write, reporting all the invalid ones together, and cuts each down
+// to the slot fields so unknown keys (_id, timetable, ...) never reach the model
+export const checkSlotFields = (slots: unknown[]): Record<string, unknown>[] => {
+  const slotErrors: SlotError[] = slots.flatMap((slot, index) =>
+    validateTimetableSlot(slot).map(({ field, message }) => ({ index, field, message }))
+  );
+  if (slotErrors.length > 0) throw new SlotWriteError(slotErrors);
+  return slots.map(slot => pickKnownFields(TIMETABLE_SLOT_SCHEMA, slot as Record<string, unknown>));
+};
@@ -0,0 +1,10 @@
+import { DAYS, startMinutes } from "@timetable/shared";
+
+export const DAY_ORDER: readonly string[] = DAYS;
+
+// Sort comparator for slots: by weekday, then by start time
+export const compareSlots = (a: { day: string; time: string }, b: { day: string; time: string }): number => {
+  const dayDiff = DAY_ORDER.indexOf(a.day) - DAY_ORDER.indexOf(b.day);
+  if (dayDiff !== 0) return dayDiff;
+  return startMinutes(a.time) - startMinutes(b.time);
+};
@@ -0,0 +1,151 @@
+import mongoose from "mongoose";
+import { dayWeight, workingDaysOf } from "@timetable/shared";
+import Subject from "../models/Subject";
+import Faculty from "../models/Faculty";
+import Classroom from "../models/Classroom";
+import Lab from "../models/Lab";
+import AcademicYear from "../models/AcademicYear";
+import { SlotError, SlotWriteError } from "./slotErrors";
+import { bookableBy } from "./departments";
+import { yearProblem } from "./academicYears";
+import { loadBellSchedule } from "./bellSchedules";
+
+// Stops resolving one slot; collected into a SlotWriteError for the whole write
+class UnresolvedReference extends Error {
+  constructor(public field: string, message: string) {
+    super(message);
+  }
+}
+
+// Populate options for the references of a slot (or of slots nested under `prefix`)
+export const slotReferencePopulate = (prefix = "") => [
+  { path: `${prefix}subjectId`, select: "name code" },
+  { path: `${prefix}facultyId`, select: "name" },
+  { path: `${prefix}roomId`, select: "name" },
+  { path: `${prefix}labId`, select: "name" }
+];
+
+const isPopulated = (ref: unknown): ref is { _id: unknown; name: string; code?: string } =>
+  typeof ref === "object" && ref !== null && !(ref instanceof mongoose.Types.ObjectId) && "name" in ref;
+
+// Turns populated references back into plain ids plus the display-name fields
+// (subject, faculty, room) the frontend reads. A reference that no longer resolves
+// comes back as a null name so orphans are visible instead of silently blank.
+export const flattenSlotReferences = (slot: any) => {
+  const subject = slot.subjectId;
+  const faculty = slot.facultyId;
+  const room = slot.roomId ?? slot.labId;
+
+  if (isPopulated(subject)) {
+    slot.subject = slot.type === "lab" ? `${subject.name} Lab` : subject.name;
+    slot.subjectCode = subject.code;
+    slot.subjectId = subject._id;
+  } else {
+    slot.subject = null;
+  }
+
+  if (isPopulated(faculty)) {
+    slot.faculty = faculty.name;
+    slot.facultyId = faculty._id;
+  } else {
+    slot.faculty = null;
+  }
+
+  slot.room = isPopulated(room) ? room.name : null;
+  if (isPopulated(slot.roomId)) slot.roomId = slot.roomId._id;
+  if (isPopulated(slot.labId)) slot.labId = slot.labId._id;
+  return slot;
+};
+
+const fail = (field: string, message: string): never => {
+  throw new UnresolvedReference(field, message);
+};
+
+const sameId = (a: unknown, b: unknown) => a != null && b != null && String(a) === String(b);
+
+// Returns the slots with subjectId, facultyId and roomId/labId filled in. Clients may
+// send ids directly (which are checked to exist) or the display names the generators
+// produce, which are resolved here. The name fields are dropped from the result.
+// With a department, references resolve to its own subjects and faculty and to the
+// classrooms and labs it can book, the year, division and batch must be among its years,
+// the day must be one the year is taught, and the slots are stamped with it.
+// Throws a SlotWriteError listing every slot that couldn't be resolved.
+export const resolveSlotReferences = async (slots: any[], department?: string): Promise<any[]> => {
+  const owned = department ? { department } : {};
+  const bookable = department ? bookableBy(department) : {};
+  const [subjects, faculty, classrooms, labs, years, schedule] = await Promise.all([
+    Subject.find(owned).select("name year semester faculty"),
+    Faculty.find(owned).select("name"),
+    Classroom.find(bookable).select("name"),
+    Lab.find(bookable).select("name"),
+    department ? AcademicYear.find(owned).select("code divisions batches workingDays") : null,
+    department ? loadBellSchedule(department) : null
+  ]);
+
+  const errors: SlotError[] = [];
+  const resolveSlot = (slot: any) => {
+    const { subject, faculty: facultyName, room, subjectCode, ...resolved } = slot;
+    if (department) resolved.department = department;
+
+    const problem = years && yearProblem(years, slot, true);
+    if (problem) fail(problem.field, `${problem.field} ${problem.message}`);
+    if (schedule && years) {
+      const year = years.find(candidate => candidate.code === slot.year);
+      if (dayWeight(workingDaysOf(schedule, year), slot.day) === 0) fail("day", `${slot.day} is not a working day of ${slot.year}`);
+    }
+
+    // Subject: by id, or by name within the slot's year and semester
+    if (resolved.subjectId) {
+      if (!subjects.some(s => sameId(s._id, resolved.subjectId))) fail("subject", `unknown subjectId '${resolved.subjectId}'`);
+    } else {
+      const baseName = typeof subject === "string" && slot.type === "lab" ? subject.replace(/ Lab$/, "") : subject;
+      const matches = subjects.filter(s => s.name === baseName && s.year === slot.year && s.semester === Number(slot.semester));
+      if (matches.length !== 1) {
+        fail("subject", `${matches.length ? "ambiguous" : "unknown"} subject '${subject}' for ${slot.year} semester ${slot.semester}`);
+      }
+      resolved.subjectId = matches[0]._id;
+    }
+
+    // Faculty: by id, or by name. Namesakes are told apart by the subject's own faculty.
+    if (resolved.facultyId) {
+      if (!faculty.some(f => sameId(f._id, resolved.facultyId))) fail("faculty", `unknown facultyId '${resolved.facultyId}'`);
+    } else {
+      const subjectDoc = subjects.find(s => sameId(s._id, resolved.subjectId));
+      const matches = faculty.filter(f => f.name === facultyName);
+      const own = matches.find(f => sameId(f._id, subjectDoc?.faculty));
+      if (!own && matches.length !== 1) {
+        fail("faculty", `${matches.length ? "ambiguous" : "unknown"} faculty '${facultyName}'`);
+      }
+      resolved.facultyId = (own ?? matches[0])._id;
+    }
+
+    // Room: a classroom or a lab, by id or by name (labs first for lab sessions)
+    if (resolved.roomId) {
+      if (!classrooms.some(c => sameId(c._id, resolved.roomId))) fail("room", `unknown roomId '${resolved.roomId}'`);
+    } else if (resolved.labId) {
+      if (!labs.some(l => sameId(l._id, resolved.labId))) fail("room", `unknown labId '${resolved.labId}'`);
+    } else {
+      const classroomMatches = classrooms.filter(c => c.name === room);
+      const labMatches = labs.filter(l => l.name === room);
+      const preferLab = slot.type === "lab" ? labMatches.length > 0 : classroomMatches.length === 0;
+      const matches = preferLab ? labMatches : classroomMatches;
+      if (matches.length !== 1) fail("room", `${matches.length ? "ambiguous" : "unknown"} room '${room}'`);
+      if (preferLab) resolved.labId = matches[0]._id;
+      else resolved.roomId = matches[0]._id;
+    }
+
+    return resolved;
+  };
+
+  const resolvedSlots = slots.map((slot, index) => {
+    try {
+      return resolveSlot(slot);
+    } catch (err) {
+      if (!(err instanceof UnresolvedReference)) throw err;
+      errors.push({ index, field: err.field, message: err.message });
+      return null;
+    }
+  });
+  if (errors.length > 0) throw new SlotWriteError(errors);
+  return resolvedSlots;
+};
@@ -0,0 +1,102 @@
+import mongoose from "mongoose";
+import TimetableSlot from "../models/TimetableSlot";
+import { SlotError, SlotWriteError } from "./slotErrors";
+import { discardPendingChanges, publishCommittedChanges } from "./changeFeed";
+
+// A department's year/semester (optionally one batch) of the live timetable
+export type SlotScope = Record<string, unknown>;
+
+// Standalone servers (no replica set) can't run transactions
+const transactionsUnsupported = (err: any) =>
+  err?.code === 20 || /Transaction numbers are only allowed/.test(err?.message ?? "");
+
+// Validates every slot up front so the caller gets all the problems, not just the first
+export const validateSlots = async (slots: any[]) => {
+  const errors: SlotError[] = [];
+  await Promise.all(slots.map(async (slot, index) => {
+    try {
+      await new TimetableSlot(slot).validate();
+    } catch (err) {
+      if (!(err instanceof mongoose.Error.ValidationError)) throw err;
+      for (const [field, { message }] of Object.entries(err.errors)) {
+        errors.push({ index, field, message });
+      }
+    }
+  }));
+  if (errors.length > 0) throw new SlotWriteError(errors.sort((a, b) => a.index - b.index));
+};
+
+// Errors the database reported for individual documents of an insertMany
+const asSlotWriteError = (err: any) => {
+  const writeErrors = err?.writeErrors;
+  if (!Array.isArray(writeErrors) || writeErrors.length === 0) return err;
+  return new SlotWriteError(writeErrors.map((writeError: any) => ({
+    index: writeError.index,
+    message: writeError.errmsg ?? writeError.err?.errmsg ?? "could not be saved"
+  })));
+};
+
+// Inserts all slots or none: whatever got in before a failure is removed again
+const insertAllOrNothing = async (slots: any[], session?: mongoose.ClientSession) => {
+  if (slots.length === 0) return [];
+  if (session) return await TimetableSlot.insertMany(slots, { session });
+  try {
+    return await TimetableSlot.insertMany(slots, { ordered: false });
+  } catch (err: any) {
+    const inserted = (err?.insertedDocs ?? []).map((doc: any) => doc._id);
+    if (inserted.length > 0) await TimetableSlot.deleteMany({ _id: { $in: inserted } });
+    throw err;
+  }
+};
+
+// Runs a write in a transaction, or without one (with a warning) on a standalone server
+export const withTransaction = async <T>(write: (session?: mongoose.ClientSession) => Promise<T>): Promise<T> => {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      discardPendingChanges(session); // left over from an attempt that was retried
+      result = await write(session);
+    });
+    publishCommittedChanges(session);
+    return result;
+  } catch (err) {
+    discardPendingChanges(session);
+    if (!transactionsUnsupported(err)) throw asSlotWriteError(err);
+    console.warn("MongoDB transactions are unavailable (not a replica set), writing without one");
+    try {
+      return await write();
+    } catch (fallbackErr) {
+      throw asSlotWriteError(fallbackErr);
+    }
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Saves new slots all together; invalid slots are reported together as a SlotWriteError
+export const insertSlots = async (slots: any[]) => {
+  await validateSlots(slots);
+  return withTransaction(session => insertAllOrNothing(slots, session));
+};
+
+// Swaps the slots of a scope for already validated ones, as part of the caller's transaction
+export const swapScopeSlots = async (scope: SlotScope, slots: any[], session?: mongoose.ClientSession) => {
+  if (session) {
+    const { deletedCount } = await TimetableSlot.deleteMany(scope, { session });
+    return { savedSlots: await insertAllOrNothing(slots, session), deletedCount };
+  }
+  // Without a transaction the new slots go in first, so a failed insert leaves
+  // the previous timetable in place
+  const previousIds = (await TimetableSlot.find(scope).select("_id")).map(slot => slot._id);
+  const savedSlots = await insertAllOrNothing(slots);
+  const { deletedCount } = await TimetableSlot.deleteMany({ _id: { $in: previousIds } });
+  return { savedSlots, deletedCount };
+};
+
+// Swaps the slots of a scope for a new set: either the scope holds exactly the new slots
+// afterwards, or nothing changed. Invalid slots are reported together as a SlotWriteError.
+export const replaceScopeSlots = async (scope: SlotScope, slots: any[]) => {
+  await validateSlots(slots);
+  return withTransaction(session => swapScopeSlots(scope, slots, session));
+};
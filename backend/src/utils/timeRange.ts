@@ -0,0 +1,11 @@
+import { TimeRange } from "@timetable/shared";
+
+// Clock times and slot ranges are parsed by the shared time utility (24-hour "HH:mm").
+// Parses a classroom window such as "8AM-3PM"
+export const parseShiftWindow = (value: string): TimeRange | null => {
+  const match = /^(\d{1,2})(AM|PM)-(\d{1,2})(AM|PM)$/i.exec(value.trim());
+  if (!match) return null;
+  const toMinutes = (hour: string, meridiem: string) =>
+    ((parseInt(hour, 10) % 12) + (meridiem.toUpperCase() === "PM" ? 12 : 0)) * 60;
+  return { start: toMinutes(match[1], match[2]), end: toMinutes(match[3], match[4]) };
+};
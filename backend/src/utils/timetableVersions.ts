@@ -0,0 +1,68 @@
+import { TimetableConstraints } from "@timetable/shared";
+import Timetable from "../models/Timetable";
+import { swapScopeSlots, validateSlots, withTransaction } from "./slotScope";
+import { ConflictError } from "./httpErrors";
+
+export type TimetableDocument = InstanceType<typeof Timetable>;
+
+// A version's snapshot as live timetable slots
+export const liveSlotsOf = (timetable: TimetableDocument) => {
+  const { year, division, semester, department } = timetable;
+  return timetable.slots.map(slot => ({ ...slot.toObject(), year, division, semester, department, timetable: timetable._id }));
+};
+
+// The live slots a version replaces: its department's year/division/semester. A null
+// division matches the slots of years without divisions.
+export const scopeOf = ({ department, year, division, semester }: TimetableDocument) => ({ department, year, division: division ?? null, semester });
+
+// Copies a version's snapshot into timetable-slots and marks it as the active one for its
+// year/semester. The version is saved in the same transaction, so a new version whose slots
+// are refused is not left behind.
+export const activateVersion = async (timetable: TimetableDocument) => {
+  const slots = liveSlotsOf(timetable);
+  await validateSlots(slots);
+
+  await withTransaction(async session => {
+    await swapScopeSlots(scopeOf(timetable), slots, session);
+    await Timetable.updateMany({ ...scopeOf(timetable), _id: { $ne: timetable._id } }, { isActive: false }, { session });
+    timetable.isActive = true;
+    await timetable.save({ session });
+  });
+};
+
+export interface NewVersion {
+  department: string;
+  year: string;
+  division?: string;
+  semester: number;
+  slots: Record<string, unknown>[]; // with references resolved
+  constraints?: TimetableConstraints;
+  name?: string;
+}
+
+// Saves a generation run as the next version of its year/division/semester, and makes it
+// live if asked to. Clash checks are left to the caller.
+export const saveVersion = async ({ department, year, division, semester, slots, constraints, name }: NewVersion, activate: boolean) => {
+  const latest = await Timetable.findOne({ department, year, division: division ?? null, semester }).sort({ version: -1 }).select("version");
+  const version = (latest?.version ?? 0) + 1;
+
+  const timetable = new Timetable({
+    name: name || `${year}${division ? `-${division}` : ""} Sem ${semester} - v${version}`,
+    year,
+    division,
+    semester,
+    version,
+    constraints,
+    slots,
+    department
+  });
+  try {
+    if (activate) await activateVersion(timetable);
+    else await timetable.save();
+  } catch (err: any) {
+    // The unique year/division/semester/version index caught a concurrent save
+    if (err?.code === 11000) throw new ConflictError("Another version was saved at the same time, please retry");
+    throw err;
+  }
+  return timetable;
+};
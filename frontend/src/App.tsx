@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, Users, BookOpen, Clock, Settings, Download, Home, Brain } from 'lucide-react';
+import { Calendar, Users, BookOpen, Clock, Settings, Download, Home, Brain, LogOut, GraduationCap, Bell } from 'lucide-react';
 import { checkApiHealth } from './services/api';
 import Dashboard from './components/Dashboard';
 import SubjectManagement from './components/SubjectManagement';
@@ -7,13 +7,40 @@ import FacultyManagement from './components/FacultyManagement';
 import TimetableGeneration from './components/TimetableGeneration';
 import TimetableView from './components/TimetableView';
 import InfrastructureManagement from './components/InfrastructureManagement';
+import AcademicStructure from './components/AcademicStructure';
+import BellScheduleEditor from './components/BellScheduleEditor';
 import AIDemo from './components/AIDemo';
+import LoginPage from './components/LoginPage';
+import DepartmentSwitcher from './components/DepartmentSwitcher';
+import { FullPageLoader } from './components/LoadingSpinner';
+import { useAuth } from './hooks/useAuth';
+import { useDepartments } from './hooks/useDepartment';
+import { User, UserRole } from './types/timetable';
 
-type TabType = 'dashboard' | 'subjects' | 'faculty' | 'infrastructure' | 'generate' | 'view' | 'ai-demo';
+type TabType = 'dashboard' | 'years' | 'bell-schedule' | 'subjects' | 'faculty' | 'infrastructure' | 'generate' | 'view' | 'ai-demo';
 
-function App() {
+const ROLE_LABELS: Record<UserRole, string> = { admin: 'Admin / HOD', faculty: 'Faculty', student: 'Student' };
+
+// Who sees each page. Faculty can look at the master data and edit their own preferences
+// on the Faculty page; students only see timetables. The backend enforces the same roles.
+const navigationItems: { id: TabType; label: string; icon: typeof Home; roles: UserRole[] }[] = [
+  { id: 'dashboard', label: 'Dashboard', icon: Home, roles: ['admin', 'faculty', 'student'] },
+  { id: 'ai-demo', label: 'AI Features', icon: Brain, roles: ['admin'] },
+  { id: 'years', label: 'Years & Divisions', icon: GraduationCap, roles: ['admin', 'faculty'] },
+  { id: 'bell-schedule', label: 'Bell Schedule', icon: Bell, roles: ['admin', 'faculty'] },
+  { id: 'subjects', label: 'Subjects', icon: BookOpen, roles: ['admin', 'faculty'] },
+  { id: 'faculty', label: 'Faculty', icon: Users, roles: ['admin', 'faculty'] },
+  { id: 'infrastructure', label: 'Infrastructure', icon: Settings, roles: ['admin', 'faculty'] },
+  { id: 'generate', label: 'Generate Timetable', icon: Calendar, roles: ['admin'] },
+  { id: 'view', label: 'View Timetables', icon: Clock, roles: ['admin', 'faculty', 'student'] },
+];
+
+// Everything behind the login. Pages are remounted when the department changes, so they
+// load that department's data from scratch.
+const Workspace: React.FC<{ user: User; logout: () => void }> = ({ user, logout }) => {
   const [activeTab, setActiveTab] = useState<TabType>('dashboard');
   const [apiStatus, setApiStatus] = useState<'checking' | 'connected' | 'disconnected'>('checking');
+  const { departments, current, loading, select } = useDepartments();
 
   // Check API health on app startup
   useEffect(() => {
@@ -33,22 +60,22 @@ function App() {
     return () => clearInterval(interval);
   }, []);
 
-  const navigationItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'ai-demo', label: 'AI Features', icon: Brain },
-    { id: 'subjects', label: 'Subjects', icon: BookOpen },
-    { id: 'faculty', label: 'Faculty', icon: Users },
-    { id: 'infrastructure', label: 'Infrastructure', icon: Settings },
-    { id: 'generate', label: 'Generate Timetable', icon: Calendar },
-    { id: 'view', label: 'View Timetables', icon: Clock },
-  ];
+  if (loading || (departments.length > 0 && !current)) return <FullPageLoader text="Loading departments..." />;
+
+  const visibleItems = navigationItems.filter(item => item.roles.includes(user.role));
+  // A page the role can't see (e.g. after logging in as someone else) falls back to the dashboard
+  const currentTab = visibleItems.some(item => item.id === activeTab) ? activeTab : 'dashboard';
 
   const renderContent = () => {
-    switch (activeTab) {
+    switch (currentTab) {
       case 'dashboard':
         return <Dashboard />;
       case 'ai-demo':
         return <AIDemo />;
+      case 'years':
+        return <AcademicStructure />;
+      case 'bell-schedule':
+        return <BellScheduleEditor />;
       case 'subjects':
         return <SubjectManagement />;
       case 'faculty':
@@ -94,10 +121,24 @@ function App() {
                 </div>
               </div>
             </div>
-            <button className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
-              <Download className="h-4 w-4" />
-              <span>Export</span>
-            </button>
+            <div className="flex items-center space-x-4">
+              <DepartmentSwitcher departments={departments} current={current} onSelect={select} />
+              <button className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                <Download className="h-4 w-4" />
+                <span>Export</span>
+              </button>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">{user.name}</p>
+                <p className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</p>
+              </div>
+              <button
+                onClick={logout}
+                className="p-2 text-gray-500 hover:text-gray-900 rounded-lg hover:bg-gray-100"
+                title="Log out"
+              >
+                <LogOut className="h-5 w-5" />
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -107,14 +148,14 @@ function App() {
         <nav className="w-64 bg-white shadow-sm h-screen sticky top-0">
           <div className="p-4">
             <ul className="space-y-2">
-              {navigationItems.map((item) => {
+              {visibleItems.map((item) => {
                 const Icon = item.icon;
                 return (
                   <li key={item.id}>
                     <button
-                      onClick={() => setActiveTab(item.id as TabType)}
+                      onClick={() => setActiveTab(item.id)}
                       className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors ${
-                        activeTab === item.id
+                        currentTab === item.id
                           ? 'bg-blue-50 text-blue-700 border-l-4 border-blue-600'
                           : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
                       }`}
@@ -130,12 +171,20 @@ function App() {
         </nav>
 
         {/* Main Content */}
-        <main className="flex-1 p-6">
+        <main key={current?.id} className="flex-1 p-6">
           {renderContent()}
         </main>
       </div>
     </div>
   );
+};
+
+function App() {
+  const { user, restoring, login, logout } = useAuth();
+
+  if (restoring) return <FullPageLoader text="Loading..." />;
+  if (!user) return <LoginPage onLogin={login} />;
+  return <Workspace user={user} logout={logout} />;
 }
 
 export default App;
\ No newline at end of file
@@ -1,7 +1,6 @@
 import { useState } from 'react';
 import { Brain, CheckCircle, AlertCircle, Zap, Target, BarChart3, Shield } from 'lucide-react';
-import ConsistencyTest from '../utils/consistencyTest';
-import ConstraintTest from '../utils/constraintTest';
+import { TimetableGenerationService } from '../services/api';
 
 const AIDemo = () => {
   const [isRunningTest, setIsRunningTest] = useState(false);
@@ -14,7 +13,7 @@ const AIDemo = () => {
     setTestResult(null);
     
     try {
-      const result = await ConsistencyTest.testConsistency();
+      const result = await TimetableGenerationService.runCheck('consistency');
       setTestResult(result);
     } catch (error) {
       setTestResult({
@@ -31,7 +30,7 @@ const AIDemo = () => {
     setConstraintTestResult(null);
     
     try {
-      const result = await ConstraintTest.testConstraintEnforcement();
+      const result = await TimetableGenerationService.runCheck('constraints');
       setConstraintTestResult(result);
     } catch (error) {
       setConstraintTestResult({
@@ -149,7 +148,7 @@ const AIDemo = () => {
         
         <p className="text-gray-600 mb-4">
           Test that the system properly enforces critical constraints: max 3 theory sessions per subject, 
-          no consecutive sessions, proper lab batch distribution (A, B, C), and no duplicate lab sessions.
+          no consecutive sessions, a lab session for every configured batch in a lab that seats it, and no duplicate lab sessions.
         </p>
 
         <button
@@ -269,9 +268,8 @@ const AIDemo = () => {
         <h3 className="text-lg font-semibold text-blue-900 mb-3">🚀 Quick Setup</h3>
         <div className="space-y-2 text-sm text-blue-800">
           <p>1. Get your Gemini API key from <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline">Google AI Studio</a></p>
-          <p>2. Set the environment variable: <code className="bg-blue-100 px-1 rounded">VITE_GEMINI_API_KEY=your-key</code></p>
-          <p>3. Or edit <code className="bg-blue-100 px-1 rounded">frontend/src/config/gemini.ts</code></p>
-          <p>4. Start generating AI-optimized timetables!</p>
+          <p>2. Set <code className="bg-blue-100 px-1 rounded">GEMINI_API_KEY=your-key</code> in <code className="bg-blue-100 px-1 rounded">backend/.env</code> (the key stays on the server)</p>
+          <p>3. Restart the backend and start generating AI-optimized timetables!</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,398 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, GraduationCap, AlertCircle } from 'lucide-react';
+import { YEAR_SESSIONS, classStrength, workingDaysOf, yearStrength } from '@timetable/shared';
+import { AcademicYearConfig, BatchConfig, ClassEnrollment, WorkingDays, YearSession } from '../types/timetable';
+import { academicYearsService, fieldErrorsOf } from '../services/api';
+import { useAcademicYears, className } from '../hooks/useAcademicYears';
+import { useIsAdmin } from '../hooks/useAuth';
+import { useBellSchedule } from '../hooks/useBellSchedule';
+import { LoadingSpinner } from './LoadingSpinner';
+import { FormFieldError } from './FormFieldError';
+import { WorkingDaysPicker, WorkingDaysSummary } from './WorkingDaysPicker';
+
+const emptyForm = {
+  code: '',
+  label: '',
+  program: '',
+  order: 1,
+  divisions: '', // comma-separated, e.g. "A, B"
+  batches: {} as Record<string, string>, // per division ('' for the whole year), e.g. "A:20, B:22"
+  enrollment: {} as Record<string, string>, // students per division ('' for the whole year); blank counts the batches
+  session: 'Morning' as YearSession,
+  workingDays: null as WorkingDays | null, // null follows the bell schedule's
+};
+
+// What a division's batches start as until they're edited
+const DEFAULT_BATCHES = 'A:20, B:20, C:20';
+
+// "A, B ,, C" -> ["A", "B", "C"]
+const parseDivisions = (text: string) =>
+  text.split(',').map(division => division.trim()).filter(Boolean);
+
+// "A:20, B:22" -> batches A and B of the division. Counts are checked by the backend.
+const parseBatches = (text: string, division: string): BatchConfig[] =>
+  parseDivisions(text).map(entry => {
+    const [name, students] = entry.split(':').map(part => part.trim());
+    return { name, students: Number(students), ...(division && { division }) };
+  });
+
+const formatBatches = (batches: BatchConfig[]) =>
+  batches.map(batch => `${batch.name}:${batch.students}`).join(', ');
+
+// The years the department teaches, their programs and divisions. Every year dropdown,
+// the generator and the timetable views are driven by this list. Only admins edit it.
+const AcademicStructure = () => {
+  const { years, loading } = useAcademicYears();
+  const isAdmin = useIsAdmin();
+  const { schedule } = useBellSchedule();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingYear, setEditingYear] = useState<AcademicYearConfig | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+
+  // A division added in the form starts with the default batches
+  const batchText = (division: string) => formData.batches[division] ?? DEFAULT_BATCHES;
+  const formDivisions = parseDivisions(formData.divisions);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingYear(null);
+    setShowForm(false);
+    setServerErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setServerErrors({});
+    const batches = (formDivisions.length > 0 ? formDivisions : ['']).flatMap(division =>
+      parseBatches(batchText(division), division));
+    const enrollment: ClassEnrollment[] = (formDivisions.length > 0 ? formDivisions : [''])
+      .filter(division => (formData.enrollment[division] ?? '').trim() !== '')
+      .map(division => ({ students: Number(formData.enrollment[division]), ...(division && { division }) }));
+    const record = { ...formData, divisions: formDivisions, batches, enrollment };
+    try {
+      if (editingYear) {
+        await academicYearsService.update(editingYear.id, record);
+      } else {
+        await academicYearsService.add(record);
+      }
+      resetForm();
+    } catch (err) {
+      // Renaming or removing what timetables use is refused with a message, not a field error
+      setError(err instanceof Error ? err.message : 'Failed to save year');
+      setServerErrors(fieldErrorsOf(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEdit = (year: AcademicYearConfig) => {
+    const divisions = year.divisions.length > 0 ? year.divisions : [''];
+    setFormData({
+      code: year.code,
+      label: year.label,
+      program: year.program,
+      order: year.order,
+      divisions: year.divisions.join(', '),
+      batches: Object.fromEntries(divisions.map(division =>
+        [division, formatBatches(year.batches.filter(batch => (batch.division || '') === division))])),
+      enrollment: Object.fromEntries((year.enrollment ?? []).map(entry => [entry.division || '', String(entry.students)])),
+      session: year.session,
+      workingDays: year.workingDays ?? null,
+    });
+    setEditingYear(year);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (year: AcademicYearConfig) => {
+    if (!window.confirm(`Delete ${year.label} (${year.code})?`)) return;
+    setError(null);
+    try {
+      await academicYearsService.delete(year.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete year');
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner text="Loading years..." />;
+  }
+
+  const programs = [...new Set(years.map(year => year.program))];
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+            <span className="text-red-800">{error}</span>
+            <button onClick={() => setError(null)} className="ml-auto text-red-600 hover:text-red-800">
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Years & Divisions</h2>
+          <p className="text-gray-600 mt-1">
+            The programs and years this department teaches, and how each year is divided
+          </p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Year</span>
+          </button>
+        )}
+      </div>
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingYear ? `Edit ${editingYear.code}` : 'Add New Year'}
+          </h3>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+                disabled={submitting}
+                placeholder="e.g., FE, SE, ME1"
+              />
+              <FormFieldError message={serverErrors.code} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+                disabled={submitting}
+                placeholder="e.g., First Year"
+              />
+              <FormFieldError message={serverErrors.label} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Program</label>
+              <input
+                type="text"
+                value={formData.program}
+                onChange={(e) => setFormData({ ...formData, program: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+                disabled={submitting}
+                placeholder="e.g., B.E., M.Tech"
+                list="academic-programs"
+              />
+              <datalist id="academic-programs">
+                {programs.map((program) => <option key={program} value={program} />)}
+              </datalist>
+              <FormFieldError message={serverErrors.program} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+              <input
+                type="number"
+                min="0"
+                value={formData.order}
+                onChange={(e) => setFormData({ ...formData, order: parseInt(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={submitting}
+              />
+              <FormFieldError message={serverErrors.order} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Divisions</label>
+              <input
+                type="text"
+                value={formData.divisions}
+                onChange={(e) => setFormData({ ...formData, divisions: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={submitting}
+                placeholder="e.g., A, B (leave empty for one class)"
+              />
+              <FormFieldError message={serverErrors.divisions} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Session</label>
+              <select
+                value={formData.session}
+                onChange={(e) => setFormData({ ...formData, session: e.target.value as YearSession })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={submitting}
+              >
+                {YEAR_SESSIONS.map((session) => (
+                  <option key={session} value={session}>{session}</option>
+                ))}
+              </select>
+              <FormFieldError message={serverErrors.session} />
+            </div>
+            {(formDivisions.length > 0 ? formDivisions : ['']).map((division) => (
+              <React.Fragment key={division}>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {division ? `Students in Division ${division}` : 'Students'}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.enrollment[division] ?? ''}
+                    onChange={(e) => setFormData({ ...formData, enrollment: { ...formData.enrollment, [division]: e.target.value } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    disabled={submitting}
+                    placeholder="Blank: the total of its batches"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {division ? `Lab Batches of Division ${division}` : 'Lab Batches'}
+                  </label>
+                  <input
+                    type="text"
+                    value={batchText(division)}
+                    onChange={(e) => setFormData({ ...formData, batches: { ...formData.batches, [division]: e.target.value } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    disabled={submitting}
+                    placeholder="name:students, e.g. A:20, B:22"
+                  />
+                </div>
+              </React.Fragment>
+            ))}
+            <div className="md:col-span-2">
+              <FormFieldError message={serverErrors.enrollment} />
+              <FormFieldError message={serverErrors.batches} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                <input
+                  type="checkbox"
+                  checked={formData.workingDays !== null}
+                  onChange={(e) => setFormData({ ...formData, workingDays: e.target.checked ? { ...workingDaysOf(schedule) } : null })}
+                  disabled={submitting}
+                />
+                <span>Own working days</span>
+              </label>
+              {formData.workingDays ? (
+                <WorkingDaysPicker
+                  value={formData.workingDays}
+                  onChange={(workingDays) => setFormData({ ...formData, workingDays })}
+                  disabled={submitting}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Follows the bell schedule: <WorkingDaysSummary workingDays={workingDaysOf(schedule)} />
+                </p>
+              )}
+              <FormFieldError message={serverErrors.workingDays} />
+            </div>
+            <div className="md:col-span-2 flex space-x-3">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+              >
+                {submitting && <LoadingSpinner size="sm" />}
+                <span className={submitting ? 'ml-2' : ''}>
+                  {submitting
+                    ? (editingYear ? 'Updating...' : 'Adding...')
+                    : (editingYear ? 'Update Year' : 'Add Year')}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                disabled={submitting}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Years, grouped by program */}
+      {years.length === 0 ? (
+        <div className="text-center py-12">
+          <GraduationCap className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No Years</h3>
+          <p className="text-gray-600">Add the years this department teaches before adding subjects.</p>
+        </div>
+      ) : (
+        programs.map((program) => (
+          <div key={program} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{program}</h3>
+            <div className="divide-y divide-gray-100">
+              {years.filter(year => year.program === program).map((year) => (
+                <div key={year.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{year.label} ({year.code})</p>
+                    <p className="text-sm text-gray-600">
+                      {year.session} session · {year.divisions.length > 0
+                        ? `Divisions ${year.divisions.map(division => className(year.code, division)).join(', ')}`
+                        : 'One class'}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {yearStrength(year)} students
+                      {year.divisions.length > 0 && ` (${year.divisions.map(division => `${division}: ${classStrength(year, division)}`).join(', ')})`}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {year.batches.length > 0
+                        ? `Lab batches: ${year.batches.map(batch =>
+                          `${batch.division ? `${batch.division}/` : ''}${batch.name} (${batch.students})`).join(', ')}`
+                        : 'No lab batches'}
+                    </p>
+                    {year.workingDays && (
+                      <p className="text-sm text-gray-500">
+                        Own working days: <WorkingDaysSummary workingDays={year.workingDays} />
+                      </p>
+                    )}
+                  </div>
+                  {isAdmin && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(year)}
+                        className="text-blue-600 hover:text-blue-900 p-1 rounded"
+                        disabled={submitting}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(year)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded"
+                        disabled={submitting}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AcademicStructure;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { PlusCircle, Edit, Trash2, Sparkles, CheckCircle, Database, ChevronDown, ChevronRight } from 'lucide-react';
+import { AUDIT_ACTIONS } from '@timetable/shared';
+import { AuditAction, AuditChange, AuditEntry } from '../types/timetable';
+import { auditService } from '../services/api';
+import { usePagedList } from '../hooks/usePagedList';
+import { ListSearchBar, Pagination } from './ListControls';
+
+const SORT_OPTIONS = [
+  { value: '-createdAt', label: 'Newest first' },
+  { value: 'createdAt', label: 'Oldest first' },
+  { value: 'actor.name', label: 'By person' },
+  { value: 'resource', label: 'By record type' }
+];
+
+// Values of AuditEntry.resource, as the endpoints are named
+const RESOURCE_OPTIONS = [
+  { value: 'faculty', label: 'Faculty' },
+  { value: 'subjects', label: 'Subjects' },
+  { value: 'classrooms', label: 'Classrooms' },
+  { value: 'labs', label: 'Labs' },
+  { value: 'timetable-slots', label: 'Timetable slots' },
+  { value: 'timetables', label: 'Timetable versions' },
+  { value: 'generation-jobs', label: 'Generation runs' },
+  { value: 'users', label: 'Accounts' },
+  { value: 'departments', label: 'Departments' },
+  { value: 'academic-years', label: 'Years & divisions' },
+  { value: 'bell-schedules', label: 'Bell schedule' },
+  { value: 'initialize-data', label: 'Sample data' }
+];
+
+const ACTION_ICONS: Record<AuditAction, React.ReactNode> = {
+  create: <PlusCircle className="h-5 w-5 text-green-500" />,
+  update: <Edit className="h-5 w-5 text-blue-500" />,
+  delete: <Trash2 className="h-5 w-5 text-red-500" />,
+  generate: <Sparkles className="h-5 w-5 text-purple-500" />,
+  activate: <CheckCircle className="h-5 w-5 text-green-600" />,
+  import: <Database className="h-5 w-5 text-orange-500" />
+};
+
+// "just now", "5 minutes ago", "3 days ago", then the date
+const timeAgo = (timestamp: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days} day${days === 1 ? '' : 's'} ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.map(formatValue).join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const ChangeTable: React.FC<{ changes: AuditChange[] }> = ({ changes }) => (
+  <table className="w-full text-xs mt-2">
+    <thead>
+      <tr className="text-left text-gray-500">
+        <th className="py-1 pr-3 font-medium">Field</th>
+        <th className="py-1 pr-3 font-medium">Before</th>
+        <th className="py-1 font-medium">After</th>
+      </tr>
+    </thead>
+    <tbody>
+      {changes.map((change) => (
+        <tr key={change.field} className="border-t border-gray-100 align-top">
+          <td className="py-1 pr-3 text-gray-700">{change.field}</td>
+          <td className="py-1 pr-3 text-red-700 break-all">{formatValue(change.before)}</td>
+          <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Who changed what and when, from the audit log. Stays live as new entries are recorded.
+const ActivityLog: React.FC<{ pageSize?: number }> = ({ pageSize = 10 }) => {
+  const [resource, setResource] = useState('');
+  const [action, setAction] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const activityPage = usePagedList(auditService, {
+    pageSize,
+    initialSort: '-createdAt',
+    filters: { resource: resource || undefined, action: action || undefined }
+  });
+
+  const renderEntry = (entry: AuditEntry) => {
+    const isOpen = expanded === entry.id;
+    const hasChanges = entry.changes.length > 0;
+    return (
+      <div key={entry.id} className="p-3 rounded-lg hover:bg-gray-50">
+        <div className="flex items-start space-x-3">
+          {ACTION_ICONS[entry.action]}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-900">{entry.summary}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {entry.actor.name} ({entry.actor.role}) · <span title={new Date(entry.createdAt).toLocaleString()}>{timeAgo(entry.createdAt)}</span>
+            </p>
+          </div>
+          {hasChanges && (
+            <button
+              onClick={() => setExpanded(isOpen ? null : entry.id)}
+              className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+            >
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+        {isOpen && <div className="ml-8"><ChangeTable changes={entry.changes} /></div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <div className="flex-1">
+          <ListSearchBar
+            search={activityPage.search}
+            onSearchChange={activityPage.setSearch}
+            placeholder="Search by description or person"
+            sort={activityPage.sort}
+            onSortChange={activityPage.setSort}
+            sortOptions={SORT_OPTIONS}
+          />
+        </div>
+        <select
+          value={resource}
+          onChange={(e) => setResource(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All records</option>
+          {RESOURCE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 capitalize"
+        >
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+      </div>
+
+      {activityPage.error && (
+        <p className="text-sm text-red-600">{activityPage.error}</p>
+      )}
+
+      <div className="space-y-1">
+        {activityPage.items.length === 0 && !activityPage.loading ? (
+          <p className="text-center py-8 text-gray-600">No activity recorded yet.</p>
+        ) : (
+          activityPage.items.map(renderEntry)
+        )}
+      </div>
+
+      <Pagination
+        page={activityPage.page}
+        pageCount={activityPage.pageCount}
+        pageSize={activityPage.pageSize}
+        total={activityPage.total}
+        onPageChange={activityPage.setPage}
+      />
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -0,0 +1,389 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import { DAYS, PERIOD_KINDS, YEAR_SESSIONS, labTimesIn, periodTime, workingDaysOf } from '@timetable/shared';
+import { BellPeriod, BellSchedule, Day, PeriodKind, YearSession } from '../types/timetable';
+import { bellSchedulesService, fieldErrorsOf } from '../services/api';
+import { useBellSchedule } from '../hooks/useBellSchedule';
+import { useIsAdmin } from '../hooks/useAuth';
+import { LoadingSpinner } from './LoadingSpinner';
+import { FormFieldError } from './FormFieldError';
+import { WorkingDaysPicker, WorkingDaysSummary } from './WorkingDaysPicker';
+
+type Draft = Omit<BellSchedule, 'id' | 'department'>;
+
+const KIND_LABELS: Record<PeriodKind, string> = { lecture: 'Lecture', break: 'Break', lunch: 'Lunch' };
+
+const KIND_COLORS: Record<PeriodKind, string> = {
+  lecture: 'bg-blue-50 text-blue-800',
+  break: 'bg-gray-100 text-gray-700',
+  lunch: 'bg-amber-50 text-amber-800'
+};
+
+const copyOf = (schedule: Draft): Draft => ({
+  labPeriods: schedule.labPeriods,
+  workingDays: { ...workingDaysOf(schedule) },
+  shifts: schedule.shifts.map(shift => ({ session: shift.session, periods: shift.periods.map(period => ({ ...period })) })),
+  dayVariations: schedule.dayVariations.map(variation => ({ ...variation, periods: variation.periods.map(period => ({ ...period })) }))
+});
+
+// A new period starts where the last one ended
+const nextPeriod = (periods: BellPeriod[]): BellPeriod =>
+  ({ start: periods[periods.length - 1]?.end ?? '', end: '', kind: 'lecture' });
+
+interface PeriodTableProps {
+  periods: BellPeriod[];
+  onChange?: (periods: BellPeriod[]) => void; // read-only without it
+  disabled?: boolean;
+}
+
+const PeriodTable: React.FC<PeriodTableProps> = ({ periods, onChange, disabled }) => {
+  const setPeriod = (index: number, change: Partial<BellPeriod>) =>
+    onChange?.(periods.map((period, i) => i === index ? { ...period, ...change } : period));
+
+  if (!onChange) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        {periods.map((period, index) => (
+          <span key={index} className={`px-2 py-1 rounded text-sm ${KIND_COLORS[period.kind]}`}>
+            {periodTime(period)}{period.kind !== 'lecture' && ` · ${KIND_LABELS[period.kind]}`}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {periods.map((period, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={period.start}
+            onChange={(e) => setPeriod(index, { start: e.target.value.trim() })}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+            placeholder="08:10"
+            required
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="text"
+            value={period.end}
+            onChange={(e) => setPeriod(index, { end: e.target.value.trim() })}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+            placeholder="09:10"
+            required
+          />
+          <select
+            value={period.kind}
+            onChange={(e) => setPeriod(index, { kind: e.target.value as PeriodKind })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+          >
+            {PERIOD_KINDS.map((kind) => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange(periods.filter((_, i) => i !== index))}
+            className="text-red-600 hover:text-red-900 p-1 rounded"
+            disabled={disabled}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...periods, nextPeriod(periods)])}
+        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add period</span>
+      </button>
+    </div>
+  );
+};
+
+// The department's period grid: each session's periods, breaks and lunch, and the days
+// that differ. Generators, conflict rules and the timetable views all take their times
+// from it. Only admins edit it.
+const BellScheduleEditor = () => {
+  const { schedule, stored, loading } = useBellSchedule();
+  const isAdmin = useIsAdmin();
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [variationDay, setVariationDay] = useState<Day>('Saturday');
+  const [variationSession, setVariationSession] = useState<YearSession>('Morning');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+
+  const shown = draft ?? schedule;
+  const editing = draft !== null;
+
+  const resetForm = () => {
+    setDraft(null);
+    setServerErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !stored) return;
+    setSubmitting(true);
+    setError(null);
+    setServerErrors({});
+    try {
+      await bellSchedulesService.update(stored.id, draft);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save bell schedule');
+      setServerErrors(fieldErrorsOf(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const setShiftPeriods = (index: number, periods: BellPeriod[]) => draft && setDraft({
+    ...draft,
+    shifts: draft.shifts.map((shift, i) => i === index ? { ...shift, periods } : shift)
+  });
+
+  const setVariationPeriods = (index: number, periods: BellPeriod[]) => draft && setDraft({
+    ...draft,
+    dayVariations: draft.dayVariations.map((variation, i) => i === index ? { ...variation, periods } : variation)
+  });
+
+  // A new shift or day starts as a copy of the closest grid, to be trimmed from there
+  const addShift = (session: YearSession) => draft && setDraft({
+    ...draft,
+    shifts: [...draft.shifts, { session, periods: draft.shifts[0]?.periods.map(period => ({ ...period })) ?? [] }]
+  });
+
+  const addVariation = () => {
+    if (!draft) return;
+    const shift = draft.shifts.find(candidate => candidate.session === variationSession);
+    setDraft({
+      ...draft,
+      dayVariations: [...draft.dayVariations, {
+        day: variationDay,
+        session: variationSession,
+        periods: shift?.periods.map(period => ({ ...period })) ?? []
+      }]
+    });
+  };
+
+  if (loading) {
+    return <LoadingSpinner text="Loading bell schedule..." />;
+  }
+
+  const missingSessions = YEAR_SESSIONS.filter(session => !shown.shifts.some(shift => shift.session === session));
+  const variationTaken = shown.dayVariations.some(variation =>
+    variation.day === variationDay && variation.session === variationSession);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+            <span className="text-red-800">{error}</span>
+            <button onClick={() => setError(null)} className="ml-auto text-red-600 hover:text-red-800">
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Bell Schedule</h2>
+          <p className="text-gray-600 mt-1">
+            The periods, breaks and lunch of each session. Timetables are generated and shown on this grid.
+          </p>
+        </div>
+        {isAdmin && !editing && (
+          <button
+            onClick={() => setDraft(copyOf(schedule))}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            disabled={!stored}
+          >
+            <Edit2 className="h-4 w-4" />
+            <span>Edit Schedule</span>
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lectures per lab session</label>
+          {editing ? (
+            <input
+              type="number"
+              min="1"
+              max="4"
+              value={draft.labPeriods}
+              onChange={(e) => setDraft({ ...draft, labPeriods: parseInt(e.target.value) || 1 })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={submitting}
+            />
+          ) : (
+            <p className="text-gray-900">{shown.labPeriods}</p>
+          )}
+          <FormFieldError message={serverErrors.labPeriods} />
+          <p className="text-sm text-gray-500 mt-1">
+            A lab takes this many lectures in a row, without a break in between.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Working days</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            Years follow these unless they set their own. For a half day, add it under "Days that differ" with fewer periods.
+          </p>
+          {editing ? (
+            <WorkingDaysPicker
+              value={draft.workingDays}
+              onChange={(workingDays) => setDraft({ ...draft, workingDays })}
+              disabled={submitting}
+            />
+          ) : (
+            <p className="text-gray-900"><WorkingDaysSummary workingDays={workingDaysOf(shown)} /></p>
+          )}
+          <FormFieldError message={serverErrors.workingDays} />
+        </div>
+
+        {shown.shifts.map((shift, index) => (
+          <div key={shift.session} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">{shift.session} session</h3>
+              {editing && (
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, shifts: draft.shifts.filter((_, i) => i !== index) })}
+                  className="text-red-600 hover:text-red-900 p-1 rounded"
+                  disabled={submitting}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <PeriodTable
+              periods={shift.periods}
+              onChange={editing ? (periods) => setShiftPeriods(index, periods) : undefined}
+              disabled={submitting}
+            />
+            <p className="text-sm text-gray-500 mt-3">
+              Lab sessions: {labTimesIn(shift.periods, shown.labPeriods).join(', ') || 'none'}
+            </p>
+          </div>
+        ))}
+        {editing && missingSessions.length > 0 && (
+          <div className="flex space-x-2">
+            {missingSessions.map((session) => (
+              <button
+                key={session}
+                type="button"
+                onClick={() => addShift(session)}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                disabled={submitting}
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add {session} session</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <FormFieldError message={serverErrors.shifts} />
+
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Days that differ</h3>
+            <p className="text-sm text-gray-600">A day listed here uses its own periods instead of its session's.</p>
+          </div>
+          {shown.dayVariations.length === 0 && <p className="text-sm text-gray-500">Every day follows its session.</p>}
+          {shown.dayVariations.map((variation, index) => (
+            <div key={`${variation.day}-${variation.session}`} className="border-t border-gray-100 pt-4">
+              <div className="flex justify-between items-center mb-2">
+                <p className="font-medium text-gray-900">{variation.day} ({variation.session} session)</p>
+                {editing && (
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...draft, dayVariations: draft.dayVariations.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-900 p-1 rounded"
+                    disabled={submitting}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              <PeriodTable
+                periods={variation.periods}
+                onChange={editing ? (periods) => setVariationPeriods(index, periods) : undefined}
+                disabled={submitting}
+              />
+              <p className="text-sm text-gray-500 mt-3">
+                Lab sessions: {labTimesIn(variation.periods, shown.labPeriods).join(', ') || 'none'}
+              </p>
+            </div>
+          ))}
+          {editing && (
+            <div className="flex items-center space-x-2 border-t border-gray-100 pt-4">
+              <select
+                value={variationDay}
+                onChange={(e) => setVariationDay(e.target.value as Day)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={submitting}
+              >
+                {DAYS.map((day) => <option key={day} value={day}>{day}</option>)}
+              </select>
+              <select
+                value={variationSession}
+                onChange={(e) => setVariationSession(e.target.value as YearSession)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={submitting}
+              >
+                {draft.shifts.map((shift) => <option key={shift.session} value={shift.session}>{shift.session}</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={addVariation}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                disabled={submitting || variationTaken}
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add day</span>
+              </button>
+            </div>
+          )}
+          <FormFieldError message={serverErrors.dayVariations} />
+        </div>
+
+        {editing && (
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+            >
+              {submitting && <LoadingSpinner size="sm" />}
+              <span className={submitting ? 'ml-2' : ''}>{submitting ? 'Saving...' : 'Save Schedule'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={submitting}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default BellScheduleEditor;
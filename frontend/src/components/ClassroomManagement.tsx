@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Plus, Edit2, Trash2, Building, Users, MapPin, Settings, AlertCircle } from 'lucide-react';
 import { useTimetableData } from '../hooks/useTimetableData';
+import { useAcademicYears } from '../hooks/useAcademicYears';
 import { Classroom } from '../types/timetable';
 import { LoadingSpinner } from './LoadingSpinner';
 
@@ -14,6 +15,7 @@ const ClassroomManagement = () => {
     deleteClassroom,
     clearError 
   } = useTimetableData();
+  const { years, labelOf } = useAcademicYears();
 
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingClassroom, setEditingClassroom] = useState<Classroom | null>(null);
@@ -22,7 +24,7 @@ const ClassroomManagement = () => {
     name: '',
     capacity: 90,
     timeSlot: '8AM-3PM' as '8AM-3PM' | '10AM-5PM',
-    assignedYear: 'SE' as 'SE' | 'TE' | 'BE',
+    assignedYear: '',
     floor: 1,
     amenities: [] as string[],
   });
@@ -32,7 +34,7 @@ const ClassroomManagement = () => {
       name: '',
       capacity: 90,
       timeSlot: '8AM-3PM',
-      assignedYear: 'SE',
+      assignedYear: '',
       floor: 1,
       amenities: [],
     });
@@ -99,11 +101,7 @@ const ClassroomManagement = () => {
     { value: '10AM-5PM', label: '10:00 AM - 5:00 PM' },
   ];
 
-  const yearOptions = [
-    { value: 'SE', label: 'Second Year (SE)' },
-    { value: 'TE', label: 'Third Year (TE)' },
-    { value: 'BE', label: 'Final Year (BE)' },
-  ];
+  const yearOptions = years.map((year) => ({ value: year.code, label: labelOf(year.code) }));
 
   if (loading) {
     return <LoadingSpinner text="Loading classrooms..." />;
@@ -205,11 +203,12 @@ const ClassroomManagement = () => {
                 </label>
                 <select
                   value={formData.assignedYear}
-                  onChange={(e) => setFormData({ ...formData, assignedYear: e.target.value as 'SE' | 'TE' | 'BE' })}
+                  onChange={(e) => setFormData({ ...formData, assignedYear: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   required
                   disabled={submitting}
                 >
+                  <option value="" disabled>Select year</option>
                   {yearOptions.map((option) => (
                     <option key={option.value} value={option.value}>
                       {option.label}
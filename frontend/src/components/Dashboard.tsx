@@ -1,7 +1,29 @@
-import React from 'react';
-import { Calendar, Users, BookOpen, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { Calendar, Users, BookOpen, CheckCircle, Database } from 'lucide-react';
+import { DataInitializationService } from '../services/api';
+import { useCurrentUser } from '../hooks/useAuth';
+import ActivityLog from './ActivityLog';
 
 const Dashboard = () => {
+  const [seeding, setSeeding] = useState(false);
+  const [seedMessage, setSeedMessage] = useState<string | null>(null);
+  const role = useCurrentUser()?.role;
+  const isAdmin = role === 'admin'; // quick actions all change data
+
+  const handleLoadSampleData = async (mode: 'merge' | 'reset') => {
+    if (mode === 'reset' && !window.confirm('This deletes the subjects, faculty, faculty accounts, rooms, labs and timetables of this department and replaces them with the sample department. Continue?')) {
+      return;
+    }
+    setSeeding(true);
+    try {
+      setSeedMessage(await DataInitializationService.initializeSampleData(mode));
+    } catch (error) {
+      setSeedMessage(error instanceof Error ? error.message : 'Failed to load sample data');
+    } finally {
+      setSeeding(false);
+    }
+  };
+
   const stats = [
     {
       title: 'Total Subjects',
@@ -33,40 +55,6 @@ const Dashboard = () => {
     },
   ];
 
-  const recentActivity = [
-    {
-      type: 'success',
-      message: 'Timetable generated successfully for SE-A',
-      time: '2 hours ago',
-    },
-    {
-      type: 'warning',
-      message: 'Faculty conflict detected for Dr. Sharma on Monday 2PM',
-      time: '4 hours ago',
-    },
-    {
-      type: 'info',
-      message: 'New subject "Machine Learning" added to BE curriculum',
-      time: '1 day ago',
-    },
-    {
-      type: 'success',
-      message: 'Lab schedules optimized, 12% efficiency improvement',
-      time: '2 days ago',
-    },
-  ];
-
-  const getActivityIcon = (type: string) => {
-    switch (type) {
-      case 'success':
-        return <CheckCircle className="h-5 w-5 text-green-500" />;
-      case 'warning':
-        return <AlertTriangle className="h-5 w-5 text-yellow-500" />;
-      default:
-        return <Clock className="h-5 w-5 text-blue-500" />;
-    }
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -102,48 +90,63 @@ const Dashboard = () => {
       </div>
 
       {/* Quick Actions */}
-      <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <button className="flex items-center space-x-3 p-4 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors">
-            <Calendar className="h-6 w-6 text-blue-600" />
-            <div className="text-left">
-              <p className="font-medium text-blue-900">Generate New Timetable</p>
-              <p className="text-sm text-blue-700">Create optimized schedules</p>
-            </div>
-          </button>
-          <button className="flex items-center space-x-3 p-4 bg-green-50 rounded-lg hover:bg-green-100 transition-colors">
-            <BookOpen className="h-6 w-6 text-green-600" />
-            <div className="text-left">
-              <p className="font-medium text-green-900">Add New Subject</p>
-              <p className="text-sm text-green-700">Configure course details</p>
-            </div>
-          </button>
-          <button className="flex items-center space-x-3 p-4 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors">
-            <Users className="h-6 w-6 text-purple-600" />
-            <div className="text-left">
-              <p className="font-medium text-purple-900">Manage Faculty</p>
-              <p className="text-sm text-purple-700">Update assignments</p>
-            </div>
-          </button>
+      {isAdmin && (
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <button className="flex items-center space-x-3 p-4 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors">
+              <Calendar className="h-6 w-6 text-blue-600" />
+              <div className="text-left">
+                <p className="font-medium text-blue-900">Generate New Timetable</p>
+                <p className="text-sm text-blue-700">Create optimized schedules</p>
+              </div>
+            </button>
+            <button className="flex items-center space-x-3 p-4 bg-green-50 rounded-lg hover:bg-green-100 transition-colors">
+              <BookOpen className="h-6 w-6 text-green-600" />
+              <div className="text-left">
+                <p className="font-medium text-green-900">Add New Subject</p>
+                <p className="text-sm text-green-700">Configure course details</p>
+              </div>
+            </button>
+            <button className="flex items-center space-x-3 p-4 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors">
+              <Users className="h-6 w-6 text-purple-600" />
+              <div className="text-left">
+                <p className="font-medium text-purple-900">Manage Faculty</p>
+                <p className="text-sm text-purple-700">Update assignments</p>
+              </div>
+            </button>
+            <button
+              onClick={() => handleLoadSampleData('merge')}
+              disabled={seeding}
+              className="flex items-center space-x-3 p-4 bg-orange-50 rounded-lg hover:bg-orange-100 transition-colors disabled:opacity-50"
+            >
+              <Database className="h-6 w-6 text-orange-600" />
+              <div className="text-left">
+                <p className="font-medium text-orange-900">{seeding ? 'Loading...' : 'Load Sample Data'}</p>
+                <p className="text-sm text-orange-700">Sample SE/TE/BE department</p>
+              </div>
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-4 text-sm">
+            <span className="text-gray-600">{seedMessage}</span>
+            <button
+              onClick={() => handleLoadSampleData('reset')}
+              disabled={seeding}
+              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              Reset to sample data
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
-      {/* Recent Activity */}
-      <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
-        <div className="space-y-4">
-          {recentActivity.map((activity, index) => (
-            <div key={index} className="flex items-start space-x-3 p-3 rounded-lg hover:bg-gray-50">
-              {getActivityIcon(activity.type)}
-              <div className="flex-1">
-                <p className="text-sm text-gray-900">{activity.message}</p>
-                <p className="text-xs text-gray-500 mt-1">{activity.time}</p>
-              </div>
-            </div>
-          ))}
+      {/* Recent Activity, from the audit log; students don't have access to it */}
+      {role !== 'student' && (
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
+          <ActivityLog />
         </div>
-      </div>
+      )}
 
       {/* Current Semester Info */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
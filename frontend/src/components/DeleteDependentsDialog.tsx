@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DeleteDependents, DeleteOptions, SlotWriteConflict } from '../types/timetable';
+import { SlotConflictError } from '../services/api';
+
+interface DeleteDependentsDialogProps {
+  itemName: string;
+  dependents: DeleteDependents;
+  reassignTargets: { id: string; label: string }[];
+  reassignLabel: string; // e.g. "Move everything to another faculty member"
+  onConfirm: (options: DeleteOptions) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Shown when the item being deleted is still referenced, so the user picks
+// between removing the dependents and handing them over to another record
+export const DeleteDependentsDialog: React.FC<DeleteDependentsDialogProps> = ({
+  itemName,
+  dependents,
+  reassignTargets,
+  reassignLabel,
+  onConfirm,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<'cascade' | 'reassign'>(reassignTargets.length > 0 ? 'reassign' : 'cascade');
+  const [to, setTo] = useState(reassignTargets[0]?.id ?? '');
+  const [submitting, setSubmitting] = useState(false);
+  // Clashes the reassigned slots would cause; confirming again moves them anyway
+  const [conflicts, setConflicts] = useState<SlotWriteConflict[]>([]);
+
+  const choose = (nextMode: 'cascade' | 'reassign', nextTo = to) => {
+    setMode(nextMode);
+    setTo(nextTo);
+    setConflicts([]);
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      await onConfirm(mode === 'reassign' ? { mode, to, force: conflicts.length > 0 } : { mode });
+    } catch (err) {
+      if (err instanceof SlotConflictError) setConflicts(err.conflicts);
+      else console.error(`Error deleting ${itemName}:`, err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 max-w-lg w-full space-y-4">
+        <div className="flex items-center space-x-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          <h3 className="text-lg font-semibold text-gray-900">{itemName} is still in use</h3>
+        </div>
+
+        <ul className="text-sm text-gray-700 space-y-1 list-disc list-inside">
+          {dependents.subjects.length > 0 && (
+            <li>
+              {dependents.subjects.length} subject(s): {dependents.subjects.map(s => s.code).join(', ')}
+            </li>
+          )}
+          {dependents.accounts.length > 0 && (
+            <li>
+              {dependents.accounts.length} account(s): {dependents.accounts.map(a => a.email).join(', ')}
+            </li>
+          )}
+          {dependents.slotCount > 0 && <li>{dependents.slotCount} slot(s) in the live timetable</li>}
+          {dependents.timetables.map(t => (
+            <li key={t._id}>
+              {t.slotCount} slot(s) in saved version "{t.name}"{t.isActive ? ' (active)' : ''}
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-3">
+          <label className={`flex items-center space-x-2 ${reassignTargets.length === 0 ? 'opacity-50' : ''}`}>
+            <input
+              type="radio"
+              checked={mode === 'reassign'}
+              onChange={() => choose('reassign')}
+              disabled={reassignTargets.length === 0 || submitting}
+            />
+            <span className="text-sm text-gray-800">{reassignLabel}</span>
+          </label>
+          {mode === 'reassign' && (
+            <select
+              value={to}
+              onChange={(e) => choose('reassign', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={submitting}
+            >
+              {reassignTargets.map(target => (
+                <option key={target.id} value={target.id}>{target.label}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="radio"
+              checked={mode === 'cascade'}
+              onChange={() => choose('cascade')}
+              disabled={submitting}
+            />
+            <span className="text-sm text-gray-800">Delete it together with everything listed above</span>
+          </label>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+            <p className="font-medium">Moving the slots would cause {conflicts.length} conflict(s):</p>
+            <ul className="list-disc list-inside mt-1 space-y-1">
+              {conflicts.slice(0, 10).map((conflict, index) => <li key={index}>{conflict.message}</li>)}
+              {conflicts.length > 10 && <li>...and {conflicts.length - 10} more</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50"
+            disabled={submitting}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            disabled={submitting || (mode === 'reassign' && !to)}
+          >
+            {submitting ? 'Deleting...' : conflicts.length > 0 ? 'Move anyway and delete' : 'Delete'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Building2, Plus, X } from 'lucide-react';
+import { Department } from '../types/timetable';
+import { departmentsService, fieldErrorsOf } from '../services/api';
+import { useIsAdmin } from '../hooks/useAuth';
+import { FormFieldError } from './FormFieldError';
+
+interface DepartmentSwitcherProps {
+  departments: Department[];
+  current: Department | null;
+  onSelect: (id: string) => void;
+}
+
+// Header control for the department being worked in. Admins can add departments here too.
+const DepartmentSwitcher: React.FC<DepartmentSwitcherProps> = ({ departments, current, onSelect }) => {
+  const isAdmin = useIsAdmin();
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const closeForm = () => {
+    setAdding(false);
+    setName('');
+    setCode('');
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setErrors({});
+    try {
+      const id = await departmentsService.add({ name, code });
+      closeForm();
+      onSelect(id);
+    } catch (err) {
+      const fieldErrors = fieldErrorsOf(err);
+      setErrors(Object.keys(fieldErrors).length > 0
+        ? fieldErrors
+        : { form: err instanceof Error ? err.message : 'Failed to add department' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (adding) {
+    return (
+      <form onSubmit={handleSubmit} className="flex items-start space-x-2">
+        <div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Department name"
+            className="w-44 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            required
+            disabled={submitting}
+          />
+          <FormFieldError message={errors.name ?? errors.form} />
+        </div>
+        <div>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Code"
+            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            required
+            disabled={submitting}
+          />
+          <FormFieldError message={errors.code} />
+        </div>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+        <button type="button" onClick={closeForm} className="p-1 text-gray-500 hover:text-gray-900" title="Cancel">
+          <X className="h-4 w-4" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Building2 className="h-5 w-5 text-gray-500" />
+      <select
+        value={current?.id ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        title="Department"
+      >
+        {departments.map((department) => (
+          <option key={department.id} value={department.id}>
+            {department.code} - {department.name}
+          </option>
+        ))}
+      </select>
+      {isAdmin && (
+        <button
+          onClick={() => setAdding(true)}
+          className="p-1 text-gray-500 hover:text-gray-900 rounded-lg hover:bg-gray-100"
+          title="Add department"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DepartmentSwitcher;
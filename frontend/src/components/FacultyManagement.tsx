@@ -1,8 +1,21 @@
 import React, { useState } from 'react';
 import { Plus, Edit2, Trash2, User, Mail, Phone, BookOpen, AlertCircle } from 'lucide-react';
 import { useTimetableData } from '../hooks/useTimetableData';
-import { Faculty } from '../types/timetable';
+import { usePagedList } from '../hooks/usePagedList';
+import { useCurrentUser } from '../hooks/useAuth';
+import { Faculty, DeleteDependents, DeleteOptions } from '../types/timetable';
+import { facultyService, fieldErrorsOf } from '../services/api';
+import { EMAIL_PATTERN, PHONE_PATTERN } from '@timetable/shared';
 import { LoadingSpinner } from './LoadingSpinner';
+import { DeleteDependentsDialog } from './DeleteDependentsDialog';
+import { FormFieldError } from './FormFieldError';
+import { ListSearchBar, Pagination } from './ListControls';
+
+const SORT_OPTIONS = [
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: '-name', label: 'Name (Z–A)' },
+  { value: '-maxHoursPerDay', label: 'Most hours per day' },
+];
 
 const FacultyManagement = () => {
   const { 
@@ -14,15 +27,20 @@ const FacultyManagement = () => {
     deleteFaculty,
     clearError 
   } = useTimetableData();
+  // The full list above feeds the reassign choices; the cards show one page of it
+  const facultyPage = usePagedList(facultyService, { initialSort: 'name' });
+  // Faculty members only see their own card as editable, and only its preferences
+  const user = useCurrentUser();
+  const isAdmin = user?.role === 'admin';
 
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingFaculty, setEditingFaculty] = useState<Faculty | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<{ faculty: Faculty; dependents: DeleteDependents } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     phone: '',
-    department: '',
     subjects: [] as string[],
     maxHoursPerDay: 4,
     preferredSlots: [] as string[],
@@ -31,14 +49,14 @@ const FacultyManagement = () => {
     email: '',
     phone: '',
   });
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
 
   const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!email) {
       setValidationErrors(prev => ({ ...prev, email: 'Email is required' }));
       return false;
     }
-    if (!emailRegex.test(email)) {
+    if (!EMAIL_PATTERN.test(email)) {
       setValidationErrors(prev => ({ ...prev, email: 'Please enter a valid email address' }));
       return false;
     }
@@ -47,13 +65,11 @@ const FacultyManagement = () => {
   };
 
   const validatePhone = (phone: string): boolean => {
-    // Accepts only 10 digits
-    const phoneRegex = /^\d{10}$/;
     if (!phone) {
       setValidationErrors(prev => ({ ...prev, phone: 'Phone number is required' }));
       return false;
     }
-    if (!phoneRegex.test(phone)) {
+    if (!PHONE_PATTERN.test(phone)) {
       setValidationErrors(prev => ({ ...prev, phone: 'Please enter exactly 10 digits' }));
       return false;
     }
@@ -66,19 +82,24 @@ const FacultyManagement = () => {
       name: '',
       email: '',
       phone: '',
-      department: '',
-      subjects: [],
+        subjects: [],
       maxHoursPerDay: 4,
       preferredSlots: [],
     });
     setValidationErrors({ email: '', phone: '' });
+    setServerErrors({});
     setEditingFaculty(null);
     setShowAddForm(false);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    if (!isAdmin) {
+      await savePreferences();
+      return;
+    }
+
     // Validate email and phone before submitting
     const isEmailValid = validateEmail(formData.email);
     const isPhoneValid = validatePhone(formData.phone);
@@ -98,7 +119,23 @@ const FacultyManagement = () => {
       resetForm();
     } catch (err) {
       console.error('Error saving faculty:', err);
-      // Error is already handled in the hook
+      // The hook shows the message; field problems go next to their inputs
+      setServerErrors(fieldErrorsOf(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // The only fields the backend lets faculty members change on their own record
+  const savePreferences = async () => {
+    setSubmitting(true);
+    try {
+      const { maxHoursPerDay, preferredSlots } = formData;
+      await updateFaculty(editingFaculty!.id!, { maxHoursPerDay, preferredSlots });
+      resetForm();
+    } catch (err) {
+      console.error('Error saving preferences:', err);
+      setServerErrors(fieldErrorsOf(err));
     } finally {
       setSubmitting(false);
     }
@@ -109,7 +146,6 @@ const FacultyManagement = () => {
       name: facultyMember.name,
       email: facultyMember.email,
       phone: facultyMember.phone,
-      department: facultyMember.department,
       subjects: facultyMember.subjects,
       maxHoursPerDay: facultyMember.maxHoursPerDay,
       preferredSlots: facultyMember.preferredSlots,
@@ -119,16 +155,30 @@ const FacultyManagement = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this faculty member?')) {
-      try {
+    try {
+      // Faculty with subjects or timetable slots need a cascade or reassign decision
+      const dependents = await facultyService.getDependents(id);
+      const facultyMember = faculty.find(f => f.id === id);
+      if (dependents.total > 0 && facultyMember) {
+        setPendingDelete({ faculty: facultyMember, dependents });
+        return;
+      }
+      if (window.confirm('Are you sure you want to delete this faculty member?')) {
         await deleteFaculty(id);
-      } catch (err) {
-        console.error('Error deleting faculty:', err);
-        // Error is already handled in the hook
       }
+    } catch (err) {
+      console.error('Error deleting faculty:', err);
+      // Error is already handled in the hook
     }
   };
 
+  const handleConfirmDelete = async (options: DeleteOptions) => {
+    if (!pendingDelete) return;
+    // The dialog reports failures, and offers to override clashes from reassigning
+    await deleteFaculty(pendingDelete.faculty.id, options);
+    setPendingDelete(null);
+  };
+
   const handleSubjectChange = (subject: string, checked: boolean) => {
     if (checked) {
       setFormData({ ...formData, subjects: [...formData.subjects, subject] });
@@ -178,97 +228,93 @@ const FacultyManagement = () => {
             Manage faculty information, subject assignments, and scheduling preferences
           </p>
         </div>
-        <button
-          onClick={() => setShowAddForm(true)}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Faculty</span>
-        </button>
+        {isAdmin && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Faculty</span>
+          </button>
+        )}
       </div>
 
       {/* Add/Edit Form */}
       {showAddForm && (
         <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            {editingFaculty ? 'Edit Faculty' : 'Add New Faculty'}
+            {!isAdmin ? 'Edit My Preferences' : editingFaculty ? 'Edit Faculty' : 'Add New Faculty'}
           </h3>
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Full Name
-                </label>
-                <input
-                  type="text"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  required
-                  disabled={submitting}
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Email
-                </label>
-                <input
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => {
-                    setFormData({ ...formData, email: e.target.value });
-                    if (validationErrors.email) validateEmail(e.target.value);
-                  }}
-                  onBlur={(e) => validateEmail(e.target.value)}
-                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                    validationErrors.email ? 'border-red-500' : 'border-gray-300'
-                  }`}
-                  required
-                  disabled={submitting}
-                />
-                {validationErrors.email && (
-                  <p className="mt-1 text-sm text-red-600">{validationErrors.email}</p>
-                )}
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Phone
-                </label>
-                <input
-                  type="tel"
-                  value={formData.phone}
-                  onChange={(e) => {
-                    const value = e.target.value.replace(/\D/g, ''); // Only allow digits
-                    setFormData({ ...formData, phone: value });
-                    if (validationErrors.phone) validatePhone(value);
-                  }}
-                  onBlur={(e) => validatePhone(e.target.value)}
-                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                    validationErrors.phone ? 'border-red-500' : 'border-gray-300'
-                  }`}
-                  placeholder="e.g., 1234567890"
-                  maxLength={10}
-                  required
-                  disabled={submitting}
-                />
-                {validationErrors.phone && (
-                  <p className="mt-1 text-sm text-red-600">{validationErrors.phone}</p>
-                )}
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Department
-                </label>
-                <input
-                  type="text"
-                  value={formData.department}
-                  onChange={(e) => setFormData({ ...formData, department: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  required
-                  disabled={submitting}
-                />
+            {isAdmin && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Full Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                    disabled={submitting}
+                  />
+                  <FormFieldError message={serverErrors.name} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => {
+                      setFormData({ ...formData, email: e.target.value });
+                      if (validationErrors.email) validateEmail(e.target.value);
+                    }}
+                    onBlur={(e) => validateEmail(e.target.value)}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                      validationErrors.email ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    required
+                    disabled={submitting}
+                  />
+                  {validationErrors.email ? (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.email}</p>
+                  ) : (
+                    <FormFieldError message={serverErrors.email} />
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => {
+                      const value = e.target.value.replace(/\D/g, ''); // Only allow digits
+                      setFormData({ ...formData, phone: value });
+                      if (validationErrors.phone) validatePhone(value);
+                    }}
+                    onBlur={(e) => validatePhone(e.target.value)}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                      validationErrors.phone ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder="e.g., 1234567890"
+                    maxLength={10}
+                    required
+                    disabled={submitting}
+                  />
+                  {validationErrors.phone ? (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.phone}</p>
+                  ) : (
+                    <FormFieldError message={serverErrors.phone} />
+                  )}
+                </div>
               </div>
-            </div>
+            )}
             
             {/* <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -305,6 +351,7 @@ const FacultyManagement = () => {
                   required
                   disabled={submitting}
                 />
+                <FormFieldError message={serverErrors.maxHoursPerDay} />
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -354,6 +401,21 @@ const FacultyManagement = () => {
         </div>
       )}
 
+      {faculty.length > 0 && (
+        <ListSearchBar
+          search={facultyPage.search}
+          onSearchChange={facultyPage.setSearch}
+          placeholder="Search by name, email, phone or subject"
+          sort={facultyPage.sort}
+          onSortChange={facultyPage.setSort}
+          sortOptions={SORT_OPTIONS}
+        />
+      )}
+
+      {facultyPage.error && (
+        <p className="text-sm text-red-600">{facultyPage.error}</p>
+      )}
+
       {/* Faculty List */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {faculty.length === 0 ? (
@@ -361,16 +423,20 @@ const FacultyManagement = () => {
             <User className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Faculty Members</h3>
             <p className="text-gray-600 mb-4">Get started by adding your first faculty member.</p>
-            <button
-              onClick={() => setShowAddForm(true)}
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Faculty
-            </button>
+            {isAdmin && (
+              <button
+                onClick={() => setShowAddForm(true)}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Faculty
+              </button>
+            )}
           </div>
+        ) : facultyPage.items.length === 0 && !facultyPage.loading ? (
+          <p className="col-span-full text-center py-8 text-gray-600">No faculty members match your search.</p>
         ) : (
-          faculty.map((facultyMember) => (
+          facultyPage.items.map((facultyMember) => (
             <div key={facultyMember.id} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
               <div className="flex justify-between items-start mb-4">
                 <div className="flex items-center space-x-3">
@@ -379,24 +445,27 @@ const FacultyManagement = () => {
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-gray-900">{facultyMember.name}</h3>
-                    <p className="text-sm text-gray-600">{facultyMember.department}</p>
                   </div>
                 </div>
                 <div className="flex space-x-2">
-                  <button
-                    onClick={() => handleEdit(facultyMember)}
-                    className="text-blue-600 hover:text-blue-900 p-1 rounded"
-                    disabled={submitting}
-                  >
-                    <Edit2 className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(facultyMember.id!)}
-                    className="text-red-600 hover:text-red-900 p-1 rounded"
-                    disabled={submitting}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  {(isAdmin || user?.faculty === facultyMember.id) && (
+                    <button
+                      onClick={() => handleEdit(facultyMember)}
+                      className="text-blue-600 hover:text-blue-900 p-1 rounded"
+                      disabled={submitting}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleDelete(facultyMember.id!)}
+                      className="text-red-600 hover:text-red-900 p-1 rounded"
+                      disabled={submitting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -445,6 +514,27 @@ const FacultyManagement = () => {
           ))
         )}
       </div>
+
+      <Pagination
+        page={facultyPage.page}
+        pageCount={facultyPage.pageCount}
+        pageSize={facultyPage.pageSize}
+        total={facultyPage.total}
+        onPageChange={facultyPage.setPage}
+      />
+
+      {pendingDelete && (
+        <DeleteDependentsDialog
+          itemName={pendingDelete.faculty.name}
+          dependents={pendingDelete.dependents}
+          reassignTargets={faculty
+            .filter(f => f.id !== pendingDelete.faculty.id)
+            .map(f => ({ id: f.id, label: f.name }))}
+          reassignLabel="Move their subjects and slots to another faculty member"
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,5 @@
+import React from 'react';
+
+// The backend's message about one form field, if it rejected it (see fieldErrorsOf)
+export const FormFieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null;
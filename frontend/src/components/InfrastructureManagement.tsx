@@ -1,8 +1,32 @@
 import React, { useState } from 'react';
 import { Building, Clock, Users, MapPin, Settings, Cpu, Wrench, AlertCircle, Plus, Edit2, Trash2, BookOpen } from 'lucide-react';
 import { useTimetableData } from '../hooks/useTimetableData';
+import { usePagedList } from '../hooks/usePagedList';
+import { useIsAdmin } from '../hooks/useAuth';
+import { useCurrentDepartmentId, useDepartmentList } from '../hooks/useDepartment';
+import { className, useAcademicYears } from '../hooks/useAcademicYears';
+import { useBellSchedule } from '../hooks/useBellSchedule';
+import { scheduleRows } from '@timetable/shared';
 import { LoadingSpinner } from './LoadingSpinner';
-import { Subject } from '../types/timetable';
+import { DeleteDependentsDialog } from './DeleteDependentsDialog';
+import { FormFieldError } from './FormFieldError';
+import { ListSearchBar, Pagination } from './ListControls';
+import { Subject, DeleteDependents, DeleteOptions } from '../types/timetable';
+import { classroomsService, fieldErrorsOf, laboratoriesService } from '../services/api';
+
+const CLASSROOM_SORT_OPTIONS = [
+  { value: 'name', label: 'Name' },
+  { value: '-capacity', label: 'Largest first' },
+  { value: 'floor,name', label: 'Floor' },
+  { value: 'assignedYear,name', label: 'Assigned year' },
+];
+
+const LAB_SORT_OPTIONS = [
+  { value: 'name', label: 'Name' },
+  { value: '-capacity', label: 'Largest first' },
+  { value: 'floor,name', label: 'Floor' },
+  { value: 'type,name', label: 'Lab type' },
+];
 
 const InfrastructureManagement = () => {
   const {
@@ -21,16 +45,37 @@ const InfrastructureManagement = () => {
   } = useTimetableData();
 
   const [activeTab, setActiveTab] = useState<'classrooms' | 'labs'>('classrooms');
+  // The full lists above feed the summary and reassign choices; the cards show one page
+  const classroomPage = usePagedList(classroomsService, { initialSort: 'name' });
+  const labPage = usePagedList(laboratoriesService, { initialSort: 'name' });
+  const isAdmin = useIsAdmin(); // others see the records read-only
+  // Rooms shared with this department are listed too, but only their owner edits them
+  const departmentId = useCurrentDepartmentId();
+  const { departments } = useDepartmentList();
+  const { years, labelOf, divisionsOf, colorOf } = useAcademicYears();
+  const { schedule } = useBellSchedule();
+  const otherDepartments = departments.filter(department => department.id !== departmentId);
+  const ownerCode = (id?: string) => departments.find(department => department.id === id)?.code ?? 'another department';
+  const [sharedWith, setSharedWith] = useState<string[]>([]);
+  const activePage = activeTab === 'classrooms' ? classroomPage : labPage;
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingItem, setEditingItem] = useState<any>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [pendingDelete, setPendingDelete] = useState<{
+    kind: 'classrooms' | 'labs';
+    id: string;
+    name: string;
+    dependents: DeleteDependents;
+  } | null>(null);
 
   // Form data for classroom
   const [classroomFormData, setClassroomFormData] = useState({
     name: '',
     capacity: 90,
     timeSlot: '8AM-3PM' as '8AM-3PM' | '10AM-5PM',
-    assignedYear: 'SE' as 'SE' | 'TE' | 'BE',
+    assignedYear: '',
+    assignedDivision: '',
     floor: 1,
     amenities: [] as string[],
   });
@@ -51,7 +96,8 @@ const InfrastructureManagement = () => {
       name: '',
       capacity: 90,
       timeSlot: '8AM-3PM',
-      assignedYear: 'SE',
+      assignedYear: '',
+      assignedDivision: '',
       floor: 1,
       amenities: [],
     });
@@ -64,6 +110,8 @@ const InfrastructureManagement = () => {
       availableHours: [],
       compatibleSubjects: []
     });
+    setSharedWith([]);
+    setServerErrors({});
     setEditingItem(null);
     setShowAddForm(false);
   };
@@ -75,20 +123,22 @@ const InfrastructureManagement = () => {
     try {
       if (activeTab === 'classrooms') {
         if (editingItem) {
-          await updateClassroom(editingItem.id!, classroomFormData);
+          await updateClassroom(editingItem.id!, { ...classroomFormData, sharedWith });
         } else {
-          await addClassroom(classroomFormData);
+          await addClassroom({ ...classroomFormData, sharedWith });
         }
       } else {
         if (editingItem) {
-          await updateLab(editingItem.id!, labFormData);
+          await updateLab(editingItem.id!, { ...labFormData, sharedWith });
         } else {
-          await addLab(labFormData);
+          await addLab({ ...labFormData, sharedWith });
         }
       }
       resetForms();
     } catch (err) {
       console.error('Error saving item:', err);
+      // The hook shows the message; field problems go next to their inputs
+      setServerErrors(fieldErrorsOf(err));
     } finally {
       setSubmitting(false);
     }
@@ -101,6 +151,7 @@ const InfrastructureManagement = () => {
         capacity: item.capacity,
         timeSlot: item.timeSlot,
         assignedYear: item.assignedYear,
+        assignedDivision: item.assignedDivision ?? '',
         floor: item.floor,
         amenities: item.amenities,
       });
@@ -115,23 +166,43 @@ const InfrastructureManagement = () => {
         compatibleSubjects: item.compatibleSubjects || []
       });
     }
+    setSharedWith(item.sharedWith || []);
     setEditingItem(item);
     setShowAddForm(true);
   };
 
   const handleDelete = async (id: string) => {
     const itemType = activeTab === 'classrooms' ? 'classroom' : 'laboratory';
-    if (window.confirm(`Are you sure you want to delete this ${itemType}?`)) {
-      try {
+    try {
+      // Rooms with booked slots need a cascade or reassign decision
+      const service = activeTab === 'classrooms' ? classroomsService : laboratoriesService;
+      const dependents = await service.getDependents(id);
+      const item = (activeTab === 'classrooms' ? classrooms : labs).find(room => room.id === id);
+      if (dependents.total > 0 && item) {
+        setPendingDelete({ kind: activeTab, id, name: item.name, dependents });
+        return;
+      }
+      if (window.confirm(`Are you sure you want to delete this ${itemType}?`)) {
         if (activeTab === 'classrooms') {
           await deleteClassroom(id);
         } else {
           await deleteLab(id);
         }
-      } catch (err) {
-        console.error('Error deleting item:', err);
       }
+    } catch (err) {
+      console.error('Error deleting item:', err);
+    }
+  };
+
+  const handleConfirmDelete = async (options: DeleteOptions) => {
+    if (!pendingDelete) return;
+    // The dialog reports failures, and offers to override clashes from reassigning
+    if (pendingDelete.kind === 'classrooms') {
+      await deleteClassroom(pendingDelete.id, options);
+    } else {
+      await deleteLab(pendingDelete.id, options);
     }
+    setPendingDelete(null);
   };
 
   const handleClassroomAmenityChange = (amenity: string, checked: boolean) => {
@@ -176,10 +247,8 @@ const InfrastructureManagement = () => {
     'Smart Board', 'Audio System'
   ];
 
-  const timeSlots = [
-    '8:00-9:00', '9:00-10:00', '10:15-11:15', '11:15-12:15',
-    '1:15-3:15', '3:15-5:15'
-  ];
+  // Teaching rows of the bell schedule; breaks and lunch aren't bookable
+  const timeSlots = scheduleRows(schedule).filter(row => row.kind === 'lecture').map(row => row.time);
 
   const labTypes = [
     'Computer Lab', 'Specialized Lab', 'Research Lab',
@@ -191,11 +260,8 @@ const InfrastructureManagement = () => {
     { value: '10AM-5PM', label: '10:00 AM - 5:00 PM' },
   ];
 
-  const yearOptions = [
-    { value: 'SE', label: 'Second Year (SE)' },
-    { value: 'TE', label: 'Third Year (TE)' },
-    { value: 'BE', label: 'Final Year (BE)' },
-  ];
+  const yearOptions = years.map((year) => ({ value: year.code, label: labelOf(year.code) }));
+  const divisionOptions = divisionsOf(classroomFormData.assignedYear);
 
   if (loading) {
     return <LoadingSpinner text="Loading infrastructure..." />;
@@ -227,13 +293,15 @@ const InfrastructureManagement = () => {
             Manage classrooms and laboratory facilities
           </p>
         </div>
-        <button
-          onClick={() => setShowAddForm(true)}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add {activeTab === 'classrooms' ? 'Classroom' : 'Laboratory'}</span>
-        </button>
+        {isAdmin && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add {activeTab === 'classrooms' ? 'Classroom' : 'Laboratory'}</span>
+          </button>
+        )}
       </div>
 
       {/* Add/Edit Form */}
@@ -260,6 +328,7 @@ const InfrastructureManagement = () => {
                       disabled={submitting}
                       placeholder="e.g., Room A-101"
                     />
+                    <FormFieldError message={serverErrors.name} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -275,6 +344,7 @@ const InfrastructureManagement = () => {
                       required
                       disabled={submitting}
                     />
+                    <FormFieldError message={serverErrors.capacity} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -293,6 +363,7 @@ const InfrastructureManagement = () => {
                         </option>
                       ))}
                     </select>
+                    <FormFieldError message={serverErrors.timeSlot} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -300,18 +371,41 @@ const InfrastructureManagement = () => {
                     </label>
                     <select
                       value={classroomFormData.assignedYear}
-                      onChange={(e) => setClassroomFormData({ ...classroomFormData, assignedYear: e.target.value as 'SE' | 'TE' | 'BE' })}
+                      onChange={(e) => setClassroomFormData({ ...classroomFormData, assignedYear: e.target.value, assignedDivision: '' })}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       required
                       disabled={submitting}
                     >
+                      <option value="" disabled>Select year</option>
                       {yearOptions.map((option) => (
                         <option key={option.value} value={option.value}>
                           {option.label}
                         </option>
                       ))}
                     </select>
+                    <FormFieldError message={serverErrors.assignedYear} />
                   </div>
+                  {divisionOptions.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Assigned Division
+                      </label>
+                      <select
+                        value={classroomFormData.assignedDivision}
+                        onChange={(e) => setClassroomFormData({ ...classroomFormData, assignedDivision: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        disabled={submitting}
+                      >
+                        <option value="">Any division</option>
+                        {divisionOptions.map((division) => (
+                          <option key={division} value={division}>
+                            {classroomFormData.assignedYear}-{division}
+                          </option>
+                        ))}
+                      </select>
+                      <FormFieldError message={serverErrors.assignedDivision} />
+                    </div>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Floor
@@ -326,6 +420,7 @@ const InfrastructureManagement = () => {
                       required
                       disabled={submitting}
                     />
+                    <FormFieldError message={serverErrors.floor} />
                   </div>
                 </div>
 
@@ -366,6 +461,7 @@ const InfrastructureManagement = () => {
                       disabled={submitting}
                       placeholder="e.g., Programming Lab 1"
                     />
+                    <FormFieldError message={serverErrors.name} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -381,6 +477,7 @@ const InfrastructureManagement = () => {
                       required
                       disabled={submitting}
                     />
+                    <FormFieldError message={serverErrors.capacity} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -400,6 +497,7 @@ const InfrastructureManagement = () => {
                         </option>
                       ))}
                     </select>
+                    <FormFieldError message={serverErrors.type} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -415,6 +513,7 @@ const InfrastructureManagement = () => {
                       required
                       disabled={submitting}
                     />
+                    <FormFieldError message={serverErrors.floor} />
                   </div>
                 </div>
                 <div>
@@ -476,6 +575,32 @@ const InfrastructureManagement = () => {
               </>
             )}
 
+            {otherDepartments.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Shared with
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {otherDepartments.map((department) => (
+                    <label key={department.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={sharedWith.includes(department.id)}
+                        onChange={(e) => setSharedWith(e.target.checked
+                          ? [...sharedWith, department.id]
+                          : sharedWith.filter(id => id !== department.id))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        disabled={submitting}
+                      />
+                      <span className="text-sm text-gray-700">{department.code} - {department.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">These departments can book it too; bookings never overlap.</p>
+                <FormFieldError message={serverErrors.sharedWith} />
+              </div>
+            )}
+
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -525,6 +650,23 @@ const InfrastructureManagement = () => {
         </button>
       </div>
 
+      {(activeTab === 'classrooms' ? classrooms : labs).length > 0 && (
+        <ListSearchBar
+          search={activePage.search}
+          onSearchChange={activePage.setSearch}
+          placeholder={activeTab === 'classrooms'
+            ? 'Search by name, assigned year, shift or amenity'
+            : 'Search by name, type, equipment or subject code'}
+          sort={activePage.sort}
+          onSortChange={activePage.setSort}
+          sortOptions={activeTab === 'classrooms' ? CLASSROOM_SORT_OPTIONS : LAB_SORT_OPTIONS}
+        />
+      )}
+
+      {activePage.error && (
+        <p className="text-sm text-red-600">{activePage.error}</p>
+      )}
+
       {/* Classrooms Tab */}
       {activeTab === 'classrooms' && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -533,16 +675,20 @@ const InfrastructureManagement = () => {
               <Building className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No Classrooms</h3>
               <p className="text-gray-600 mb-4">Get started by adding your first classroom.</p>
-              <button
-                onClick={() => setShowAddForm(true)}
-                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Classroom
-              </button>
+              {isAdmin && (
+                <button
+                  onClick={() => setShowAddForm(true)}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Classroom
+                </button>
+              )}
             </div>
+          ) : classroomPage.items.length === 0 && !classroomPage.loading ? (
+            <p className="col-span-full text-center py-8 text-gray-600">No classrooms match your search.</p>
           ) : (
-            classrooms.map((classroom) => (
+            classroomPage.items.map((classroom) => (
               <div key={classroom.id} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200 hover:shadow-md transition-shadow">
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center space-x-3">
@@ -554,24 +700,30 @@ const InfrastructureManagement = () => {
                       <p className="text-sm text-gray-600">Floor {classroom.floor}</p>
                     </div>
                   </div>
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => handleEdit(classroom)}
-                      className="text-blue-600 hover:text-blue-900 p-1 rounded"
-                      disabled={submitting}
-                      title="Edit classroom"
-                    >
-                      <Edit2 className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(classroom.id!)}
-                      className="text-red-600 hover:text-red-900 p-1 rounded"
-                      disabled={submitting}
-                      title="Delete classroom"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
+                  {classroom.department !== departmentId ? (
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">
+                      Shared by {ownerCode(classroom.department)}
+                    </span>
+                  ) : isAdmin && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(classroom)}
+                        className="text-blue-600 hover:text-blue-900 p-1 rounded"
+                        disabled={submitting}
+                        title="Edit classroom"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(classroom.id!)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded"
+                        disabled={submitting}
+                        title="Delete classroom"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-3">
@@ -591,11 +743,8 @@ const InfrastructureManagement = () => {
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-600">Assigned Year:</span>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${classroom.assignedYear === 'SE' ? 'bg-green-100 text-green-800' :
-                      classroom.assignedYear === 'TE' ? 'bg-blue-100 text-blue-800' :
-                        'bg-purple-100 text-purple-800'
-                      }`}>
-                      {classroom.assignedYear}
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${colorOf(classroom.assignedYear)}`}>
+                      {className(classroom.assignedYear, classroom.assignedDivision)}
                     </span>
                   </div>
                   <div>
@@ -627,16 +776,20 @@ const InfrastructureManagement = () => {
               <Cpu className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No Laboratories</h3>
               <p className="text-gray-600 mb-4">Get started by adding your first laboratory.</p>
-              <button
-                onClick={() => setShowAddForm(true)}
-                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Laboratory
-              </button>
+              {isAdmin && (
+                <button
+                  onClick={() => setShowAddForm(true)}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Laboratory
+                </button>
+              )}
             </div>
+          ) : labPage.items.length === 0 && !labPage.loading ? (
+            <p className="col-span-full text-center py-8 text-gray-600">No laboratories match your search.</p>
           ) : (
-            labs.map((lab) => (
+            labPage.items.map((lab) => (
               <div key={lab.id} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200 hover:shadow-md transition-shadow">
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center space-x-3">
@@ -648,24 +801,30 @@ const InfrastructureManagement = () => {
                       <p className="text-sm text-gray-600">{lab.type} - Floor {lab.floor}</p>
                     </div>
                   </div>
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => handleEdit(lab)}
-                      className="text-blue-600 hover:text-blue-900 p-1 rounded"
-                      disabled={submitting}
-                      title="Edit laboratory"
-                    >
-                      <Edit2 className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(lab.id!)}
-                      className="text-red-600 hover:text-red-900 p-1 rounded"
-                      disabled={submitting}
-                      title="Delete laboratory"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
+                  {lab.department !== departmentId ? (
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">
+                      Shared by {ownerCode(lab.department)}
+                    </span>
+                  ) : isAdmin && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(lab)}
+                        className="text-blue-600 hover:text-blue-900 p-1 rounded"
+                        disabled={submitting}
+                        title="Edit laboratory"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(lab.id!)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded"
+                        disabled={submitting}
+                        title="Delete laboratory"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-3">
@@ -748,6 +907,14 @@ const InfrastructureManagement = () => {
         </div>
       )}
 
+      <Pagination
+        page={activePage.page}
+        pageCount={activePage.pageCount}
+        pageSize={activePage.pageSize}
+        total={activePage.total}
+        onPageChange={activePage.setPage}
+      />
+
       {/* Summary Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl shadow-sm p-6 text-white">
@@ -802,7 +969,7 @@ const InfrastructureManagement = () => {
               <div>
                 <h4 className="text-sm font-medium text-gray-700 mb-2">Classroom Distribution</h4>
                 <div className="space-y-2">
-                  {['SE', 'TE', 'BE'].map((year) => {
+                  {years.map(({ code: year }) => {
                     const count = classrooms.filter(c => c.assignedYear === year).length;
                     return (
                       <div key={year} className="flex justify-between items-center">
@@ -854,6 +1021,19 @@ const InfrastructureManagement = () => {
           </div>
         </div>
       )}
+
+      {pendingDelete && (
+        <DeleteDependentsDialog
+          itemName={pendingDelete.name}
+          dependents={pendingDelete.dependents}
+          reassignTargets={(pendingDelete.kind === 'classrooms' ? classrooms : labs)
+            .filter(room => room.id !== pendingDelete.id)
+            .map(room => ({ id: room.id, label: room.name }))}
+          reassignLabel={`Move its slots to another ${pendingDelete.kind === 'classrooms' ? 'classroom' : 'lab'}`}
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
     </div>
   );
 };
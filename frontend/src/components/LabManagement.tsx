@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Edit2, Trash2, Cpu, Users, Wrench, AlertCircle, Clock, Book } from 'lucide-react';
 import { useTimetableData } from '../hooks/useTimetableData';
 import { Lab, Subject } from '../types/timetable';
+import { useBellSchedule } from '../hooks/useBellSchedule';
+import { scheduleRows } from '@timetable/shared';
 import { LoadingSpinner } from './LoadingSpinner';
 
 const LabManagement = () => {
@@ -15,6 +17,7 @@ const LabManagement = () => {
     deleteLab,
     clearError 
   } = useTimetableData();
+  const { schedule } = useBellSchedule();
 
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingLab, setEditingLab] = useState<Lab | null>(null);
@@ -108,7 +111,8 @@ const LabManagement = () => {
   
   // --- Static Data for Form ---
   const availableEquipment = ['30 PCs', 'Projector', 'AC', 'Server', 'Network Equipment', 'Switches', 'Routers', 'High-end PCs', 'GPU Servers', 'Development Tools', 'Collaboration Tools', 'Whiteboard', 'Smart Board', 'Audio System'];
-  const timeSlots = ['8:00-9:00', '9:00-10:00', '10:15-11:15', '11:15-12:15', '1:15-3:15', '3:15-5:15'];
+  // Teaching rows of the bell schedule; breaks and lunch aren't bookable
+  const timeSlots = scheduleRows(schedule).filter(row => row.kind === 'lecture').map(row => row.time);
   const labTypes = ['Computer Lab', 'Specialized Lab', 'Research Lab', 'Development Lab', 'General Lab', 'Hardware Lab'];
 
   if (loading) {
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Search, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface ListSearchBarProps {
+  search: string;
+  onSearchChange: (value: string) => void;
+  placeholder: string;
+  sort: string;
+  onSortChange: (value: string) => void;
+  sortOptions: { value: string; label: string }[]; // value as sent in ?sort=, e.g. "-capacity"
+}
+
+// Search box and sort order for a paged list; both are applied by the backend
+export const ListSearchBar: React.FC<ListSearchBarProps> = ({
+  search,
+  onSearchChange,
+  placeholder,
+  sort,
+  onSortChange,
+  sortOptions
+}) => (
+  <div className="flex flex-col sm:flex-row gap-3">
+    <div className="relative flex-1">
+      <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => onSearchChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </div>
+    <select
+      value={sort}
+      onChange={(e) => onSortChange(e.target.value)}
+      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    >
+      {sortOptions.map((option) => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  </div>
+);
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+export const Pagination: React.FC<PaginationProps> = ({ page, pageCount, pageSize, total, onPageChange }) => {
+  if (total === 0) return null;
+  const first = (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-600">
+      <span>
+        Showing {first}–{last} of {total}
+      </span>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="p-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span>
+          Page {page} of {pageCount}
+        </span>
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          className="p-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
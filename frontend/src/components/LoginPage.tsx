@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Calendar, LogIn } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface LoginPageProps {
+  onLogin: (email: string, password: string) => Promise<unknown>;
+}
+
+const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onLogin(email, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log in');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-white rounded-xl shadow-sm p-8 border border-gray-200">
+        <div className="flex items-center space-x-3 mb-6">
+          <Calendar className="h-8 w-8 text-blue-600" />
+          <h1 className="text-xl font-semibold text-gray-900">Department Timetable Manager</h1>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              autoComplete="username"
+              required
+              disabled={submitting}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              autoComplete="current-password"
+              required
+              disabled={submitting}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? <LoadingSpinner size="sm" text="" /> : <LogIn className="h-4 w-4" />}
+            <span>{submitting ? 'Logging in...' : 'Log in'}</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
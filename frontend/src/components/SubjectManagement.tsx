@@ -1,8 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Plus, Edit2, Trash2, BookOpen, Clock, Users, AlertCircle } from 'lucide-react';
 import { useTimetableData } from '../hooks/useTimetableData';
-import { Subject } from '../types/timetable';
+import { usePagedList } from '../hooks/usePagedList';
+import { useIsAdmin } from '../hooks/useAuth';
+import { useAcademicYears } from '../hooks/useAcademicYears';
+import { Subject, ScheduledHour, DeleteDependents, DeleteOptions } from '../types/timetable';
+import { fieldErrorsOf, scheduledHoursService, subjectsService } from '../services/api';
 import { LoadingSpinner } from './LoadingSpinner';
+import { DeleteDependentsDialog } from './DeleteDependentsDialog';
+import { FormFieldError } from './FormFieldError';
+import { ListSearchBar, Pagination } from './ListControls';
+
+const SORT_OPTIONS = [
+  { value: 'code', label: 'Code' },
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: 'year,semester,code', label: 'Year and semester' },
+  { value: 'type,code', label: 'Type' },
+];
 
 const SubjectManagement = () => {
   const { 
@@ -15,30 +29,46 @@ const SubjectManagement = () => {
     deleteSubject,
     clearError 
   } = useTimetableData();
+  // The full list above feeds the reassign choices; the cards show one page of it
+  const subjectPage = usePagedList(subjectsService, { initialSort: 'code' });
+  const isAdmin = useIsAdmin(); // others see the records read-only
+  const { years, labelOf } = useAcademicYears();
 
+  const [scheduledHours, setScheduledHours] = useState<ScheduledHour[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingSubject, setEditingSubject] = useState<Subject | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [pendingDelete, setPendingDelete] = useState<{ subject: Subject; dependents: DeleteDependents } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     code: '',
-    year: 'SE' as 'SE' | 'TE' | 'BE',
+    year: '',
     theoryHours: 3,
     labHours: 2,
     faculty: '',
     semester: 1,
   });
 
+  // Track scheduled vs. required hours per batch for every subject
+  useEffect(() => scheduledHoursService.onSnapshot(setScheduledHours), []);
+
+  const getAllocationClass = (status: ScheduledHour['status']) =>
+    status === 'complete' ? 'bg-green-100 text-green-800' :
+    status === 'over' ? 'bg-orange-100 text-orange-800' :
+    'bg-red-100 text-red-800';
+
   const resetForm = () => {
     setFormData({
       name: '',
       code: '',
-      year: 'SE',
+      year: '',
       theoryHours: 3,
       labHours: 2,
       faculty: '',
       semester: 1,
     });
+    setServerErrors({});
     setEditingSubject(null);
     setShowAddForm(false);
   };
@@ -56,6 +86,8 @@ const SubjectManagement = () => {
       resetForm();
     } catch (err) {
       console.error('Error saving subject:', err);
+      // The hook shows the message; field problems go next to their inputs
+      setServerErrors(fieldErrorsOf(err));
     } finally {
       setSubmitting(false);
     }
@@ -76,20 +108,30 @@ const SubjectManagement = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this subject?')) {
-      try {
+    try {
+      // Scheduled subjects need a cascade or reassign decision
+      const dependents = await subjectsService.getDependents(id);
+      const subject = subjects.find(s => s.id === id);
+      if (dependents.total > 0 && subject) {
+        setPendingDelete({ subject, dependents });
+        return;
+      }
+      if (window.confirm('Are you sure you want to delete this subject?')) {
         await deleteSubject(id);
-      } catch (err) {
-        console.error('Error deleting subject:', err);
       }
+    } catch (err) {
+      console.error('Error deleting subject:', err);
     }
   };
 
-  const yearOptions = [
-    { value: 'SE', label: 'Second Year (SE)' },
-    { value: 'TE', label: 'Third Year (TE)' },
-    { value: 'BE', label: 'Final Year (BE)' },
-  ];
+  const handleConfirmDelete = async (options: DeleteOptions) => {
+    if (!pendingDelete) return;
+    // The dialog reports failures, and offers to override clashes from reassigning
+    await deleteSubject(pendingDelete.subject.id, options);
+    setPendingDelete(null);
+  };
+
+  const yearOptions = years.map((year) => ({ value: year.code, label: labelOf(year.code) }));
 
   if (loading) {
     return <LoadingSpinner text="Loading subjects..." />;
@@ -121,13 +163,15 @@ const SubjectManagement = () => {
             Manage subjects, theory hours, and lab requirements for each year
           </p>
         </div>
-        <button
-          onClick={() => setShowAddForm(true)}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Subject</span>
-        </button>
+        {isAdmin && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Subject</span>
+          </button>
+        )}
       </div>
 
       {/* Add/Edit Form */}
@@ -149,6 +193,7 @@ const SubjectManagement = () => {
                 required
                 disabled={submitting}
               />
+              <FormFieldError message={serverErrors.name} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -163,6 +208,7 @@ const SubjectManagement = () => {
                 disabled={submitting}
                 placeholder="e.g., DBMS, SE, ML"
               />
+              <FormFieldError message={serverErrors.code} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -170,17 +216,19 @@ const SubjectManagement = () => {
               </label>
               <select
                 value={formData.year}
-                onChange={(e) => setFormData({ ...formData, year: e.target.value as 'SE' | 'TE' | 'BE' })}
+                onChange={(e) => setFormData({ ...formData, year: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 required
                 disabled={submitting}
               >
+                <option value="" disabled>Select year</option>
                 {yearOptions.map((option) => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
                 ))}
               </select>
+              <FormFieldError message={serverErrors.year} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -196,6 +244,7 @@ const SubjectManagement = () => {
                 required
                 disabled={submitting}
               />
+              <FormFieldError message={serverErrors.semester} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -211,6 +260,7 @@ const SubjectManagement = () => {
                 required
                 disabled={submitting}
               />
+              <FormFieldError message={serverErrors.theoryHours} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -226,6 +276,7 @@ const SubjectManagement = () => {
                 required
                 disabled={submitting}
               />
+              <FormFieldError message={serverErrors.labHours} />
             </div>
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -241,10 +292,11 @@ const SubjectManagement = () => {
                 <option value="">Select Faculty</option>
                 {faculty.map((facultyMember) => (
                   <option key={facultyMember.id} value={facultyMember.id}>
-                    {facultyMember.name} - {facultyMember.department}
+                    {facultyMember.name}
                   </option>
                 ))}
               </select>
+              <FormFieldError message={serverErrors.faculty} />
             </div>
             <div className="md:col-span-2 flex space-x-3">
               <button
@@ -273,6 +325,21 @@ const SubjectManagement = () => {
         </div>
       )}
 
+      {subjects.length > 0 && (
+        <ListSearchBar
+          search={subjectPage.search}
+          onSearchChange={subjectPage.setSearch}
+          placeholder="Search by name, code, year or type"
+          sort={subjectPage.sort}
+          onSortChange={subjectPage.setSort}
+          sortOptions={SORT_OPTIONS}
+        />
+      )}
+
+      {subjectPage.error && (
+        <p className="text-sm text-red-600">{subjectPage.error}</p>
+      )}
+
       {/* Subjects List */}
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
         {subjects.length === 0 ? (
@@ -280,16 +347,20 @@ const SubjectManagement = () => {
             <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Subjects</h3>
             <p className="text-gray-600 mb-4">Get started by adding your first subject.</p>
-            <button
-              onClick={() => setShowAddForm(true)}
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Subject
-            </button>
+            {isAdmin && (
+              <button
+                onClick={() => setShowAddForm(true)}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Subject
+              </button>
+            )}
           </div>
+        ) : subjectPage.items.length === 0 && !subjectPage.loading ? (
+          <p className="col-span-full text-center py-8 text-gray-600">No subjects match your search.</p>
         ) : (
-          subjects.map((subject) => (
+          subjectPage.items.map((subject) => (
             <div key={subject.id} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
               <div className="flex justify-between items-start mb-4">
                 <div className="flex items-center space-x-3">
@@ -301,22 +372,24 @@ const SubjectManagement = () => {
                     <p className="text-sm text-gray-600">{subject.code} - {subject.year}</p>
                   </div>
                 </div>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => handleEdit(subject)}
-                    className="text-blue-600 hover:text-blue-900 p-1 rounded"
-                    disabled={submitting}
-                  >
-                    <Edit2 className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(subject.id!)}
-                    className="text-red-600 hover:text-red-900 p-1 rounded"
-                    disabled={submitting}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
-                </div>
+                {isAdmin && (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(subject)}
+                      className="text-blue-600 hover:text-blue-900 p-1 rounded"
+                      disabled={submitting}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(subject.id!)}
+                      className="text-red-600 hover:text-red-900 p-1 rounded"
+                      disabled={submitting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-3">
@@ -346,11 +419,54 @@ const SubjectManagement = () => {
                     <span className="font-medium">{subject.labHours}h</span>
                   </div>
                 </div>
+                {scheduledHours.some(h => h.subjectId === subject.id) && (
+                  <div className="pt-2">
+                    <span className="text-sm text-gray-600">Scheduled per batch:</span>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {scheduledHours
+                        .filter(h => h.subjectId === subject.id)
+                        .map(h => (
+                          <span
+                            key={h.id}
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${getAllocationClass(h.status)}`}
+                            title={`${h.remainingHours >= 0 ? h.remainingHours : 0}h remaining`}
+                          >
+                            {h.division && `${h.division} `}{h.batch}: {h.scheduledHours}/{h.requiredHours}h
+                          </span>
+                        ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           ))
         )}
       </div>
+
+      <Pagination
+        page={subjectPage.page}
+        pageCount={subjectPage.pageCount}
+        pageSize={subjectPage.pageSize}
+        total={subjectPage.total}
+        onPageChange={subjectPage.setPage}
+      />
+
+      {pendingDelete && (
+        <DeleteDependentsDialog
+          itemName={`${pendingDelete.subject.code} ${pendingDelete.subject.name}`}
+          dependents={pendingDelete.dependents}
+          reassignTargets={subjects
+            .filter(s =>
+              s.id !== pendingDelete.subject.id &&
+              s.year === pendingDelete.subject.year &&
+              s.semester === pendingDelete.subject.semester
+            )
+            .map(s => ({ id: s.id, label: `${s.code} ${s.name}` }))}
+          reassignLabel="Move its slots to another subject of the same semester"
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,19 +1,22 @@
-import { useState, useEffect } from 'react';
-import { Clock, CheckCircle, AlertCircle, Calendar, BookOpen, Users, Settings, Play } from 'lucide-react';
-import { TimetableService } from '../services/api';
-import { Subject, Faculty, Classroom, Lab, TimetableSlot, Conflict, TimetableConstraints } from '../types/timetable'; // Import TimetableConstraints
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Clock, CheckCircle, AlertCircle, Calendar, BookOpen, Users, Settings, Play, History, XCircle } from 'lucide-react';
+import { timetableVersionsService, SlotConflictError, SlotWriteError, TimetableGenerationService } from '../services/api';
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, Conflict, TimetableConstraints, TimetableVersion, GenerationJob, GenerationJobResult, AcademicYearConfig, YearSession } from '../types/timetable'; // Import TimetableConstraints
 import { useTimetableData } from '../hooks/useTimetableData';
+import { className, useAcademicYears } from '../hooks/useAcademicYears';
+import { useBellSchedule } from '../hooks/useBellSchedule';
+import { shiftStart, workingDayCount, workingDaysOf } from '@timetable/shared';
 import { LoadingSpinner } from './LoadingSpinner';
-import { AITimetableGenerator } from '../utils/aiTimetableGenerator';
 
 interface GenerationConfig {
   semester: number;
-  year: 'SE' | 'TE' | 'BE';
+  year: string;
+  division: string; // '' for years without divisions
   prioritizeLabAfternoon: boolean;
   allowBackToBackTheory: boolean;
   maxConsecutiveHours: number;
   breakDuration: number;
-  preferredStartTime: string;
+  shift: YearSession; // the bell-schedule shift the run is placed in
 }
 
 interface ConflictItem {
@@ -22,6 +25,30 @@ interface ConflictItem {
   severity: 'low' | 'medium' | 'high';
 }
 
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Asks whether to override clashes the backend found with other live timetables
+const confirmOverride = (error: SlotConflictError): boolean => {
+  const listed = error.conflicts.slice(0, 10).map(conflict => `- ${conflict.message}`);
+  const more = error.conflicts.length > listed.length ? [`...and ${error.conflicts.length - listed.length} more`] : [];
+  return window.confirm(
+    [`${error.conflicts.length} conflict(s) with the live timetable:`, ...listed, ...more, '', 'Save anyway?'].join('\n')
+  );
+};
+
+// Helper function to get faculty name from subject
+const getFacultyName = (subject: { faculty: string | { name: string } }) => {
+  return typeof subject.faculty === 'object' ? subject.faculty.name : subject.faculty;
+};
+
+// Picking a year selects its first division; its session picks the shift, which the
+// form can still override for the run
+const yearSettings = (year: AcademicYearConfig) => ({
+  year: year.code,
+  division: year.divisions[0] ?? '',
+  shift: year.session
+});
+
 const TimetableGeneration = () => {
   const {
     subjects,
@@ -34,6 +61,8 @@ const TimetableGeneration = () => {
     setTimetableSlots,
     clearError
   } = useTimetableData();
+  const { years, yearOf, divisionsOf, labelOf } = useAcademicYears();
+  const { schedule } = useBellSchedule();
 
   const [isGenerating, setIsGenerating] = useState(false);
   const [lastGenerated, setLastGenerated] = useState<Date | null>(null);
@@ -45,15 +74,65 @@ const TimetableGeneration = () => {
 
   const [config, setConfig] = useState<GenerationConfig>({
     semester: 3,
-    year: 'SE',
+    year: '',
+    division: '',
     prioritizeLabAfternoon: true,
     allowBackToBackTheory: false,
     maxConsecutiveHours: 3,
     breakDuration: 15,
-    preferredStartTime: '8:10',
+    shift: 'Morning',
   });
 
   const [conflicts, setConflicts] = useState<ConflictItem[]>([]);
+  const [versions, setVersions] = useState<TimetableVersion[]>([]);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const followedJobIds = useRef(new Set<string>()); // jobs this page is already polling
+
+  const selectYear = (code: string) => {
+    const year = yearOf(code);
+    if (year) setConfig(current => ({ ...current, ...yearSettings(year) }));
+  };
+
+  // Starts on the first configured year, or a valid one after the years change
+  useEffect(() => {
+    const first = years[0];
+    if (!first) return;
+    setConfig(current => years.some(year => year.code === current.year)
+      ? current
+      : { ...current, ...yearSettings(first) });
+  }, [years]);
+
+  const loadVersions = useCallback(async (year: string, semester: number, division: string) => {
+    if (!year) return;
+    try {
+      setVersions(await timetableVersionsService.getByYearAndSemester(year, semester, division || undefined));
+    } catch (error) {
+      console.error('Error loading timetable versions:', error);
+    }
+  }, []);
+
+  // Roll the live timetable back (or forward) to a saved version
+  const handleActivateVersion = async (version: TimetableVersion) => {
+    if (!window.confirm(`Replace the live ${className(version.year, version.division)} Semester ${version.semester} timetable with "${version.name}"?`)) {
+      return;
+    }
+    setActivatingId(version.id);
+    try {
+      try {
+        await timetableVersionsService.activate(version.id);
+      } catch (error) {
+        if (!(error instanceof SlotConflictError) || !confirmOverride(error)) throw error;
+        await timetableVersionsService.activate(version.id, true);
+      }
+      await loadVersions(version.year, version.semester, version.division ?? '');
+    } catch (error) {
+      console.error('Error activating timetable version:', error);
+      alert(error instanceof Error ? error.message : 'Failed to activate version');
+    } finally {
+      setActivatingId(null);
+    }
+  };
 
   // Calculate statistics from real data
   const [stats, setStats] = useState({
@@ -65,33 +144,15 @@ const TimetableGeneration = () => {
     yearClassrooms: 0,
   });
 
-  useEffect(() => {
-    // Update stats when data changes
-    const semesterSubjects = subjects.filter(s => s.semester === config.semester && s.year === config.year);
-    const yearClassrooms = classrooms.filter(c => c.assignedYear === config.year);
-
-    setStats({
-      totalSubjects: subjects.length,
-      totalFaculty: faculty.length,
-      totalClassrooms: classrooms.length,
-      totalLabs: labs.length,
-      semesterSubjects: semesterSubjects.length,
-      yearClassrooms: yearClassrooms.length,
-    });
-
-    // Check for potential conflicts
-    validateConfiguration();
-  }, [subjects, faculty, classrooms, labs, config]);
-
-  // Helper function to get faculty name from subject
-  const getFacultyName = (subject: { faculty: string | { name: string } }) => {
-    return typeof subject.faculty === 'object' ? subject.faculty.name : subject.faculty;
-  };
+  // Classrooms of the year, other than those kept for another of its divisions
+  const isClassroomFor = useCallback((classroom: Classroom) =>
+    classroom.assignedYear === config.year && (!classroom.assignedDivision || classroom.assignedDivision === config.division),
+  [config.year, config.division]);
 
-  const validateConfiguration = () => {
+  const validateConfiguration = useCallback(() => {
     const newConflicts: ConflictItem[] = [];
     const semesterSubjects = subjects.filter(s => s.semester === config.semester && s.year === config.year);
-    const yearClassrooms = classrooms.filter(c => c.assignedYear === config.year);
+    const yearClassrooms = classrooms.filter(isClassroomFor);
     const availableFaculty = faculty.filter(f =>
       semesterSubjects.some(s => f.subjects.includes(s.code) || f.name === getFacultyName(s))
     );
@@ -109,7 +170,7 @@ const TimetableGeneration = () => {
     if (yearClassrooms.length === 0) {
       newConflicts.push({
         type: 'error',
-        message: `No classrooms assigned to ${config.year}`,
+        message: `No classrooms assigned to ${className(config.year, config.division)}`,
         severity: 'high'
       });
     }
@@ -141,7 +202,7 @@ const TimetableGeneration = () => {
     availableFaculty.forEach(f => {
       const assignedSubjects = semesterSubjects.filter(s => getFacultyName(s) === f.name);
       const totalHours = assignedSubjects.reduce((sum, s) => sum + s.theoryHours + s.labHours, 0);
-      const maxWeeklyHours = f.maxHoursPerDay * 6; // Use 6 days to match generator
+      const maxWeeklyHours = f.maxHoursPerDay * workingDayCount(workingDaysOf(schedule, years.find(year => year.code === config.year))); // the year's days in an average week
 
       if (totalHours > maxWeeklyHours) {
         newConflicts.push({
@@ -164,113 +225,87 @@ const TimetableGeneration = () => {
     }
 
     setConflicts(newConflicts);
-  };
+  }, [subjects, faculty, classrooms, labs, config.semester, config.year, config.division, schedule, years, isClassroomFor]);
 
-  const simulateGeneration = async () => {
-    const steps = [
-      { step: 'Initializing AI constraint analyzer...', progress: 10 },
-      { step: 'Analyzing constraints with Gemini AI...', progress: 25 },
-      { step: 'Loading subjects and faculty data...', progress: 40 },
-      { step: 'Generating AI-powered slot recommendations...', progress: 55 },
-      { step: 'Allocating theory sessions with AI insights...', progress: 70 },
-      { step: 'Scheduling laboratory sessions intelligently...', progress: 80 },
-      { step: 'Optimizing faculty schedules using AI...', progress: 90 },
-      { step: 'Validating final timetable...', progress: 95 },
-      { step: 'Saving to database...', progress: 98 },
-      { step: 'AI-powered generation complete!', progress: 100 },
-    ];
-
-    for (const { step, progress } of steps) {
-      setCurrentStep(step);
-      setGenerationProgress(progress);
-      await new Promise(resolve => setTimeout(resolve, 300)); // Sped up simulation
-    }
-  };
+  useEffect(() => {
+    // Update stats when data changes
+    const semesterSubjects = subjects.filter(s => s.semester === config.semester && s.year === config.year);
+    const yearClassrooms = classrooms.filter(isClassroomFor);
 
-  const handleGenerate = async () => {
-    // Check for critical errors
-    const criticalErrors = conflicts.filter(c => c.type === 'error');
-    if (criticalErrors.length > 0) {
-      alert('Cannot generate timetable due to configuration errors. Please fix them first.');
-      return;
+    setStats({
+      totalSubjects: subjects.length,
+      totalFaculty: faculty.length,
+      totalClassrooms: classrooms.length,
+      totalLabs: labs.length,
+      semesterSubjects: semesterSubjects.length,
+      yearClassrooms: yearClassrooms.length,
+    });
+
+    // Check for potential conflicts
+    validateConfiguration();
+  }, [subjects, faculty, classrooms, labs, config.semester, config.year, isClassroomFor, validateConfiguration]);
+
+  // Polls a backend generation job until it finishes. Resolves with null if it was cancelled.
+  const waitForJob = useCallback(async (jobId: string): Promise<{ job: GenerationJob; result: GenerationJobResult } | null> => {
+    for (;;) {
+      const job = await TimetableGenerationService.getJob(jobId);
+      setCurrentStep(job.step);
+      setGenerationProgress(job.progress);
+      if (job.status === 'completed') return { job, result: await TimetableGenerationService.getResult(jobId) };
+      if (job.status === 'cancelled') return null;
+      if (job.status === 'failed') throw new Error(job.error ?? 'Generation failed');
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
     }
+  }, []);
 
+  // Follows a generation job on the server, which saves what it produced as a new version
+  const runGeneration = useCallback(async (startJob: () => Promise<GenerationJob>) => {
     setIsGenerating(true);
     setGenerationStatus('running');
     setGenerationProgress(0);
+    setCurrentStep('Starting generation...');
     setAiAnalysisResult(null); // Clear previous results
     setGenerationStats(null); // Clear previous stats
 
+    let jobId: string | undefined;
     try {
-      // Clear existing timetable slots from database for this year and semester
-      setCurrentStep('Clearing existing timetable data...');
-      setGenerationProgress(10);
-      // NOTE: Clearing *all* slots might be too destructive.
-      // You might want to implement TimetableService.clearSlotsByYearAndSemester(config.year, config.semester)
-      await TimetableService.clearAllSlots();
-
-      // Simulate generation process UI steps
-      await simulateGeneration();
-
-      // Filter data for selected semester and year from Firebase data
-      setCurrentStep('Loading configuration data...');
-
-      if (subjects.length === 0) {
-        throw new Error(`No subjects found in the database.`);
-      }
-
-      if (classrooms.length === 0) {
-        throw new Error(`No classrooms found in the database.`);
+      const job = await startJob();
+      jobId = job.id;
+      followedJobIds.current.add(job.id);
+      setActiveJobId(job.id);
+      const finished = await waitForJob(job.id);
+      if (!finished) {
+        setGenerationStatus('idle');
+        setCurrentStep('Generation cancelled');
+        return;
       }
-
-      setCurrentStep('Generating timetable with AI-powered constraints...');
-      setGenerationProgress(60);
-
-      // **FIX 1: Create the correct TimetableConstraints object**
-      // Determine batch type based on user's preferred start time
-      const selectedBatchType = config.preferredStartTime === '8:10' ? 'Morning' : 'Afternoon';
-      
-      const constraints: TimetableConstraints = {
-        maxHoursPerDay: 6,
-        minBreakBetweenClasses: config.breakDuration,
-        maxConsecutiveHours: config.maxConsecutiveHours,
-        prioritizeLabAfternoon: config.prioritizeLabAfternoon,
-        allowBackToBackTheory: config.allowBackToBackTheory,
-        facultyRestSlots: 1,
-        // **USER-SELECTED:** Use the user's preferred start time to determine batch type
-        yearBatchType: {
-          SE: selectedBatchType,
-          TE: selectedBatchType,
-          BE: selectedBatchType
-        }
-      };
-
-      // Generate timetable using the AI-powered TimetableGenerator
-      // Pass *all* data; the generator will filter internally based on the targetYear
-      const generator = new AITimetableGenerator(
-        subjects,
-        faculty,
-        classrooms,
-        labs,
-        constraints
-      );
-
-      // Generate for the selected year and semester
-      const result = await generator.generateTimetable(config.year, config.semester);
-
-      setCurrentStep('Saving timetable to database...');
-      setGenerationProgress(90);
+      const { result } = finished;
 
       // Add semester field to each generated slot
       const slotsWithSemester = result.slots.map(slot => ({
         ...slot,
-        semester: config.semester // Ensure semester is attached
+        semester: job.semester // Ensure semester is attached
       }));
 
-      // Save generated slots to Firebase using batch operation
-      if (slotsWithSemester.length > 0) {
-        await TimetableService.batchSaveTimetableSlots(slotsWithSemester);
+      // The server saved the run as a new version, and made it live unless it clashes with
+      // other years' timetables; activating it replaces only this class and semester
+      const savedVersion = finished.job.version!;
+      let isLive = savedVersion.isActive;
+      if (!isLive) {
+        try {
+          await timetableVersionsService.activate(savedVersion.id);
+          isLive = true;
+        } catch (error) {
+          if (!(error instanceof SlotConflictError)) throw error;
+          if (confirmOverride(error)) {
+            await timetableVersionsService.activate(savedVersion.id, true);
+            isLive = true;
+          }
+        }
+      }
+      await loadVersions(job.year, job.semester, job.division ?? '');
 
+      if (slotsWithSemester.length > 0) {
         // Update local state with generated slots (including semester)
         // We must *replace* the existing slots from the hook
         setTimetableSlots(slotsWithSemester);
@@ -295,7 +330,12 @@ const TimetableGeneration = () => {
       const updatedConflicts: ConflictItem[] = [ // Ensure type is ConflictItem[]
         {
           type: 'success' as const,
-          message: `Successfully generated AI-optimized timetable for ${config.year} Semester ${config.semester}`,
+          message: `Successfully generated AI-optimized timetable for ${className(job.year, job.division)} Semester ${job.semester}`,
+          severity: 'low' as const,
+        },
+        {
+          type: 'info' as const,
+          message: `Saved as "${savedVersion.name}"${isLive ? ' and set as the active version' : ', not made live as it clashes with other timetables'}`,
           severity: 'low' as const,
         },
         {
@@ -321,17 +361,80 @@ const TimetableGeneration = () => {
     } catch (error) {
       console.error('Error generating timetable:', error);
       setGenerationStatus('error');
+      // A rejected save lists each invalid slot; nothing was saved
+      const slotProblems: ConflictItem[] = error instanceof SlotWriteError
+        ? error.problems.map(problem => ({ type: 'error', message: `Slot ${problem.index}: ${problem.message}`, severity: 'high' }))
+        : [];
       setConflicts([
         {
           type: 'error',
           message: `Failed to generate timetable: ${error instanceof Error ? error.message : 'Unknown error'}`,
           severity: 'high',
         },
+        ...slotProblems,
       ]);
     } finally {
+      if (jobId) followedJobIds.current.delete(jobId);
       setIsGenerating(false);
+      setActiveJobId(null);
       // Don't reset progress and step immediately, let success/error show
     }
+  }, [loadVersions, waitForJob, setTimetableSlots]);
+
+  // Picks up a run still going on the server, e.g. after the page was reloaded
+  const resumeRunningJob = useCallback(async (year: string, semester: number, division: string) => {
+    if (!year) return;
+    try {
+      const jobs = await TimetableGenerationService.getJobs(year, semester, division || undefined);
+      const running = jobs.find(job => (job.status === 'queued' || job.status === 'running') && (job.division ?? '') === division);
+      if (running && !followedJobIds.current.has(running.id)) await runGeneration(async () => running);
+    } catch (error) {
+      console.error('Error loading generation jobs:', error);
+    }
+  }, [runGeneration]);
+
+  useEffect(() => {
+    loadVersions(config.year, config.semester, config.division);
+    resumeRunningJob(config.year, config.semester, config.division);
+  }, [config.year, config.division, config.semester, loadVersions, resumeRunningJob]);
+
+  const handleGenerate = async () => {
+    // Check for critical errors
+    const criticalErrors = conflicts.filter(c => c.type === 'error');
+    if (criticalErrors.length > 0) {
+      alert('Cannot generate timetable due to configuration errors. Please fix them first.');
+      return;
+    }
+
+    // **FIX 1: Create the correct TimetableConstraints object**
+    const constraints: TimetableConstraints = {
+      maxHoursPerDay: 6,
+      minBreakBetweenClasses: config.breakDuration,
+      maxConsecutiveHours: config.maxConsecutiveHours,
+      prioritizeLabAfternoon: config.prioritizeLabAfternoon,
+      allowBackToBackTheory: config.allowBackToBackTheory,
+      facultyRestSlots: 1,
+      // **USER-SELECTED:** The shift of the bell schedule the year is placed in
+      yearBatchType: { [config.year]: config.shift }
+    };
+
+    // The generator runs on the server, so closing the page doesn't stop it
+    await runGeneration(() => TimetableGenerationService.start({
+      year: config.year,
+      division: config.division || undefined,
+      semester: config.semester,
+      constraints
+    }));
+  };
+
+  const handleCancel = async () => {
+    if (!activeJobId) return;
+    try {
+      await TimetableGenerationService.cancel(activeJobId);
+    } catch (error) {
+      console.error('Error cancelling generation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel generation');
+    }
   };
 
   const getStatusIcon = () => {
@@ -505,6 +608,47 @@ const TimetableGeneration = () => {
         </button>
       </div>
 
+      {/* Saved Versions */}
+      <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+        <div className="flex items-center space-x-2 mb-4">
+          <History className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            Saved Versions ({className(config.year, config.division)} Semester {config.semester})
+          </h3>
+        </div>
+
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-600">No versions saved yet. Each generation run is saved here.</p>
+        ) : (
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-200">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {version.name}
+                    {version.isActive && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Active</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()} | {version.slotCount ?? 0} slots
+                  </p>
+                </div>
+                {!version.isActive && (
+                  <button
+                    onClick={() => handleActivateVersion(version)}
+                    disabled={isGenerating || activatingId !== null}
+                    className="px-3 py-1 text-sm rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                  >
+                    {activatingId === version.id ? 'Activating...' : 'Make Active'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Configuration Panel */}
       <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
         <div className="flex items-center space-x-2 mb-4">
@@ -520,16 +664,34 @@ const TimetableGeneration = () => {
               </label>
               <select
                 value={config.year}
-                onChange={(e) => setConfig({ ...config, year: e.target.value as 'SE' | 'TE' | 'BE' })}
+                onChange={(e) => selectYear(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 disabled={isGenerating}
               >
-                <option value="SE">Second Year (SE)</option>
-                <option value="TE">Third Year (TE)</option>
-                <option value="BE">Final Year (BE)</option>
+                {years.map((year) => (
+                  <option key={year.id} value={year.code}>{labelOf(year.code)}</option>
+                ))}
               </select>
             </div>
 
+            {divisionsOf(config.year).length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Division
+                </label>
+                <select
+                  value={config.division}
+                  onChange={(e) => setConfig({ ...config, division: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  disabled={isGenerating}
+                >
+                  {divisionsOf(config.year).map((division) => (
+                    <option key={division} value={division}>{className(config.year, division)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Semester
@@ -556,13 +718,14 @@ const TimetableGeneration = () => {
                 Preferred Start Time
               </label>
               <select
-                value={config.preferredStartTime}
-                onChange={(e) => setConfig({ ...config, preferredStartTime: e.target.value })}
+                value={config.shift}
+                onChange={(e) => setConfig({ ...config, shift: e.target.value as YearSession })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 disabled={isGenerating}
               >
-                <option value="8:10">8:10 AM (Morning)</option>
-                <option value="10:25">10:25 AM (Afternoon)</option>
+                {schedule.shifts.map(({ session }) => (
+                  <option key={session} value={session}>{shiftStart(schedule, session)} ({session})</option>
+                ))}
               </select>
             </div>
 
@@ -631,8 +794,8 @@ const TimetableGeneration = () => {
             <div className="bg-gray-50 p-4 rounded-lg">
               <h4 className="text-sm font-medium text-gray-700 mb-2">Current Selection:</h4>
               <p className="text-sm text-gray-600">
-                {config.year} - Semester {config.semester}<br />
-                Batch Type: {config.preferredStartTime === '8:10' ? 'Morning' : 'Afternoon'}<br />
+                {className(config.year, config.division)} - Semester {config.semester}<br />
+                Batch Type: {config.shift}<br />
                 Subjects: {stats.semesterSubjects}<br />
                 Available Rooms: {stats.yearClassrooms}
               </p>
@@ -644,7 +807,17 @@ const TimetableGeneration = () => {
       {/* Generation Progress */}
       {isGenerating && (
         <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Generation Progress</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Generation Progress</h3>
+            <button
+              onClick={handleCancel}
+              disabled={!activeJobId}
+              className="flex items-center space-x-1 px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              <XCircle className="h-4 w-4" />
+              <span>Cancel</span>
+            </button>
+          </div>
           <div className="space-y-3">
             <div className="flex justify-between text-sm">
               <span>{currentStep}</span>
@@ -1,48 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { Calendar, Filter, Download, Eye, Users, BookOpen } from 'lucide-react';
 import { useTimetableData } from '../hooks/useTimetableData';
-import { TimetableService } from '../services/api';
-import { TimetableSlot } from '../types/timetable';
+import { className, useAcademicYears } from '../hooks/useAcademicYears';
+import { useBellSchedule } from '../hooks/useBellSchedule';
+import { timetableSlotsService, timetableVersionsService } from '../services/api';
+import { TimetableSlot, TimetableVersion } from '../types/timetable';
+import { compareTimes, parseTimeRange, rangeContains, scheduleRows, workingDaysOf } from '@timetable/shared';
 import { LoadingSpinner } from './LoadingSpinner';
 
-// **FIX 1: Add time parsing helpers**
-/**
- * Parses a time string (e.g., "8:10" or "10:25") into a number (810 or 1025).
- */
-const parseTime = (timeStr: string): number => {
-  return parseInt(timeStr.replace(':', ''), 10);
-};
-
 /**
  * Checks if a slot's time is fully contained within a row's time.
- * @param slotTime (e.g., "8:10-9:10")
- * @param rowTime (e.g., "8:10-10:10")
+ * @param slotTime (e.g., "08:10-09:10")
+ * @param rowTime (e.g., "08:10-10:10")
  * @returns boolean
  */
 const isSlotInRow = (slotTime: string, rowTime: string): boolean => {
-  try {
-    const [slotStart, slotEnd] = slotTime.split('-').map(parseTime);
-    const [rowStart, rowEnd] = rowTime.split('-').map(parseTime);
-
-    // Check for containment: rowStart <= slotStart AND slotEnd <= rowEnd
-    return rowStart <= slotStart && slotEnd <= rowEnd;
-  } catch (e) {
-    console.error("Error parsing time in isSlotInRow:", slotTime, rowTime, e);
-    return false;
-  }
+  const slotRange = parseTimeRange(slotTime);
+  const rowRange = parseTimeRange(rowTime);
+  return slotRange !== null && rowRange !== null && rangeContains(rowRange, slotRange);
 };
 
 
 const TimetableView = () => {
-  // useTimetableData provides *all* timetable slots, not just generated ones
-  const { faculty, timetableSlots: allSlotsFromHook, loading: dataLoading, error: dataError } = useTimetableData();
+  const { faculty, loading: dataLoading, error: dataError } = useTimetableData();
+  const { years, yearOf, divisionsOf, batchesOf, labelOf } = useAcademicYears();
+  const { schedule } = useBellSchedule();
 
   const [viewType, setViewType] = useState<'year' | 'batch' | 'faculty'>('year');
-  const [selectedYear, setSelectedYear] = useState<'SE' | 'TE' | 'BE'>('SE');
+  const [selectedYear, setSelectedYear] = useState('');
+  const [selectedDivision, setSelectedDivision] = useState(''); // '' for years without divisions
   const [selectedSemester, setSelectedSemester] = useState(3);
-  const [selectedBatch, setSelectedBatch] = useState<'A' | 'B' | 'C'>('A');
-  const [selectedFaculty, setSelectedFaculty] = useState('');
+  const [selectedBatch, setSelectedBatch] = useState('');
+  const [selectedFaculty, setSelectedFaculty] = useState(''); // faculty id
+  const [versions, setVersions] = useState<TimetableVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState(''); // '' = live timetable
 
+  // Slots for the selected year/semester, filtered by the server
+  const [scopedSlots, setScopedSlots] = useState<TimetableSlot[]>([]);
   // This state will hold the *filtered* data for the view
   const [timetableData, setTimetableData] = useState<TimetableSlot[]>([]);
   const [loading, setLoading] = useState(false); // Local loading for filtering
@@ -51,23 +45,82 @@ const TimetableView = () => {
   // Set default faculty when faculty data loads
   useEffect(() => {
     if (faculty.length > 0 && !selectedFaculty) {
-      setSelectedFaculty(faculty[0].name);
+      setSelectedFaculty(faculty[0].id);
     }
   }, [faculty, selectedFaculty]);
 
-  // **FIX 2: Refactored data loading logic**
-  // This useEffect now filters the data from the hook instead of re-fetching
+  // The selected class's batches; the batch view keeps to one of them
+  const classBatches = batchesOf(selectedYear, selectedDivision);
+  const batchConfigured = classBatches.some(batch => batch.name === selectedBatch);
+  const firstBatch = classBatches[0]?.name ?? '';
+  useEffect(() => {
+    if (!batchConfigured) setSelectedBatch(firstBatch);
+  }, [batchConfigured, firstBatch]);
+
+  const selectYear = (code: string) => {
+    setSelectedYear(code);
+    setSelectedDivision(yearOf(code)?.divisions[0] ?? '');
+  };
+
+  // Starts on the first configured year, or a valid one after the years change
+  useEffect(() => {
+    const first = years[0];
+    if (!first || years.some(year => year.code === selectedYear)) return;
+    setSelectedYear(first.code);
+    setSelectedDivision(first.divisions[0] ?? '');
+  }, [years, selectedYear]);
+
+  // Saved versions for the selected class and semester
   useEffect(() => {
+    setSelectedVersionId('');
+    if (!selectedYear) return;
+    timetableVersionsService.getByYearAndSemester(selectedYear, selectedSemester, selectedDivision || undefined)
+      .then(setVersions)
+      .catch((err) => console.error('Error loading timetable versions:', err));
+  }, [selectedYear, selectedDivision, selectedSemester]);
+
+  // Subscribe to the selected class and semester only, instead of the whole department
+  useEffect(() => {
+    if (!selectedYear) return;
     setLoading(true);
+
+    // A past version is a fixed snapshot, so it is loaded once instead of polled
+    if (selectedVersionId) {
+      timetableVersionsService.getById(selectedVersionId)
+        .then((version) => {
+          setScopedSlots((version?.slots ?? []).map((slot, index) => ({
+            ...slot,
+            id: `${selectedVersionId}-${index}`,
+            year: selectedYear,
+            division: selectedDivision || undefined,
+            semester: selectedSemester,
+          })));
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load version'))
+        .finally(() => setLoading(false));
+      return;
+    }
+
+    const unsubscribe = timetableSlotsService.onSnapshot((data) => {
+      setScopedSlots(data);
+      setLoading(false);
+    }, {
+      year: selectedYear,
+      division: selectedDivision || undefined,
+      semester: selectedSemester,
+      type: viewType === 'year' ? 'theory' : undefined,
+      facultyId: viewType === 'faculty' ? selectedFaculty : undefined,
+    });
+    return unsubscribe;
+  }, [viewType, selectedYear, selectedDivision, selectedSemester, selectedFaculty, selectedVersionId]);
+
+  // Narrow the server results down to what the selected view shows
+  useEffect(() => {
     setError(null);
 
     try {
       let slots: TimetableSlot[] = [];
-
-      // Filter slots from the main hook based on year and semester first
-      const yearSemSlots = allSlotsFromHook.filter(
-        s => s.year === selectedYear && s.semester === selectedSemester
-      );
+      const yearSemSlots = scopedSlots;
 
       switch (viewType) {
         case 'year':
@@ -85,7 +138,7 @@ const TimetableView = () => {
         case 'faculty':
           // 'Faculty' view shows all slots for that faculty in the year/sem
           if (selectedFaculty) {
-            slots = yearSemSlots.filter(s => s.faculty === selectedFaculty);
+            slots = yearSemSlots.filter(s => s.facultyId === selectedFaculty);
           }
           break;
       }
@@ -94,23 +147,16 @@ const TimetableView = () => {
     } catch (err) {
       console.error('Error filtering timetable data:', err);
       setError(err instanceof Error ? err.message : 'Failed to filter timetable data');
-    } finally {
-      setLoading(false);
     }
-  }, [viewType, selectedYear, selectedSemester, selectedBatch, selectedFaculty, allSlotsFromHook]);
+  }, [viewType, selectedBatch, selectedFaculty, scopedSlots]);
 
-  // This is the visual structure of the table rows
-  const timeSlots = [
-    '8:10-10:10',   // Row 1 (Spans 2 theory slots)
-    '10:10-10:25',  // Break
-    '10:25-12:15',  // Row 2 (Spans 2 theory slots)
-    '12:15-1:05',   // Lunch break
-    '1:05-2:55',    // Row 3 (Spans 2 theory slots)
-    '2:55-3:05',    // Break
-    '3:05-4:55'     // Row 4 (Spans 2 theory slots)
-  ];
+  // This is the visual structure of the table rows: lab-length blocks of the bell schedule
+  // (each spanning its lectures), with its breaks and lunch in between
+  const timeSlots = scheduleRows(schedule);
 
-  const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  // The columns: the days the selected year is taught
+  const workingDays = workingDaysOf(schedule, yearOf(selectedYear));
+  const days = workingDays.days;
 
   // **FIX 3: Updated function to find all slots that fit in the row**
   const getMultipleSlotsForTimeAndDay = (rowTime: string, day: string): TimetableSlot[] => {
@@ -147,7 +193,7 @@ const TimetableView = () => {
             <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <div className="text-gray-600 mb-2">No timetable data found</div>
             <div className="text-gray-500 text-sm">
-              No data matches the current filter (Year: {selectedYear}, Sem: {selectedSemester})
+              No data matches the current filter (Year: {className(selectedYear, selectedDivision)}, Sem: {selectedSemester})
             </div>
           </div>
         </div>
@@ -166,12 +212,13 @@ const TimetableView = () => {
                 {days.map((day) => (
                   <th key={day} className="border border-gray-200 px-4 py-3 text-center text-sm font-medium text-gray-700">
                     {day}
+                    {workingDays.alternate.includes(day) && <span className="block text-xs font-normal text-gray-500">(alternate weeks)</span>}
                   </th>
                 ))}
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {timeSlots.map((time) => (
+              {timeSlots.map(({ time, kind }) => (
                 <tr key={time} className="hover:bg-gray-50">
                   <td className="border border-gray-200 px-4 py-3 text-sm font-medium text-gray-700 bg-gray-25 align-top">
                     {time}
@@ -181,15 +228,14 @@ const TimetableView = () => {
                     const slots = getMultipleSlotsForTimeAndDay(time, day);
 
                     // Sort slots to show theory first or by time
-                    slots.sort((a, b) => parseTime(a.time.split('-')[0]) - parseTime(b.time.split('-')[0]));
+                    slots.sort((a, b) => compareTimes(a.time, b.time));
 
                     return (
                       <td key={`${day}-${time}`} className="border border-gray-200 px-2 py-2 align-top h-24">
-                        {time === '10:10-10:25' || time === '12:15-1:05' || time === '2:55-3:05' ? (
+                        {kind !== 'lecture' ? (
                           <div className="p-2 rounded-lg text-xs bg-gray-100 text-gray-600 h-full flex items-center justify-center">
                             <div className="font-medium text-center">
-                              {time === '10:10-10:25' ? 'Break' :
-                                time === '12:15-1:05' ? 'Lunch' : 'Break'}
+                              {kind === 'lunch' ? 'Lunch' : 'Break'}
                             </div>
                           </div>
                         ) : slots.length > 0 ? (
@@ -266,7 +312,7 @@ const TimetableView = () => {
           <h3 className="text-lg font-semibold text-gray-900">View Options</h3>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               View Type
@@ -288,15 +334,32 @@ const TimetableView = () => {
             </label>
             <select
               value={selectedYear}
-              onChange={(e) => setSelectedYear(e.target.value as 'SE' | 'TE' | 'BE')}
+              onChange={(e) => selectYear(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="SE">Second Year (SE)</option>
-              <option value="TE">Third Year (TE)</option>
-              <option value="BE">Final Year (BE)</option>
+              {years.map((year) => (
+                <option key={year.id} value={year.code}>{labelOf(year.code)}</option>
+              ))}
             </select>
           </div>
 
+          {divisionsOf(selectedYear).length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Select Division
+              </label>
+              <select
+                value={selectedDivision}
+                onChange={(e) => setSelectedDivision(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {divisionsOf(selectedYear).map((division) => (
+                  <option key={division} value={division}>{className(selectedYear, division)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Select Semester
@@ -317,6 +380,24 @@ const TimetableView = () => {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Version
+            </label>
+            <select
+              value={selectedVersionId}
+              onChange={(e) => setSelectedVersionId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Live timetable</option>
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>
+                  {version.name}{version.isActive ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {viewType === 'batch' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -324,12 +405,15 @@ const TimetableView = () => {
               </label>
               <select
                 value={selectedBatch}
-                onChange={(e) => setSelectedBatch(e.target.value as 'A' | 'B' | 'C')}
+                onChange={(e) => setSelectedBatch(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
-                <option value="A">Batch A</option>
-                <option value="B">Batch B</option>
-                <option value="C">Batch C</option>
+                {classBatches.length === 0 && <option value="">No batches configured</option>}
+                {classBatches.map((batch) => (
+                  <option key={batch.name} value={batch.name}>
+                    Batch {batch.name} ({batch.students} students)
+                  </option>
+                ))}
               </select>
             </div>
           )}
@@ -345,7 +429,7 @@ const TimetableView = () => {
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 {faculty.map((f) => (
-                  <option key={f.id} value={f.name}>{f.name}</option>
+                  <option key={f.id} value={f.id}>{f.name}</option>
                 ))}
               </select>
             </div>
@@ -361,9 +445,9 @@ const TimetableView = () => {
           {viewType === 'faculty' && <Calendar className="h-5 w-5 text-purple-600" />}
           <div>
             <h3 className="font-semibold text-gray-900">
-              {viewType === 'year' && `${selectedYear} Semester ${selectedSemester} - Theory Classes (All Batches)`}
-              {viewType === 'batch' && `${selectedYear}-${selectedBatch} Semester ${selectedSemester} - Complete Schedule`}
-              {viewType === 'faculty' && `${selectedFaculty} - Teaching Schedule (${selectedYear} Sem ${selectedSemester})`}
+              {viewType === 'year' && `${className(selectedYear, selectedDivision)} Semester ${selectedSemester} - Theory Classes (All Batches)`}
+              {viewType === 'batch' && `${className(selectedYear, selectedDivision)} Batch ${selectedBatch} Semester ${selectedSemester} - Complete Schedule`}
+              {viewType === 'faculty' && `${faculty.find(f => f.id === selectedFaculty)?.name ?? ''} - Teaching Schedule (${className(selectedYear, selectedDivision)} Sem ${selectedSemester})`}
             </h3>
             <p className="text-sm text-gray-600">
               {viewType === 'year' && 'Shows theory lectures for the entire year from database'}
@@ -371,7 +455,7 @@ const TimetableView = () => {
               {viewType === 'faculty' && 'Shows all assigned classes and labs from database'}
             </p>
             <p className="text-xs text-blue-600 mt-1">
-              Showing {timetableData.length} scheduled slots from local state
+              Showing {timetableData.length} scheduled slots from {selectedVersionId ? 'a saved version' : 'the live timetable'}
             </p>
           </div>
         </div>
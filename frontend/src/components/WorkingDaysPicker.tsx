@@ -0,0 +1,54 @@
+import React from 'react';
+import { DAYS, dayWeight } from '@timetable/shared';
+import { Day, WorkingDays } from '../types/timetable';
+
+type Frequency = 'off' | 'weekly' | 'alternate';
+
+const frequencyOf = (workingDays: WorkingDays, day: Day): Frequency => {
+  const weight = dayWeight(workingDays, day);
+  return weight === 0 ? 'off' : weight === 1 ? 'weekly' : 'alternate';
+};
+
+// Rebuilds the working days with one day's frequency changed, keeping week order
+const withFrequency = (workingDays: WorkingDays, day: Day, frequency: Frequency): WorkingDays => {
+  const next = (candidate: Day) => candidate === day ? frequency : frequencyOf(workingDays, candidate);
+  return {
+    days: DAYS.filter(candidate => next(candidate) !== 'off'),
+    alternate: DAYS.filter(candidate => next(candidate) === 'alternate')
+  };
+};
+
+// "Monday, ..., Friday, Saturday (alternate weeks)": a summary for lists and read-only views
+export const WorkingDaysSummary: React.FC<{ workingDays: WorkingDays }> = ({ workingDays }) => (
+  <>
+    {workingDays.days.map(day => workingDays.alternate.includes(day) ? `${day} (alternate weeks)` : day).join(', ') || 'No working days'}
+  </>
+);
+
+interface WorkingDaysPickerProps {
+  value: WorkingDays;
+  onChange: (workingDays: WorkingDays) => void;
+  disabled?: boolean;
+}
+
+// Each day is off, held every week, or held on alternate weeks. A half day is a
+// "day that differs" in the bell schedule, not a setting here.
+export const WorkingDaysPicker: React.FC<WorkingDaysPickerProps> = ({ value, onChange, disabled }) => (
+  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+    {DAYS.map((day) => (
+      <label key={day} className="block">
+        <span className="block text-sm text-gray-700 mb-1">{day}</span>
+        <select
+          value={frequencyOf(value, day)}
+          onChange={(e) => onChange(withFrequency(value, day, e.target.value as Frequency))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={disabled}
+        >
+          <option value="weekly">Every week</option>
+          <option value="alternate">Alternate weeks</option>
+          <option value="off">Off</option>
+        </select>
+      </label>
+    ))}
+  </div>
+);
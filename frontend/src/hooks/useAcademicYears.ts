@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { academicYearsService } from '../services/api';
+import { AcademicYearConfig } from '../types/timetable';
+
+// Badge colours, given to years in teaching order
+const YEAR_COLORS = [
+  'bg-green-100 text-green-800',
+  'bg-blue-100 text-blue-800',
+  'bg-purple-100 text-purple-800',
+  'bg-orange-100 text-orange-800',
+  'bg-pink-100 text-pink-800',
+  'bg-teal-100 text-teal-800'
+];
+
+// "TE" or "TE-B", as classes are named across the app
+export const className = (year: string, division?: string) => division ? `${year}-${division}` : year;
+
+// The department's years in teaching order, kept live, with lookups for dropdowns
+export const useAcademicYears = () => {
+  const [years, setYears] = useState<AcademicYearConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => academicYearsService.onSnapshot((list) => {
+    setYears([...list].sort((a, b) => a.order - b.order || a.code.localeCompare(b.code)));
+    setLoading(false);
+  }), []);
+
+  const yearOf = (code: string) => years.find(year => year.code === code);
+  const divisionsOf = (code: string) => yearOf(code)?.divisions ?? [];
+  // A division's lab batches, or the whole year's when it has no divisions
+  const batchesOf = (code: string, division?: string) =>
+    (yearOf(code)?.batches ?? []).filter(batch => (batch.division || '') === (division || ''));
+  const labelOf = (code: string) => {
+    const year = yearOf(code);
+    return year ? `${year.label} (${year.code})` : code;
+  };
+
+  const colorOf = (code: string) => {
+    const index = years.findIndex(year => year.code === code);
+    return index === -1 ? 'bg-gray-100 text-gray-800' : YEAR_COLORS[index % YEAR_COLORS.length];
+  };
+
+  return { years, loading, yearOf, divisionsOf, batchesOf, labelOf, colorOf };
+};
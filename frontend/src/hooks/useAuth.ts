@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { AuthService } from '../services/api';
+import { User } from '../types/timetable';
+
+// The logged-in user, updated on login and logout anywhere in the app
+export const useCurrentUser = (): User | null => {
+  const [user, setUser] = useState(AuthService.currentUser);
+  useEffect(() => AuthService.onChange(setUser), []);
+  return user;
+};
+
+// Admins edit everything; the backend enforces the same rule
+export const useIsAdmin = (): boolean => useCurrentUser()?.role === 'admin';
+
+// For the app shell: restores the saved session once, then follows logins and logouts
+export const useAuth = () => {
+  const user = useCurrentUser();
+  const [restoring, setRestoring] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    AuthService.restore()
+      .catch((error) => console.error('Failed to restore session:', error))
+      .finally(() => {
+        if (!cancelled) setRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { user, restoring, login: AuthService.login, logout: AuthService.logout };
+};
@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_BELL_SCHEDULE } from '@timetable/shared';
+import { bellSchedulesService } from '../services/api';
+import { BellSchedule } from '../types/timetable';
+
+// The department's bell schedule, kept live. Until it loads, the default grid stands in.
+export const useBellSchedule = () => {
+  const [stored, setStored] = useState<BellSchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => bellSchedulesService.onSnapshot((list) => {
+    setStored(list[0] ?? null);
+    setLoading(false);
+  }), []);
+
+  return { schedule: stored ?? DEFAULT_BELL_SCHEDULE, stored, loading };
+};
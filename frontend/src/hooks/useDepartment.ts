@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { DepartmentService, departmentsService } from '../services/api';
+import { Department } from '../types/timetable';
+
+// The selected department's id, updated when the header switcher changes it
+export const useCurrentDepartmentId = (): string | null => {
+  const [id, setId] = useState(DepartmentService.currentId);
+  useEffect(() => DepartmentService.onChange(setId), []);
+  return id;
+};
+
+// Every department, kept live
+export const useDepartmentList = () => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => departmentsService.onSnapshot((list) => {
+    setDepartments(list);
+    setLoading(false);
+  }), []);
+
+  return { departments, loading };
+};
+
+// For the app shell: every department, and the one being worked in. A saved choice that
+// no longer exists (or none at all) falls back to the first department.
+export const useDepartments = () => {
+  const { departments, loading } = useDepartmentList();
+  const currentId = useCurrentDepartmentId();
+
+  useEffect(() => {
+    if (loading || departments.some(department => department.id === currentId)) return;
+    DepartmentService.select(departments[0]?.id ?? null);
+  }, [loading, departments, currentId]);
+
+  const current = departments.find(department => department.id === currentId) ?? null;
+  return { departments, current, loading, select: DepartmentService.select };
+};
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { ApiService, QueryParams } from '../services/api';
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+// Pages through a list endpoint with server-side search and sort, staying live like onSnapshot.
+// `filters` are extra query parameters, e.g. { action: 'delete' }; changing them goes back to page 1.
+export const usePagedList = <T extends { id?: string }>(
+  service: ApiService<T>,
+  { pageSize = DEFAULT_PAGE_SIZE, initialSort = '', filters }: { pageSize?: number; initialSort?: string; filters?: QueryParams } = {}
+) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearchText] = useState('');
+  const [query, setQuery] = useState('');
+  const [sort, setSortField] = useState(initialSort);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const filterKey = JSON.stringify(filters ?? {}); // a new object each render, so compared by value
+  const [appliedFilterKey, setAppliedFilterKey] = useState(filterKey);
+
+  if (filterKey !== appliedFilterKey) {
+    setAppliedFilterKey(filterKey);
+    setPage(1);
+  }
+
+  // Wait for a pause in typing before searching, from the first page
+  useEffect(() => {
+    const next = search.trim();
+    if (next === query) return;
+    const timer = setTimeout(() => {
+      setQuery(next);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, query]);
+
+  useEffect(() => {
+    setLoading(true);
+    return service.onPage(
+      (result) => {
+        setItems(result.items);
+        setTotal(result.total);
+        setError(null);
+        setLoading(false);
+      },
+      { ...JSON.parse(appliedFilterKey), page, limit: pageSize, sort: sort || undefined, q: query || undefined },
+      (err) => {
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+  }, [service, page, pageSize, sort, query, appliedFilterKey]);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  // Deleting the last record of the last page leaves that page empty
+  useEffect(() => {
+    if (!loading && page > pageCount) setPage(pageCount);
+  }, [loading, page, pageCount]);
+
+  return {
+    items,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    setPage,
+    search,
+    setSearch: setSearchText,
+    sort,
+    setSort: (value: string) => {
+      setSortField(value);
+      setPage(1);
+    },
+    loading,
+    error
+  };
+};
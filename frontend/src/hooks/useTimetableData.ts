@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Subject, Faculty, Classroom, Lab, TimetableSlot } from '../types/timetable';
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, DeleteOptions } from '../types/timetable';
 import {
   subjectsService,
   facultyService,
@@ -95,9 +95,9 @@ export const useTimetableData = () => {
     }
   }, []);
 
-  const deleteSubject = useCallback(async (id: string) => {
+  const deleteSubject = useCallback(async (id: string, options?: DeleteOptions) => {
     try {
-      await subjectsService.delete(id);
+      await subjectsService.delete(id, options);
     } catch (err) {
       console.error('Error deleting subject:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete subject');
@@ -126,9 +126,9 @@ export const useTimetableData = () => {
     }
   }, []);
 
-  const deleteFaculty = useCallback(async (id: string) => {
+  const deleteFaculty = useCallback(async (id: string, options?: DeleteOptions) => {
     try {
-      await facultyService.delete(id);
+      await facultyService.delete(id, options);
     } catch (err) {
       console.error('Error deleting faculty:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete faculty');
@@ -157,9 +157,9 @@ export const useTimetableData = () => {
     }
   }, []);
 
-  const deleteClassroom = useCallback(async (id: string) => {
+  const deleteClassroom = useCallback(async (id: string, options?: DeleteOptions) => {
     try {
-      await classroomsService.delete(id);
+      await classroomsService.delete(id, options);
     } catch (err) {
       console.error('Error deleting classroom:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete classroom');
@@ -188,9 +188,9 @@ export const useTimetableData = () => {
     }
   }, []);
 
-  const deleteLab = useCallback(async (id: string) => {
+  const deleteLab = useCallback(async (id: string, options?: DeleteOptions) => {
     try {
-      await laboratoriesService.delete(id);
+      await laboratoriesService.delete(id, options);
     } catch (err) {
       console.error('Error deleting lab:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete lab');
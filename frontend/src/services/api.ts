@@ -1,50 +1,284 @@
-import { Subject, Faculty, Classroom, Lab, TimetableSlot, ScheduledHour } from '../types/timetable';
+import { Subject, Faculty, Classroom, Lab, TimetableSlot, ScheduledHour, TimetableVersion, TimetableConstraints, DeleteDependents, DeleteOptions, ApiErrorBody, FieldError, ListParams, Page, SlotWriteConflict, SlotWriteProblem, GenerationJob, GenerationJobResult, User, LoginResponse, AuditEntry, Department, AcademicYearConfig, BellSchedule } from '../types/timetable';
 
 const API_BASE_URL = 'http://localhost:3001/api';
 
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+// Builds "?a=1&b=2" from the defined values, or an empty string
+const toQueryString = (params?: QueryParams): string => {
+  if (!params) return '';
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.append(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
+
+// Thrown for error responses, with the backend's message. `details` lists problems with
+// individual fields of the request body, for forms to show next to their inputs.
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public details: FieldError[] = []) {
+    super(message);
+  }
+}
+
+const throwIfFailed = async (response: Response, fallback: string): Promise<void> => {
+  if (response.ok) return;
+  const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+  throw new ApiError(body.error ?? fallback, response.status, body.details);
+};
+
+// Field name to message, from an ApiError; empty for any other error
+export const fieldErrorsOf = (error: unknown): Record<string, string> =>
+  error instanceof ApiError ? Object.fromEntries(error.details.map(({ field, message }) => [field, message])) : {};
+
+// Thrown when the backend refuses a delete because other records still reference the item
+export class DependentsError extends ApiError {
+  constructor(message: string, public dependents: DeleteDependents) {
+    super(message, 409);
+  }
+}
+
+// Thrown when the backend rejects a slot write because of clashes; retry with force to save anyway
+export class SlotConflictError extends ApiError {
+  constructor(message: string, public conflicts: SlotWriteConflict[]) {
+    super(message, 409);
+  }
+}
+
+const throwIfConflicts = async (response: Response): Promise<void> => {
+  if (response.status !== 409) return;
+  const body = await response.json();
+  if (body.conflicts) throw new SlotConflictError(body.error, body.conflicts);
+  throw new ApiError(body.error, 409, body.details);
+};
+
+// Thrown when the backend rejects a batch of slots as invalid. The write was rolled back.
+export class SlotWriteError extends ApiError {
+  constructor(message: string, public problems: SlotWriteProblem[]) {
+    super(message, 400);
+  }
+}
+
+const throwIfSlotErrors = async (response: Response): Promise<void> => {
+  if (response.status !== 400) return;
+  const body = await response.json().catch(() => ({}));
+  if (body.slotErrors) throw new SlotWriteError(body.error, body.slotErrors);
+  if (body.error) throw new ApiError(body.error, 400, body.details);
+};
+
+const TOKEN_KEY = 'timetable.authToken';
+
+// The logged-in session. The token is kept across reloads; the user is fetched again on startup.
+let authToken = localStorage.getItem(TOKEN_KEY);
+let currentUser: User | null = null;
+const sessionListeners = new Set<(user: User | null) => void>();
+
+const setSession = (token: string | null, user: User | null) => {
+  authToken = token;
+  currentUser = user;
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+  sessionListeners.forEach(notify => notify(user));
+};
+
+const DEPARTMENT_KEY = 'timetable.department';
+
+// The department being worked in. Every request is made in it (X-Department), and the
+// choice is kept across reloads.
+let departmentId = localStorage.getItem(DEPARTMENT_KEY);
+const departmentListeners = new Set<(id: string | null) => void>();
+
+// fetch with the session's token. A 401 means the session has ended (expired, or the
+// account was removed), so it's cleared and the app goes back to the login page.
+const apiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (authToken) headers.set('Authorization', `Bearer ${authToken}`);
+  if (departmentId) headers.set('X-Department', departmentId);
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 401 && authToken) setSession(null, null);
+  return response;
+};
+
+export class AuthService {
+  static get currentUser(): User | null {
+    return currentUser;
+  }
+
+  static async login(email: string, password: string): Promise<User> {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+    await throwIfFailed(response, 'Failed to log in');
+    const { token, user }: LoginResponse = await response.json();
+    setSession(token, user);
+    return user;
+  }
+
+  // Picks up the session saved by an earlier visit, if its token is still valid
+  static async restore(): Promise<User | null> {
+    if (!authToken) return null;
+    const response = await apiFetch(`${API_BASE_URL}/auth/me`);
+    if (!response.ok) return null;
+    setSession(authToken, await response.json());
+    return currentUser;
+  }
+
+  static logout(): void {
+    setSession(null, null);
+  }
+
+  // Called on every login and logout; returns the unsubscribe function
+  static onChange(listener: (user: User | null) => void): () => void {
+    sessionListeners.add(listener);
+    return () => {
+      sessionListeners.delete(listener);
+    };
+  }
+}
+
+export class DepartmentService {
+  static get currentId(): string | null {
+    return departmentId;
+  }
+
+  static select(id: string | null): void {
+    departmentId = id;
+    if (id) localStorage.setItem(DEPARTMENT_KEY, id);
+    else localStorage.removeItem(DEPARTMENT_KEY);
+    departmentListeners.forEach(notify => notify(id));
+  }
+
+  // Called whenever another department is selected; returns the unsubscribe function
+  static onChange(listener: (id: string | null) => void): () => void {
+    departmentListeners.add(listener);
+    return () => {
+      departmentListeners.delete(listener);
+    };
+  }
+}
+
+// A write broadcast by the backend change feed. `collection` is the endpoint the records are listed at.
+type ChangeDocument = { _id: string; [field: string]: unknown };
+type ChangeEvent =
+  | { collection: string; type: 'insert' | 'update'; documents: ChangeDocument[] }
+  | { collection: string; type: 'delete'; ids: string[] };
+
+// null tells listeners the stream reconnected, so changes may have been missed
+type ChangeListener = (change: ChangeEvent | null) => void;
+
+// One event stream is shared by every snapshot listener and closed with the last one.
+// It carries the selected department's changes only, so it's reopened when that changes.
+const changeListeners = new Set<ChangeListener>();
+let changeSource: EventSource | null = null;
+
+const openChangeSource = () => {
+  let connectedBefore = false;
+  // EventSource can't send headers, so the token and department go in the query
+  changeSource = new EventSource(`${API_BASE_URL}/changes${toQueryString({ access_token: authToken ?? undefined, department: departmentId ?? undefined })}`);
+  changeSource.onopen = () => {
+    if (connectedBefore) changeListeners.forEach(notify => notify(null));
+    connectedBefore = true;
+  };
+  changeSource.addEventListener('change', (event) => {
+    const change: ChangeEvent = JSON.parse((event as MessageEvent).data);
+    changeListeners.forEach(notify => notify(change));
+  });
+};
+
+DepartmentService.onChange(() => {
+  if (!changeSource) return;
+  changeSource.close();
+  openChangeSource();
+  changeListeners.forEach(notify => notify(null)); // the new department's lists are fetched again
+});
+
+const subscribeToChanges = (listener: ChangeListener): (() => void) => {
+  changeListeners.add(listener);
+  if (!changeSource) openChangeSource();
+  return () => {
+    changeListeners.delete(listener);
+    if (changeListeners.size === 0) {
+      changeSource?.close();
+      changeSource = null;
+    }
+  };
+};
+
+// List filters are plain field equality, so changed records can be checked against them here
+const matchesParams = (record: Record<string, unknown>, params?: QueryParams): boolean =>
+  !params || Object.entries(params).every(([key, value]) => value === undefined || value === '' || String(record[key]) === String(value));
+
 // Generic API service class
-class ApiService<T extends { id?: string }> {
-  constructor(private endpoint: string) {}
+export class ApiService<T extends { id?: string }> {
+  // refreshOn: other endpoints whose changes alter this one's data (e.g. computed lists)
+  constructor(private endpoint: string, private refreshOn: string[] = []) {}
 
-  async getAll(): Promise<T[]> {
-    const response = await fetch(`${API_BASE_URL}/${this.endpoint}`);
-    if (!response.ok) throw new Error(`Failed to fetch ${this.endpoint}`);
+  async getAll(params?: QueryParams): Promise<T[]> {
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}${toQueryString(params)}`);
+    await throwIfFailed(response, `Failed to fetch ${this.endpoint}`);
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
 
+  // One page of the list; the backend reports the total across all pages in X-Total-Count
+  async getPage(params: QueryParams & ListParams): Promise<Page<T>> {
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}${toQueryString({ ...params })}`);
+    await throwIfFailed(response, `Failed to fetch ${this.endpoint}`);
+    const data: ChangeDocument[] = await response.json();
+    const items = data.map(item => ({ ...item, id: item._id }) as unknown as T);
+    return { items, total: Number(response.headers.get('X-Total-Count') ?? items.length) };
+  }
+
   async getById(id: string): Promise<T | null> {
-    const response = await fetch(`${API_BASE_URL}/${this.endpoint}/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}/${id}`);
     if (!response.ok) return null;
     const data = await response.json();
     return { ...data, id: data._id };
   }
 
   async add(data: Omit<T, 'id'>): Promise<string> {
-    const response = await fetch(`${API_BASE_URL}/${this.endpoint}`, {
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
     });
-    if (!response.ok) throw new Error(`Failed to add ${this.endpoint}`);
+    await throwIfConflicts(response);
+    await throwIfFailed(response, `Failed to add ${this.endpoint}`);
     const result = await response.json();
     return result._id;
   }
 
   async update(id: string, data: Partial<Omit<T, 'id'>>): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/${this.endpoint}/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}/${id}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
     });
-    if (!response.ok) throw new Error(`Failed to update ${this.endpoint}`);
+    await throwIfFailed(response, `Failed to update ${this.endpoint}`);
   }
 
-  async delete(id: string): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/${this.endpoint}/${id}`, {
+  async delete(id: string, options?: DeleteOptions): Promise<void> {
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}/${id}${toQueryString({ ...options })}`, {
       method: 'DELETE',
     });
-    if (!response.ok) throw new Error(`Failed to delete ${this.endpoint}`);
+    if (response.status === 409) {
+      const body = await response.json();
+      if (body.dependents) throw new DependentsError(body.error, body.dependents);
+      if (body.conflicts) throw new SlotConflictError(body.error, body.conflicts);
+      throw new ApiError(body.error, 409, body.details);
+    }
+    await throwIfFailed(response, `Failed to delete ${this.endpoint}`);
+  }
+
+  // Subjects, slots and versions that would be affected by deleting this item
+  async getDependents(id: string): Promise<DeleteDependents> {
+    const response = await apiFetch(`${API_BASE_URL}/${this.endpoint}/${id}/dependents`);
+    await throwIfFailed(response, `Failed to fetch dependents of ${this.endpoint}`);
+    return response.json();
   }
 
   async batchAdd(items: Omit<T, 'id'>[]): Promise<void> {
@@ -53,24 +287,84 @@ class ApiService<T extends { id?: string }> {
     }
   }
 
-  onSnapshot(callback: (data: T[]) => void): () => void {
+  // Calls back with the full list, then again after every change pushed by the backend
+  onSnapshot(callback: (data: T[]) => void, params?: QueryParams): () => void {
+    let items: T[] = [];
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+
     const fetchData = async () => {
       try {
-        const data = await this.getAll();
-        callback(data);
+        items = await this.getAll(params);
+        callback(items);
       } catch (error) {
         console.error(`Error in ${this.endpoint} snapshot:`, error);
       }
     };
+    // Changes often come in bursts (e.g. a timetable replace), so refetches are batched
+    const scheduleRefetch = () => {
+      clearTimeout(refetchTimer);
+      refetchTimer = setTimeout(fetchData, 300);
+    };
+
+    const applyChange = (change: ChangeEvent) => {
+      if (change.type === 'delete') {
+        const deleted = new Set(change.ids);
+        items = items.filter(item => !deleted.has(item.id!));
+      } else {
+        // Updated records keep their place (or drop out if they no longer match); new ones go last
+        const toRecord = (doc: ChangeDocument) => ({ ...doc, id: doc._id }) as unknown as T;
+        const changed = new Map(change.documents.map(doc => [doc._id, doc]));
+        const next = items.flatMap(item => {
+          const doc = changed.get(item.id!);
+          if (!doc) return [item];
+          changed.delete(item.id!);
+          return matchesParams(doc, params) ? [toRecord(doc)] : [];
+        });
+        changed.forEach(doc => {
+          if (matchesParams(doc, params)) next.push(toRecord(doc));
+        });
+        items = next;
+      }
+      callback(items);
+    };
 
-    // Initial fetch
     fetchData();
-    
-    // Poll every 3 seconds for changes
-    const intervalId = setInterval(fetchData, 3000);
+    const unsubscribe = subscribeToChanges(change => {
+      if (!change || this.refreshOn.includes(change.collection)) scheduleRefetch();
+      else if (change.collection === this.endpoint) applyChange(change);
+    });
+
+    return () => {
+      clearTimeout(refetchTimer);
+      unsubscribe();
+    };
+  }
+
+  // Like onSnapshot, for one page of the list. A change can move records between pages,
+  // so the page is fetched again rather than patched.
+  onPage(callback: (page: Page<T>) => void, params: QueryParams & ListParams, onError?: (error: Error) => void): () => void {
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const fetchPage = async () => {
+      try {
+        callback(await this.getPage(params));
+      } catch (error) {
+        console.error(`Error in ${this.endpoint} page:`, error);
+        onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+
+    fetchPage();
+    const unsubscribe = subscribeToChanges(change => {
+      if (!change || change.collection === this.endpoint || this.refreshOn.includes(change.collection)) {
+        clearTimeout(refetchTimer);
+        refetchTimer = setTimeout(fetchPage, 300);
+      }
+    });
 
     return () => {
-      clearInterval(intervalId);
+      clearTimeout(refetchTimer);
+      unsubscribe();
     };
   }
 }
@@ -80,22 +374,15 @@ export const subjectsService = new class extends ApiService<Subject> {
   constructor() { super('subjects'); }
   
   async getBySemester(semester: number): Promise<Subject[]> {
-    const response = await fetch(`${API_BASE_URL}/subjects?semester=${semester}`);
-    if (!response.ok) throw new Error('Failed to fetch subjects by semester');
-    const data = await response.json();
-    return data.map((item: any) => ({ ...item, id: item._id }));
-  }
-
-  async getByDepartment(department: string): Promise<Subject[]> {
-    const response = await fetch(`${API_BASE_URL}/subjects?department=${encodeURIComponent(department)}`);
-    if (!response.ok) throw new Error('Failed to fetch subjects by department');
+    const response = await apiFetch(`${API_BASE_URL}/subjects?semester=${semester}`);
+    await throwIfFailed(response, 'Failed to fetch subjects by semester');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
 
   async getByFaculty(facultyId: string): Promise<Subject[]> {
-    const response = await fetch(`${API_BASE_URL}/subjects?facultyId=${facultyId}`);
-    if (!response.ok) throw new Error('Failed to fetch subjects by faculty');
+    const response = await apiFetch(`${API_BASE_URL}/subjects?facultyId=${facultyId}`);
+    await throwIfFailed(response, 'Failed to fetch subjects by faculty');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
@@ -104,20 +391,13 @@ export const subjectsService = new class extends ApiService<Subject> {
 export const facultyService = new class extends ApiService<Faculty> {
   constructor() { super('faculty'); }
   
-  async getByDepartment(department: string): Promise<Faculty[]> {
-    const response = await fetch(`${API_BASE_URL}/faculty?department=${encodeURIComponent(department)}`);
-    if (!response.ok) throw new Error('Failed to fetch faculty by department');
-    const data = await response.json();
-    return data.map((item: any) => ({ ...item, id: item._id }));
-  }
-
   async getAvailableFaculty(slot: Omit<TimetableSlot, 'id' | 'facultyId'>): Promise<Faculty[]> {
-    const response = await fetch(`${API_BASE_URL}/faculty/available`, {
+    const response = await apiFetch(`${API_BASE_URL}/faculty/available`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(slot)
     });
-    if (!response.ok) throw new Error('Failed to fetch available faculty');
+    await throwIfFailed(response, 'Failed to fetch available faculty');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
@@ -127,12 +407,12 @@ export const classroomsService = new class extends ApiService<Classroom> {
   constructor() { super('classrooms'); }
   
   async getAvailableRooms(slot: Omit<TimetableSlot, 'id' | 'roomId'>): Promise<Classroom[]> {
-    const response = await fetch(`${API_BASE_URL}/classrooms/available`, {
+    const response = await apiFetch(`${API_BASE_URL}/classrooms/available`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(slot)
     });
-    if (!response.ok) throw new Error('Failed to fetch available classrooms');
+    await throwIfFailed(response, 'Failed to fetch available classrooms');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
@@ -142,12 +422,12 @@ export const laboratoriesService = new class extends ApiService<Lab> {
   constructor() { super('labs'); }
   
   async getAvailableLabs(slot: Omit<TimetableSlot, 'id' | 'labId'>): Promise<Lab[]> {
-    const response = await fetch(`${API_BASE_URL}/labs/available`, {
+    const response = await apiFetch(`${API_BASE_URL}/labs/available`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(slot)
     });
-    if (!response.ok) throw new Error('Failed to fetch available labs');
+    await throwIfFailed(response, 'Failed to fetch available labs');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
@@ -158,131 +438,231 @@ export const timetableSlotsService = new class extends ApiService<TimetableSlot>
   
   async getByFilters(filters: {
     year?: string;
+    division?: string;
     semester?: number;
     batch?: string;
     day?: string;
+    type?: 'theory' | 'lab';
+    faculty?: string;
     facultyId?: string;
     subjectId?: string;
   }): Promise<TimetableSlot[]> {
-    const params = new URLSearchParams();
-    if (filters.year) params.append('year', filters.year);
-    if (filters.semester) params.append('semester', filters.semester.toString());
-    if (filters.batch) params.append('batch', filters.batch);
-    if (filters.day) params.append('day', filters.day);
-    if (filters.facultyId) params.append('facultyId', filters.facultyId);
-    if (filters.subjectId) params.append('subjectId', filters.subjectId);
-    
-    const response = await fetch(`${API_BASE_URL}/timetable-slots?${params.toString()}`);
-    if (!response.ok) throw new Error('Failed to fetch timetable slots with filters');
-    const data = await response.json();
-    return data.map((item: any) => ({ ...item, id: item._id }));
+    try {
+      return await this.getAll(filters);
+    } catch {
+      throw new Error('Failed to fetch timetable slots with filters');
+    }
   }
 }();
 
 export const scheduledHoursService = new class extends ApiService<ScheduledHour> {
-  constructor() { super('scheduled-hours'); }
+  constructor() { super('scheduled-hours', ['subjects', 'timetable-slots']); }
   
   async getBySubject(subjectId: string): Promise<ScheduledHour[]> {
-    const response = await fetch(`${API_BASE_URL}/scheduled-hours?subjectId=${subjectId}`);
-    if (!response.ok) throw new Error('Failed to fetch scheduled hours by subject');
+    const response = await apiFetch(`${API_BASE_URL}/scheduled-hours?subjectId=${subjectId}`);
+    await throwIfFailed(response, 'Failed to fetch scheduled hours by subject');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
   
   async getByFaculty(facultyId: string): Promise<ScheduledHour[]> {
-    const response = await fetch(`${API_BASE_URL}/scheduled-hours?facultyId=${facultyId}`);
-    if (!response.ok) throw new Error('Failed to fetch scheduled hours by faculty');
+    const response = await apiFetch(`${API_BASE_URL}/scheduled-hours?facultyId=${facultyId}`);
+    await throwIfFailed(response, 'Failed to fetch scheduled hours by faculty');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
   
   async getByBatch(batch: string): Promise<ScheduledHour[]> {
-    const response = await fetch(`${API_BASE_URL}/scheduled-hours?batch=${encodeURIComponent(batch)}`);
-    if (!response.ok) throw new Error('Failed to fetch scheduled hours by batch');
+    const response = await apiFetch(`${API_BASE_URL}/scheduled-hours?batch=${encodeURIComponent(batch)}`);
+    await throwIfFailed(response, 'Failed to fetch scheduled hours by batch');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
   
-  async getRemainingHours(subjectId: string, batch: string): Promise<number> {
-    const response = await fetch(`${API_BASE_URL}/scheduled-hours/remaining?subjectId=${subjectId}&batch=${encodeURIComponent(batch)}`);
-    if (!response.ok) throw new Error('Failed to fetch remaining scheduled hours');
+  async getRemainingHours(subjectId: string, batch: string, division?: string): Promise<number> {
+    const response = await apiFetch(`${API_BASE_URL}/scheduled-hours/remaining${toQueryString({ subjectId, batch, division })}`);
+    await throwIfFailed(response, 'Failed to fetch remaining scheduled hours');
     const data = await response.json();
     return data.remainingHours;
   }
 }();
 
+export const timetableVersionsService = new class extends ApiService<TimetableVersion> {
+  constructor() { super('timetables'); }
+
+  async getByYearAndSemester(year: string, semester: number, division?: string): Promise<TimetableVersion[]> {
+    return this.getAll({ year, division, semester });
+  }
+
+  // Promotes a version to active, replacing the live slots for its year/division/semester
+  async activate(id: string, force = false): Promise<void> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/${id}/activate${toQueryString({ force: force ? 'true' : undefined })}`, {
+      method: 'POST',
+    });
+    await throwIfConflicts(response);
+    await throwIfSlotErrors(response);
+    await throwIfFailed(response, 'Failed to activate timetable version');
+  }
+}();
+
+export const departmentsService = new ApiService<Department>('departments');
+
+// The department's years of study and their divisions, in teaching order
+export const academicYearsService = new ApiService<AcademicYearConfig>('academic-years');
+
+// The department's period grid; a list of one, created with the default grid on first read
+export const bellSchedulesService = new ApiService<BellSchedule>('bell-schedules');
+
+// Audit Service
+// Read-only: entries are written by the backend as changes happen
+export const auditService = new ApiService<AuditEntry>('audit');
+
 // Timetable Service
 export class TimetableService {
   static async getSlotsByYear(year: string): Promise<TimetableSlot[]> {
-    const response = await fetch(`${API_BASE_URL}/timetable-slots?year=${year}`);
-    if (!response.ok) throw new Error('Failed to fetch timetable slots by year');
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots?year=${year}`);
+    await throwIfFailed(response, 'Failed to fetch timetable slots by year');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
 
   static async getSlotsByFaculty(faculty: string): Promise<TimetableSlot[]> {
-    const response = await fetch(`${API_BASE_URL}/timetable-slots?faculty=${encodeURIComponent(faculty)}`);
-    if (!response.ok) throw new Error('Failed to fetch timetable slots by faculty');
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots?faculty=${encodeURIComponent(faculty)}`);
+    await throwIfFailed(response, 'Failed to fetch timetable slots by faculty');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
 
   static async clearAllSlots(): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/timetable-slots`, {
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots`, {
+      method: 'DELETE',
+    });
+    await throwIfFailed(response, 'Failed to clear timetable slots');
+  }
+
+  static async clearSlotsByYearAndSemester(year: string, semester: number, batch?: string, division?: string): Promise<number> {
+    const query = toQueryString({ year, division, semester, batch });
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots${query}`, {
       method: 'DELETE',
     });
-    if (!response.ok) throw new Error('Failed to clear timetable slots');
+    await throwIfFailed(response, 'Failed to clear timetable slots for scope');
+    const result = await response.json();
+    return result.deletedCount;
+  }
+
+  // Replaces every slot of a year/division/semester (optionally one batch) in a single request
+  static async replaceSlotsForScope(
+    scope: { year: string; division?: string; semester: number; batch?: string },
+    slots: Omit<TimetableSlot, 'id'>[],
+    force = false
+  ): Promise<void> {
+    const query = toQueryString({ ...scope, replace: 'true', force: force ? 'true' : undefined });
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots/batch${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(slots),
+    });
+    await throwIfConflicts(response);
+    await throwIfSlotErrors(response);
+    await throwIfFailed(response, 'Failed to replace timetable slots');
   }
 
-  static async saveTimetableSlot(slot: Omit<TimetableSlot, 'id'>): Promise<string> {
-    const response = await fetch(`${API_BASE_URL}/timetable-slots`, {
+  static async saveTimetableSlot(slot: Omit<TimetableSlot, 'id'>, force = false): Promise<string> {
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots${toQueryString({ force: force ? 'true' : undefined })}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(slot),
     });
-    if (!response.ok) throw new Error('Failed to save timetable slot');
+    await throwIfConflicts(response);
+    await throwIfFailed(response, 'Failed to save timetable slot');
     const result = await response.json();
     return result._id;
   }
 
-  static async batchSaveTimetableSlots(slots: Omit<TimetableSlot, 'id'>[]): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/timetable-slots/batch`, {
+  static async batchSaveTimetableSlots(slots: Omit<TimetableSlot, 'id'>[], force = false): Promise<void> {
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots/batch${toQueryString({ force: force ? 'true' : undefined })}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(slots),
     });
-    if (!response.ok) throw new Error('Failed to batch save timetable slots');
+    await throwIfConflicts(response);
+    await throwIfSlotErrors(response);
+    await throwIfFailed(response, 'Failed to batch save timetable slots');
   }
 
   static async getSlotsByYearAndSemester(year: string, semester: number): Promise<TimetableSlot[]> {
-    const response = await fetch(`${API_BASE_URL}/timetable-slots?year=${year}&semester=${semester}`);
-    if (!response.ok) throw new Error('Failed to fetch timetable slots by year and semester');
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots?year=${year}&semester=${semester}`);
+    await throwIfFailed(response, 'Failed to fetch timetable slots by year and semester');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
 
-  static async getSlotsByYearSemesterAndBatch(year: string, semester: number, batch?: string): Promise<TimetableSlot[]> {
-    let url = `${API_BASE_URL}/timetable-slots?year=${year}&semester=${semester}`;
-    if (batch) {
-      url += `&batch=${batch}`;
-    }
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch timetable slots');
+  static async getSlotsByYearSemesterAndBatch(year: string, semester: number, batch?: string, division?: string): Promise<TimetableSlot[]> {
+    const response = await apiFetch(`${API_BASE_URL}/timetable-slots${toQueryString({ year, division, semester, batch })}`);
+    await throwIfFailed(response, 'Failed to fetch timetable slots');
     const data = await response.json();
     return data.map((item: any) => ({ ...item, id: item._id }));
   }
 }
 
+// Timetable generation runs on the backend as jobs, so it survives the tab being closed
+export class TimetableGenerationService {
+  // Resolves with the started job, or with the job already generating this year/division/semester
+  static async start(request: { year: string; division?: string; semester: number; constraints: TimetableConstraints }): Promise<GenerationJob> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    const body = await response.json();
+    if (response.status === 409 && body.job) return body.job;
+    if (!response.ok) throw new ApiError(body.error ?? 'Failed to start timetable generation', response.status, body.details);
+    return body;
+  }
+
+  static async getJobs(year: string, semester: number, division?: string): Promise<GenerationJob[]> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/generate${toQueryString({ year, division, semester })}`);
+    await throwIfFailed(response, 'Failed to fetch generation jobs');
+    return response.json();
+  }
+
+  static async getJob(id: string): Promise<GenerationJob> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/generate/${id}`);
+    await throwIfFailed(response, 'Failed to fetch generation job');
+    return response.json();
+  }
+
+  static async getResult(id: string): Promise<GenerationJobResult> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/generate/${id}/result`);
+    await throwIfFailed(response, 'Failed to fetch generated timetable');
+    return response.json();
+  }
+
+  static async cancel(id: string): Promise<void> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/generate/${id}/cancel`, { method: 'POST' });
+    if (!response.ok && response.status !== 409) throw new Error('Failed to cancel timetable generation');
+  }
+
+  // Built-in self-checks of the generator (see the AI demo page)
+  static async runCheck<T>(check: 'consistency' | 'constraints'): Promise<T> {
+    const response = await apiFetch(`${API_BASE_URL}/timetables/generate/checks/${check}`, { method: 'POST' });
+    await throwIfFailed(response, `Failed to run the ${check} check`);
+    return response.json();
+  }
+}
+
 // Data Initialization Service
 export class DataInitializationService {
-  static async initializeSampleData(): Promise<void> {
+  // 'merge' upserts the sample department; 'reset' replaces all data with it
+  static async initializeSampleData(mode: 'merge' | 'reset' = 'merge'): Promise<string> {
     try {
-      const response = await fetch(`${API_BASE_URL}/initialize-data`, {
+      const response = await apiFetch(`${API_BASE_URL}/initialize-data?mode=${mode}`, {
         method: 'POST',
       });
-      if (!response.ok) throw new Error('Failed to initialize sample data');
+      await throwIfFailed(response, 'Failed to initialize sample data');
       const result = await response.json();
       console.log('✅', result.message);
+      return result.message;
     } catch (error) {
       console.error('Error initializing sample data:', error);
       throw error;
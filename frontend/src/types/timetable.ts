@@ -1,59 +1,163 @@
-export interface Subject {
+import type { TimetableSlot, TimetableConstraints, Conflict, AcademicYear, Batch, UserRole } from '@timetable/shared';
+
+// Records exchanged with the backend are defined once in the shared package
+export type {
+  Subject,
+  Faculty,
+  Classroom,
+  Lab,
+  TimetableSlot,
+  TimetableConstraints,
+  Conflict,
+  AcademicYear,
+  AcademicYearConfig,
+  YearSession,
+  Day,
+  Batch,
+  BatchConfig,
+  ClassEnrollment,
+  BellSchedule,
+  BellPeriod,
+  BellShift,
+  BellDayVariation,
+  WorkingDays,
+  PeriodKind,
+  SlotType,
+  FieldError,
+  ApiErrorBody,
+  User,
+  UserRole,
+  LoginResponse,
+  AuditEntry,
+  AuditAction,
+  AuditChange,
+  Department
+} from '@timetable/shared';
+
+// A saved generation run. The active version is the one copied into timetable-slots.
+export interface TimetableVersion {
   id: string;
   name: string;
-  code: string;
-  year: 'SE' | 'TE' | 'BE';
-  theoryHours: number;
-  labHours: number;
-  faculty: string | { _id: string; name: string; email: string; department: string };
+  year: AcademicYear;
+  division?: string;
   semester: number;
+  version: number;
+  isActive: boolean;
+  department?: string;
+  constraints?: Partial<TimetableConstraints>;
+  slots?: Omit<TimetableSlot, 'id' | 'year' | 'division' | 'semester'>[]; // only when fetched by id
+  slotCount?: number; // only in listings
+  createdAt: string;
 }
 
-export interface Faculty {
+// A timetable generation run on the backend. Poll it for progress, then fetch its result.
+export interface GenerationJob {
   id: string;
-  name: string;
-  email: string;
-  phone: string;
   department: string;
-  subjects: string[];
-  maxHoursPerDay: number;
-  preferredSlots: string[];
-  unavailableSlots?: string[];
+  year: AcademicYear;
+  division?: string;
+  semester: number;
+  constraints: TimetableConstraints;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number; // 0-100
+  step: string;
+  steps: { step: string; progress: number; at: string }[];
+  error?: string;
+  version?: { id: string; name: string; isActive: boolean }; // what the server saved the result as, once completed
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
 }
 
-export interface Classroom {
-  id: string;
-  name: string;
-  capacity: number;
-  timeSlot: '8AM-3PM' | '10AM-5PM';
-  assignedYear: 'SE' | 'TE' | 'BE';
-  floor: number;
-  amenities: string[];
+// What a completed generation job produced
+export interface GenerationJobResult {
+  slots: TimetableSlot[];
+  conflicts: Conflict[];
+  analysisResult: {
+    isValid: boolean;
+    conflicts: (Omit<Conflict, 'type'> & { type: 'error' | 'warning' | 'info'; suggestedFix?: string })[];
+    optimizationSuggestions: string[];
+    constraintScore: number;
+  };
+  generationStats: {
+    totalSlots: number;
+    theorySlots: number;
+    labSlots: number;
+    facultyUtilization: number;
+    roomUtilization: number;
+    constraintScore: number;
+    consistencyHash: string;
+  };
 }
 
-export interface Lab {
-  id: string;
-  name: string;
-  capacity: number;
-  type: string;
-  equipment: string[];
-  floor: number;
-  availableHours: string[];
-  compatibleSubjects: string[];
+// A faculty, room or student clash, or a room too small for its students, reported by the
+// backend when it rejects a slot write
+export interface SlotWriteConflict {
+  rule: 'faculty' | 'room' | 'student' | 'capacity';
+  message: string;
+  slotIndex: number; // index of the offending slot in the request
+  slot: Omit<TimetableSlot, 'id'>;
+  conflictsWith?: { slotIndex?: number; slotId?: string; slot: Omit<TimetableSlot, 'id'> }; // unset for capacity
+}
+
+// Why one slot of a batch write was rejected; nothing in the batch was saved
+export interface SlotWriteProblem {
+  index: number; // index of the slot in the request
+  field?: string;
+  message: string;
+}
+
+// What still references a subject, faculty member, classroom or lab, as reported by the backend
+export interface DeleteDependents {
+  subjects: { _id: string; code: string; name: string; year: string; semester: number }[]; // faculty only
+  accounts: { _id: string; name: string; email: string; role: UserRole }[]; // faculty only: logins linked to them
+  slotCount: number;
+  timetables: { _id: string; name: string; year: string; semester: number; version: number; isActive: boolean; slotCount: number }[];
+  total: number;
+}
+
+// How to deal with dependents when deleting: remove them, or point them at another record
+export interface DeleteOptions {
+  mode?: 'cascade' | 'reassign';
+  to?: string;
+  force?: boolean; // reassign even if the moved slots clash
+}
+
+// Paging, sorting and search accepted by every list endpoint. `sort` is a field name,
+// prefixed with '-' for descending; `q` searches the resource's text fields.
+export interface ListParams {
+  page?: number;
+  limit?: number;
+  sort?: string;
+  q?: string;
 }
 
-export interface TimetableSlot {
+// One page of a list, with the number of matches across all pages
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+// Hours booked in saved slots for one subject, division and batch, computed by the backend
+export interface ScheduledHour {
   id: string;
-  day: string;
-  time: string;
-  subject: string;
-  faculty: string;
-  room: string;
-  type: 'theory' | 'lab';
-  year: 'SE' | 'TE' | 'BE';
-  batch?: 'A' | 'B' | 'C';
-  duration: number; // in hours
-  semester: number; // Add this field to track which semester the slot belongs to
+  subjectId: string;
+  subjectCode: string;
+  subjectName: string;
+  facultyId: string | null;
+  facultyName: string | null;
+  year: AcademicYear;
+  division?: string;
+  semester: number;
+  batch?: Batch; // unset for a class without batches
+  theoryHoursRequired: number;
+  theoryHoursScheduled: number;
+  labHoursRequired: number;
+  labHoursScheduled: number;
+  requiredHours: number;
+  scheduledHours: number;
+  remainingHours: number; // negative when over-allocated
+  status: 'under' | 'complete' | 'over';
 }
 
 export interface Constraint {
@@ -63,20 +167,6 @@ export interface Constraint {
   weight: number;
 }
 
-export interface TimetableConstraints {
-  maxHoursPerDay: number;
-  minBreakBetweenClasses: number;
-  maxConsecutiveHours: number;
-  prioritizeLabAfternoon: boolean;
-  allowBackToBackTheory: boolean;
-  facultyRestSlots: number;
-  yearBatchType?: {
-    SE: 'Morning' | 'Afternoon';
-    TE: 'Morning' | 'Afternoon';
-    BE: 'Morning' | 'Afternoon';
-  };
-}
-
 export interface GenerationResult {
   success: boolean;
   conflicts: Conflict[];
@@ -87,10 +177,3 @@ export interface GenerationResult {
     labUtilization: number;
   };
 }
-
-export interface Conflict {
-  type: 'error' | 'warning' | 'info' | 'success';
-  message: string;
-  severity: 'low' | 'medium' | 'high';
-  affectedEntities: string[];
-}
\ No newline at end of file
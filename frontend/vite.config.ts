@@ -1,9 +1,23 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Types and validators shared with the backend, used straight from source
+const sharedSource = fileURLToPath(new URL('../shared/src/index.ts', import.meta.url));
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      '@timetable/shared': sharedSource,
+    },
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
@@ -0,0 +1,129 @@
+import { DAYS } from "./types";
+import type { BellPeriod, BellSchedule, WorkingDays, YearSession } from "./types";
+import { compareTimes } from "./time";
+
+// A schedule as stored or as a default; only the periods matter here
+type Schedule = Omit<BellSchedule, "id">;
+
+const lecture = (start: string, end: string): BellPeriod => ({ start, end, kind: "lecture" });
+
+export const DEFAULT_WORKING_DAYS: WorkingDays = { days: [...DAYS], alternate: [] };
+
+// The grid departments start with: a morning and an afternoon shift of six lectures
+export const DEFAULT_BELL_SCHEDULE: Schedule = {
+  labPeriods: 2,
+  shifts: [
+    {
+      session: "Morning",
+      periods: [
+        lecture("08:10", "09:10"), lecture("09:10", "10:10"),
+        { start: "10:10", end: "10:25", kind: "break" },
+        lecture("10:25", "11:20"), lecture("11:20", "12:15"),
+        { start: "12:15", end: "13:05", kind: "lunch" },
+        lecture("13:05", "14:00"), lecture("14:00", "14:55")
+      ]
+    },
+    {
+      session: "Afternoon",
+      periods: [
+        lecture("10:25", "11:20"), lecture("11:20", "12:15"),
+        { start: "12:15", end: "13:05", kind: "lunch" },
+        lecture("13:05", "14:00"), lecture("14:00", "14:55"),
+        { start: "14:55", end: "15:05", kind: "break" },
+        lecture("15:05", "16:00"), lecture("16:00", "16:55")
+      ]
+    }
+  ],
+  dayVariations: [],
+  workingDays: DEFAULT_WORKING_DAYS
+};
+
+const distinct = (times: string[]) => [...new Set(times)].sort(compareTimes);
+
+// "08:10-09:10", as slot times are written
+export const periodTime = (period: BellPeriod): string => `${period.start}-${period.end}`;
+
+// The periods of a session's day: the day's variation if it has one, else the shift's
+export const periodsOn = (schedule: Schedule, session: YearSession, day: string): BellPeriod[] =>
+  schedule.dayVariations.find(variation => variation.day === day && variation.session === session)?.periods ??
+  schedule.shifts.find(shift => shift.session === session)?.periods ??
+  [];
+
+export const lectureTimes = (schedule: Schedule, session: YearSession, day: string): string[] =>
+  periodsOn(schedule, session, day).filter(period => period.kind === "lecture").map(periodTime);
+
+// Lab sessions take `labPeriods` lectures in a row, with no break between them.
+// Runs of lectures are split from their start; lectures left over take no lab.
+const labBlocks = (periods: BellPeriod[], labPeriods: number): BellPeriod[][] => {
+  const runs: BellPeriod[][] = [[]];
+  for (const period of periods) {
+    const run = runs[runs.length - 1];
+    if (period.kind !== "lecture") runs.push([]);
+    else if (run.length === 0 || run[run.length - 1].end === period.start) run.push(period);
+    else runs.push([period]);
+  }
+  const size = Math.max(1, labPeriods);
+  return runs.flatMap(run => {
+    const blocks: BellPeriod[][] = [];
+    for (let i = 0; i + size <= run.length; i += size) blocks.push(run.slice(i, i + size));
+    return blocks;
+  });
+};
+
+const blockTime = (block: BellPeriod[]) => `${block[0].start}-${block[block.length - 1].end}`;
+
+// The lab sessions a list of periods allows, e.g. ["08:10-10:10", "10:25-12:15"]
+export const labTimesIn = (periods: BellPeriod[], labPeriods: number): string[] =>
+  labBlocks(periods, labPeriods).map(blockTime);
+
+export const labTimes = (schedule: Schedule, session: YearSession, day: string): string[] =>
+  labTimesIn(periodsOn(schedule, session, day), schedule.labPeriods);
+
+const sessionsOf = (schedule: Schedule): YearSession[] => schedule.shifts.map(shift => shift.session);
+
+// Every shift's lectures (or lab sessions) on the day, in time order
+export const allLectureTimes = (schedule: Schedule, day: string): string[] =>
+  distinct(sessionsOf(schedule).flatMap(session => lectureTimes(schedule, session, day)));
+
+export const allLabTimes = (schedule: Schedule, day: string): string[] =>
+  distinct(sessionsOf(schedule).flatMap(session => labTimes(schedule, session, day)));
+
+// When a shift's first period starts, e.g. "08:10"
+export const shiftStart = (schedule: Schedule, session: YearSession): string | undefined =>
+  schedule.shifts.find(shift => shift.session === session)?.periods[0]?.start;
+
+// The rows of a weekly grid across every shift and day: lab-length blocks, the
+// lectures outside them, and the breaks
+export const scheduleRows = (schedule: Schedule): { time: string; kind: BellPeriod["kind"] }[] => {
+  const grids = [...schedule.shifts, ...schedule.dayVariations].map(grid => grid.periods);
+  const rows = new Map<string, BellPeriod["kind"]>();
+  for (const periods of grids) {
+    const blocks = labBlocks(periods, schedule.labPeriods);
+    blocks.forEach(block => rows.set(blockTime(block), "lecture"));
+    periods
+      .filter(period => !blocks.some(block => block.includes(period)))
+      .forEach(period => rows.set(periodTime(period), period.kind));
+  }
+  return [...rows.keys()].sort(compareTimes).map(time => ({ time, kind: rows.get(time)! }));
+};
+
+type HasWorkingDays = { workingDays?: WorkingDays | null };
+
+// The days a year is taught: its own, else the department's
+export const workingDaysOf = (schedule: HasWorkingDays, year?: HasWorkingDays | null): WorkingDays =>
+  year?.workingDays ?? schedule.workingDays ?? DEFAULT_WORKING_DAYS;
+
+// How often a day is held: 1 every week, 0.5 on alternate weeks, 0 when it's off
+export const dayWeight = (workingDays: WorkingDays, day: string): number => {
+  if (!workingDays.days.some(candidate => candidate === day)) return 0;
+  return workingDays.alternate.some(candidate => candidate === day) ? 0.5 : 1;
+};
+
+// Every working day in the order sessions are placed: the days held every week first,
+// so alternate-week days take the sessions that don't fit elsewhere
+export const schedulingDays = (workingDays: WorkingDays): string[] =>
+  [...workingDays.days].sort((a, b) => dayWeight(workingDays, b) - dayWeight(workingDays, a));
+
+// Working days in an average week, e.g. 5.5 with alternate Saturdays off
+export const workingDayCount = (workingDays: WorkingDays): number =>
+  workingDays.days.reduce((sum, day) => sum + dayWeight(workingDays, day), 0);
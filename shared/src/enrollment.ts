@@ -0,0 +1,30 @@
+// Student strength of years, divisions and batches, which rooms are sized against.
+
+type Counted = { division?: string | null; students: number };
+type YearCounts = { divisions: string[]; batches?: (Counted & { name: string })[]; enrollment?: Counted[] | null };
+
+const sameDivision = (a?: string | null, b?: string | null) => (a || "") === (b || "");
+
+// How many students a class (a division, or the whole year without divisions) has: its
+// recorded enrollment, else the total of its lab batches; 0 when neither is known
+export const classStrength = (year: YearCounts, division?: string | null): number => {
+  const recorded = year.enrollment?.find(entry => sameDivision(entry.division, division));
+  if (recorded) return recorded.students;
+  return (year.batches ?? [])
+    .filter(batch => sameDivision(batch.division, division))
+    .reduce((sum, batch) => sum + batch.students, 0);
+};
+
+// The whole year, across its divisions
+export const yearStrength = (year: YearCounts): number =>
+  (year.divisions.length > 0 ? year.divisions : [undefined])
+    .reduce((sum, division) => sum + classStrength(year, division), 0);
+
+// How many students attend a session: its batch for a batch's lab, else the whole class
+export const sessionStrength = (
+  year: YearCounts,
+  { division, batch }: { division?: string | null; batch?: string | null }
+): number => {
+  const counted = batch && year.batches?.find(candidate => candidate.name === batch && sameDivision(candidate.division, division));
+  return counted ? counted.students : classStrength(year, division);
+};
@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./time";
+export * from "./validators";
+export * from "./bellSchedule";
+export * from "./enrollment";
@@ -0,0 +1,65 @@
+// Times of day are written in 24-hour "HH:mm" form, e.g. "08:10" or "13:05", and slot times
+// as "HH:mm-HH:mm". Everything that compares, orders or overlaps times goes through here.
+
+export interface TimeRange {
+  start: number; // minutes since midnight
+  end: number;
+}
+
+const CLOCK = "([01]\\d|2[0-3]):([0-5]\\d)";
+export const CLOCK_TIME_PATTERN = new RegExp(`^${CLOCK}$`);
+export const TIME_RANGE_PATTERN = new RegExp(`^${CLOCK}-${CLOCK}$`);
+
+// "13:05" -> 785, or null when it isn't a 24-hour "HH:mm" time
+export const parseClockTime = (value: string): number | null => {
+  const match = CLOCK_TIME_PATTERN.exec(value.trim());
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+// 785 -> "13:05"
+export const formatClockTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+// "13:05-14:00" -> { start: 785, end: 840 }, or null when it is malformed or empty
+export const parseTimeRange = (value: string): TimeRange | null => {
+  const parts = value.split("-");
+  if (parts.length !== 2) return null;
+  const start = parseClockTime(parts[0]);
+  const end = parseClockTime(parts[1]);
+  if (start === null || end === null || end <= start) return null;
+  return { start, end };
+};
+
+export const formatTimeRange = ({ start, end }: TimeRange): string =>
+  `${formatClockTime(start)}-${formatClockTime(end)}`;
+
+export const rangesOverlap = (a: TimeRange, b: TimeRange): boolean =>
+  Math.max(a.start, b.start) < Math.min(a.end, b.end);
+
+export const rangeContains = (outer: TimeRange, inner: TimeRange): boolean =>
+  outer.start <= inner.start && inner.end <= outer.end;
+
+// True when the union of the given ranges covers the target without gaps
+export const rangesCover = (ranges: TimeRange[], target: TimeRange): boolean => {
+  let reached = target.start;
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    if (range.start > reached) break;
+    reached = Math.max(reached, range.end);
+    if (reached >= target.end) return true;
+  }
+  return false;
+};
+
+// When a slot time such as "13:05-14:00" starts, in minutes; malformed times sort last
+export const startMinutes = (time: string): number =>
+  parseTimeRange(time)?.start ?? Number.MAX_SAFE_INTEGER;
+
+// Orders slot times by when they start
+export const compareTimes = (a: string, b: string): number => startMinutes(a) - startMinutes(b);
+
+// Whether two slot times share any minute. Malformed times are treated as clashing.
+export const timesOverlap = (a: string, b: string): boolean => {
+  const rangeA = parseTimeRange(a);
+  const rangeB = parseTimeRange(b);
+  return !rangeA || !rangeB || rangesOverlap(rangeA, rangeB);
+};
@@ -0,0 +1,257 @@
+// The API contract between the backend and the frontend. Records are sent with `_id`;
+// the frontend ApiService exposes it as `id`.
+
+import type { FieldError } from "./validators";
+
+// The code of one of the department's academic years (see AcademicYearConfig), e.g. "SE"
+export type AcademicYear = string;
+
+// The name of one of a division's lab batches (see BatchConfig), e.g. "A"
+export type Batch = string;
+
+export const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+export type Day = typeof DAYS[number];
+
+export const SLOT_TYPES = ["theory", "lab"] as const;
+export type SlotType = typeof SLOT_TYPES[number];
+
+// The half of the day a year's lab sessions and lectures start from
+export const YEAR_SESSIONS = ["Morning", "Afternoon"] as const;
+export type YearSession = typeof YEAR_SESSIONS[number];
+
+export const CLASSROOM_SHIFTS = ["8AM-3PM", "10AM-5PM"] as const;
+export type ClassroomShift = typeof CLASSROOM_SHIFTS[number];
+
+// admin covers HODs: they edit everything and run generation. Faculty read everything
+// and edit their own preferences; students only read.
+export const USER_ROLES = ["admin", "faculty", "student"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// The Faculty fields a faculty member may change on their own record
+export const FACULTY_PREFERENCE_FIELDS = ["maxHoursPerDay", "preferredSlots", "unavailableSlots"] as const;
+
+// Every record belongs to one department and is only listed within it. Requests name
+// the department they work in with the X-Department header (see the department switcher).
+export interface Department {
+  id: string;
+  name: string;
+  code: string; // short label, e.g. "COMP"
+}
+
+// One lab batch: part of a division (or of the whole year when it has none) that takes
+// lab sessions together. Labs it's given must hold all of its students.
+export interface BatchConfig {
+  name: Batch; // unique within its division
+  division?: string;
+  students: number;
+}
+
+// How many students one class has: a division, or the whole year when it has no divisions.
+// Classrooms it's taught in must seat them all.
+export interface ClassEnrollment {
+  division?: string;
+  students: number;
+}
+
+// A year of study a department teaches, e.g. the second year of the B.E. program. Subjects,
+// classrooms and slots name it by code. Each division of a year (A, B...) gets its own timetable.
+export interface AcademicYearConfig {
+  id: string;
+  code: AcademicYear; // unique within the department, e.g. "SE"
+  label: string; // e.g. "Second Year"
+  program: string; // e.g. "B.E." or "M.Tech"
+  order: number; // position in lists, lowest first
+  divisions: string[]; // e.g. ["A", "B"]; empty when the year is taught as one class
+  batches: BatchConfig[]; // every division's, each naming its division
+  enrollment?: ClassEnrollment[]; // per division; a class without one counts its batches' students
+  session: YearSession; // default for TimetableConstraints.yearBatchType
+  workingDays?: WorkingDays | null; // unset or null: the department's (BellSchedule.workingDays)
+  department?: string;
+}
+
+// The days a year is taught. Alternate days, e.g. every other Saturday, are held one week
+// in two; a shorter day (a half-day Saturday) is a day variation of the bell schedule.
+export interface WorkingDays {
+  days: Day[]; // in week order
+  alternate: Day[]; // some of `days`
+}
+
+// What a period of the bell schedule is used for. Lab sessions take consecutive lectures.
+export const PERIOD_KINDS = ["lecture", "break", "lunch"] as const;
+export type PeriodKind = typeof PERIOD_KINDS[number];
+
+// One row of the bell schedule, e.g. { start: "08:10", end: "09:10", kind: "lecture" }
+export interface BellPeriod {
+  start: string;
+  end: string;
+  kind: PeriodKind;
+}
+
+// The periods of a day for the years taught in one session (see AcademicYearConfig.session)
+export interface BellShift {
+  session: YearSession;
+  periods: BellPeriod[]; // in order, not overlapping
+}
+
+// A day whose periods differ from its shift's, e.g. a shorter Saturday
+export interface BellDayVariation {
+  day: Day;
+  session: YearSession;
+  periods: BellPeriod[];
+}
+
+// The department's period grid. Generators, rules and views take their times from it.
+export interface BellSchedule {
+  id: string;
+  labPeriods: number; // consecutive lectures a lab session takes, e.g. 2
+  shifts: BellShift[];
+  dayVariations: BellDayVariation[];
+  workingDays: WorkingDays; // the department's; a year may set its own
+  department?: string;
+}
+
+// Subject.faculty is stored as a Faculty id and comes back populated with these fields
+export interface FacultyRef {
+  _id: string;
+  name: string;
+  email: string;
+  department: string;
+}
+
+export interface Subject {
+  id: string;
+  name: string;
+  code: string;
+  year: AcademicYear;
+  type?: SlotType;
+  theoryHours: number;
+  labHours: number;
+  faculty: string | FacultyRef; // id when writing, populated when reading
+  semester: number;
+  department?: string; // set by the backend from the request's department
+}
+
+export interface Faculty {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  department?: string; // Department id, set by the backend
+  subjects: string[]; // subject codes
+  maxHoursPerDay: number;
+  preferredSlots: string[];
+  unavailableSlots?: string[];
+}
+
+export interface Classroom {
+  id: string;
+  name: string;
+  capacity: number;
+  timeSlot: ClassroomShift;
+  assignedYear: AcademicYear;
+  assignedDivision?: string; // the division of assignedYear taught in it; any division when absent
+  floor: number;
+  amenities: string[];
+  department?: string; // the owning department, the only one that can edit it
+  sharedWith?: string[]; // other departments that can book it too
+}
+
+export interface Lab {
+  id: string;
+  name: string;
+  capacity: number;
+  type: string;
+  equipment: string[];
+  floor: number;
+  availableHours: string[]; // 24-hour ranges, e.g. ["08:00-12:15", "13:05-17:00"]
+  compatibleSubjects: string[]; // subject codes
+  department?: string;
+  sharedWith?: string[]; // e.g. a common lab booked by several departments
+}
+
+export interface TimetableSlot {
+  id: string;
+  day: string;
+  time: string;
+  subject: string;
+  faculty: string;
+  room: string;
+  // References to the master data; subject/faculty/room above are their display names
+  subjectId?: string;
+  facultyId?: string;
+  roomId?: string;
+  labId?: string;
+  subjectCode?: string;
+  type: SlotType;
+  year: AcademicYear;
+  division?: string; // one of the year's divisions; absent for years without divisions
+  batch?: Batch;
+  duration: number; // in hours
+  semester: number;
+  department?: string;
+}
+
+// Settings a timetable was generated with, stored on each saved version
+export interface TimetableConstraints {
+  maxHoursPerDay: number;
+  minBreakBetweenClasses: number;
+  maxConsecutiveHours: number;
+  prioritizeLabAfternoon: boolean;
+  allowBackToBackTheory: boolean;
+  facultyRestSlots: number;
+  yearBatchType?: Record<AcademicYear, YearSession>; // overrides AcademicYearConfig.session
+}
+
+// A login account. Faculty accounts are linked to their Faculty record.
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  faculty?: string; // Faculty id, for the faculty role
+}
+
+// Body of POST /api/auth/login; the token goes in "Authorization: Bearer <token>"
+export interface LoginResponse {
+  token: string;
+  user: User;
+}
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "generate", "activate", "import"] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// One field of a record, before and after a change. Absent on the side where the record didn't exist.
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// A change made through the API, recorded with who made it (GET /api/audit)
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  resource: string; // the endpoint, e.g. "faculty" or "timetables"
+  resourceId?: string;
+  summary: string; // e.g. "Updated faculty member Dr. Sharma"
+  actor: { id: string; name: string; role: UserRole };
+  changes: AuditChange[];
+  details?: Record<string, unknown>; // e.g. the scope and slot count of a timetable write
+  createdAt: string;
+}
+
+// A problem the generator found while building a timetable
+export interface Conflict {
+  type: "error" | "warning" | "info" | "success";
+  message: string;
+  severity: "low" | "medium" | "high";
+  affectedEntities: string[];
+}
+
+// The body of every error response from the API. Some errors carry more context,
+// such as the clashing slots of a 409 or the records blocking a delete.
+export interface ApiErrorBody {
+  error: string;
+  details?: FieldError[]; // per-field problems, when the request body was at fault
+  [context: string]: unknown;
+}
@@ -0,0 +1,248 @@
+import { CLASSROOM_SHIFTS, DAYS, SLOT_TYPES, USER_ROLES, YEAR_SESSIONS } from "./types";
+import { TIME_RANGE_PATTERN } from "./time";
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE_PATTERN = /^\d{10}$/; // 10 digits, no country code
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ValidateOptions {
+  partial?: boolean; // only check the fields that are present, e.g. for updates
+  coerce?: boolean; // values are strings to be read as their type, as in query strings and route params
+}
+
+// The rules for one field, kept as plain data so the API can publish them (GET /api/schema)
+export interface FieldSpec {
+  type: "string" | "number" | "boolean" | "id" | "id[]" | "string[]" | "object" | "array";
+  required?: boolean;
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  minLength?: number; // strings
+  pattern?: string; // a RegExp source; for string[], every item must match
+  patternMessage?: string; // shown instead of the generic message when the pattern doesn't match
+}
+
+export interface RecordSchema {
+  fields: Record<string, FieldSpec>;
+  // Each entry needs at least one of its keys, e.g. a slot's subjectId or subject name
+  requireOneOf?: { field: string; keys: string[] }[];
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === "";
+
+const coerceValue = (spec: FieldSpec, value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  if (spec.type === "number") return value.trim() === "" ? value : Number(value);
+  if (spec.type === "boolean") return value === "true" ? true : value === "false" ? false : value;
+  return value;
+};
+
+// Returns an error message for the value, or null when it's fine
+const checkField = (spec: FieldSpec, value: unknown): string | null => {
+  switch (spec.type) {
+    case "string":
+      if (typeof value !== "string" || value.trim() === "") return "must be a non-empty string";
+      if (spec.enum && !spec.enum.includes(value)) return `must be one of ${spec.enum.join(", ")}`;
+      if (spec.minLength !== undefined && value.length < spec.minLength) return `must be at least ${spec.minLength} characters`;
+      if (spec.pattern && !new RegExp(spec.pattern).test(value)) return spec.patternMessage ?? `must match ${spec.pattern}`;
+      return null;
+    case "number": {
+      const min = spec.min ?? 0;
+      if (spec.integer) {
+        const inRange = Number.isInteger(value) && (value as number) >= min && (spec.max === undefined || (value as number) <= spec.max);
+        if (inRange) return null;
+        return spec.max === undefined ? `must be a whole number of at least ${min}` : `must be a whole number from ${min} to ${spec.max}`;
+      }
+      const inRange = typeof value === "number" && Number.isFinite(value) && value >= min && (spec.max === undefined || value <= spec.max);
+      if (inRange) return null;
+      return spec.max === undefined ? `must be a number of at least ${min}` : `must be a number from ${min} to ${spec.max}`;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    case "id":
+      return typeof value === "string" && OBJECT_ID_PATTERN.test(value) ? null : "must be a valid id";
+    case "id[]":
+      return Array.isArray(value) && value.every(item => typeof item === "string" && OBJECT_ID_PATTERN.test(item))
+        ? null
+        : "must be a list of valid ids";
+    case "string[]":
+      if (!Array.isArray(value) || !value.every(item => typeof item === "string")) return "must be a list of strings";
+      if (spec.pattern && !value.every(item => new RegExp(spec.pattern!).test(item))) return spec.patternMessage ?? `must all match ${spec.pattern}`;
+      return null;
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value) ? null : "must be an object";
+    case "array":
+      return Array.isArray(value) ? null : "must be a list";
+  }
+};
+
+export const validateRecord = (
+  schema: RecordSchema,
+  input: unknown,
+  { partial = false, coerce = false }: ValidateOptions = {}
+): FieldError[] => {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return [{ field: "", message: "must be an object" }];
+  }
+  const record = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const value = coerce ? coerceValue(spec, record[field]) : record[field];
+    if (isMissing(value)) {
+      if (spec.required && !partial) errors.push({ field, message: `${field} is required` });
+      continue;
+    }
+    const message = checkField(spec, value);
+    if (message) errors.push({ field, message: `${field} ${message}` });
+  }
+
+  if (!partial) {
+    for (const { field, keys } of schema.requireOneOf ?? []) {
+      if (keys.every(key => isMissing(record[key]))) {
+        errors.push({ field, message: `${keys.join(" or ")} is required` });
+      }
+    }
+  }
+  return errors;
+};
+
+// The fields the schema declares, so nothing else gets written through to the database
+export const pickKnownFields = (schema: RecordSchema, input: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(input).filter(([field]) => field in schema.fields));
+
+// Required-ness follows the backend models: fields with a database default are optional.
+// No schema has a department field: records go to the department the request is made in.
+// Year codes, divisions and batches aren't fixed either; the backend checks them against the department's years.
+
+export const DEPARTMENT_SCHEMA: RecordSchema = {
+  fields: {
+    name: { type: "string", required: true },
+    code: { type: "string", pattern: "^[A-Za-z0-9-]{2,10}$", patternMessage: "must be 2 to 10 letters, digits or dashes", required: true }
+  }
+};
+
+export const ACADEMIC_YEAR_SCHEMA: RecordSchema = {
+  fields: {
+    code: { type: "string", pattern: "^[A-Za-z0-9-]{1,10}$", patternMessage: "must be 1 to 10 letters, digits or dashes", required: true },
+    label: { type: "string", required: true },
+    program: { type: "string", required: true },
+    order: { type: "number", integer: true },
+    divisions: { type: "string[]" },
+    batches: { type: "array" }, // entries are checked by the backend against the divisions
+    enrollment: { type: "array" }, // likewise
+    workingDays: { type: "object" }, // checked by the backend; null clears it
+    session: { type: "string", enum: YEAR_SESSIONS }
+  }
+};
+
+// Periods and working days are checked by the backend: times, order, one shift per session
+export const BELL_SCHEDULE_SCHEMA: RecordSchema = {
+  fields: {
+    labPeriods: { type: "number", integer: true, min: 1, max: 4, required: true },
+    shifts: { type: "array", required: true },
+    dayVariations: { type: "array" },
+    workingDays: { type: "object" }
+  }
+};
+
+export const SUBJECT_SCHEMA: RecordSchema = {
+  fields: {
+    name: { type: "string", required: true },
+    code: { type: "string", required: true },
+    year: { type: "string", required: true },
+    semester: { type: "number", integer: true, min: 1, max: 8, required: true },
+    type: { type: "string", enum: SLOT_TYPES },
+    theoryHours: { type: "number", min: 0 },
+    labHours: { type: "number", min: 0 },
+    faculty: { type: "id", required: true }
+  }
+};
+
+export const FACULTY_SCHEMA: RecordSchema = {
+  fields: {
+    name: { type: "string", required: true },
+    email: { type: "string", pattern: EMAIL_PATTERN.source, patternMessage: "is not a valid email address", required: true },
+    phone: { type: "string", pattern: PHONE_PATTERN.source, patternMessage: "must be exactly 10 digits", required: true },
+    subjects: { type: "string[]" },
+    maxHoursPerDay: { type: "number", min: 1 },
+    preferredSlots: { type: "string[]" },
+    unavailableSlots: { type: "string[]" }
+  }
+};
+
+export const CLASSROOM_SCHEMA: RecordSchema = {
+  fields: {
+    name: { type: "string", required: true },
+    capacity: { type: "number", min: 1, required: true },
+    timeSlot: { type: "string", enum: CLASSROOM_SHIFTS },
+    assignedYear: { type: "string", required: true },
+    assignedDivision: { type: "string" },
+    floor: { type: "number", min: 0 },
+    amenities: { type: "string[]" },
+    sharedWith: { type: "id[]" }
+  }
+};
+
+export const LAB_SCHEMA: RecordSchema = {
+  fields: {
+    name: { type: "string", required: true },
+    type: { type: "string", required: true },
+    capacity: { type: "number", min: 1 },
+    floor: { type: "number", min: 0 },
+    equipment: { type: "string[]" },
+    availableHours: { type: "string[]", pattern: TIME_RANGE_PATTERN.source, patternMessage: "must be 24-hour ranges such as 13:05-17:00" },
+    compatibleSubjects: { type: "string[]" },
+    sharedWith: { type: "id[]" }
+  }
+};
+
+// Passwords are only required when an account is created
+export const USER_SCHEMA: RecordSchema = {
+  fields: {
+    name: { type: "string", required: true },
+    email: { type: "string", pattern: EMAIL_PATTERN.source, patternMessage: "is not a valid email address", required: true },
+    password: { type: "string", minLength: 8, required: true },
+    role: { type: "string", enum: USER_ROLES, required: true },
+    faculty: { type: "id" }
+  }
+};
+
+// Slots name their subject, faculty and room either by id or by display name
+export const TIMETABLE_SLOT_SCHEMA: RecordSchema = {
+  fields: {
+    day: { type: "string", enum: DAYS, required: true },
+    time: { type: "string", pattern: TIME_RANGE_PATTERN.source, patternMessage: "must be a 24-hour range such as 13:05-14:00", required: true },
+    type: { type: "string", enum: SLOT_TYPES, required: true },
+    year: { type: "string", required: true },
+    division: { type: "string" },
+    semester: { type: "number", integer: true, min: 1, max: 8, required: true },
+    duration: { type: "number", min: 0.5, required: true },
+    batch: { type: "string" },
+    subjectId: { type: "id" },
+    facultyId: { type: "id" },
+    roomId: { type: "id" },
+    labId: { type: "id" },
+    subject: { type: "string" },
+    faculty: { type: "string" },
+    room: { type: "string" }
+  },
+  requireOneOf: [
+    { field: "subject", keys: ["subjectId", "subject"] },
+    { field: "faculty", keys: ["facultyId", "faculty"] },
+    { field: "room", keys: ["roomId", "labId", "room"] }
+  ]
+};
+
+export const validateSubject = (input: unknown, options?: ValidateOptions) => validateRecord(SUBJECT_SCHEMA, input, options);
+export const validateFaculty = (input: unknown, options?: ValidateOptions) => validateRecord(FACULTY_SCHEMA, input, options);
+export const validateClassroom = (input: unknown, options?: ValidateOptions) => validateRecord(CLASSROOM_SCHEMA, input, options);
+export const validateLab = (input: unknown, options?: ValidateOptions) => validateRecord(LAB_SCHEMA, input, options);
+export const validateTimetableSlot = (input: unknown, options?: ValidateOptions) =>
+  validateRecord(TIMETABLE_SLOT_SCHEMA, input, options);